@@ -0,0 +1,147 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { getRespondableForm } from '@/lib/formAccess';
+import { DRAFT_TOKEN_PARAM, FormDraft, MAX_DRAFT_SIZE_KB, draftExpiry, isDraftExpired } from '@/lib/formDrafts';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const toDraft = (row: any): FormDraft => ({
+  data: row.data || {},
+  page: row.page || 0,
+  saved_at: row.updated_at,
+  expires_at: row.expires_at,
+  token: row.resume_token
+});
+
+/**
+ * Loads a draft of a response: the one with the `draft` token, or else the signed in
+ * respondent's latest draft for the form. Expired drafts are deleted.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { supabase, db, form, error } = await getRespondableForm(request, id);
+  if (error) return error;
+
+  const token = request.nextUrl.searchParams.get(DRAFT_TOKEN_PARAM);
+  let query = db.from('form_drafts').select('*').eq('form_id', form.id);
+
+  if (token) {
+    query = query.eq('resume_token', token);
+  } else {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return NextResponse.json({ error: 'Draft not found' }, { status: 404 });
+    }
+    query = query.eq('user_id', user.id).order('updated_at', { ascending: false }).limit(1);
+  }
+
+  const { data: rows, error: draftError } = await query;
+  if (draftError) {
+    return NextResponse.json({ error: `Database error: ${draftError.message}` }, { status: 500 });
+  }
+
+  const row = rows?.[0];
+  if (!row) {
+    return NextResponse.json({ error: token ? 'This draft was not found. It may have been submitted already.' : 'Draft not found' }, { status: 404 });
+  }
+  if (isDraftExpired(row)) {
+    await db.from('form_drafts').delete().eq('id', row.id);
+    return NextResponse.json({ error: 'This draft has expired. Please start again.' }, { status: 410 });
+  }
+
+  return NextResponse.json({ draft: toDraft(row) });
+}
+
+/**
+ * Saves a draft of a response. Takes `data`, `page` and the `token` of the draft to
+ * update; without a token, or when its draft is gone, a new draft with a new token is
+ * created. Signed in respondents' drafts are linked to them. Each save extends the expiry.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { data, page, token } = body || {};
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return NextResponse.json({ error: 'Draft data must be an object' }, { status: 400 });
+  }
+  if (JSON.stringify(data).length > MAX_DRAFT_SIZE_KB * 1024) {
+    return NextResponse.json({ error: 'This draft is too large to save' }, { status: 413 });
+  }
+
+  const { supabase, db, form, error } = await getRespondableForm(request, id);
+  if (error) return error;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  const now = new Date();
+  const values = {
+    data,
+    page: Number.isInteger(page) && page >= 0 ? page : 0,
+    updated_at: now.toISOString(),
+    expires_at: draftExpiry(now)
+  };
+
+  // Expired drafts of the form are cleaned up while we're here
+  await db.from('form_drafts').delete().eq('form_id', form.id).lt('expires_at', now.toISOString());
+
+  if (typeof token === 'string' && token) {
+    const { data: updated, error: updateError } = await db
+      .from('form_drafts')
+      .update(values)
+      .eq('form_id', form.id)
+      .eq('resume_token', token)
+      .select();
+
+    if (updateError) {
+      return NextResponse.json({ error: `Database error: ${updateError.message}` }, { status: 500 });
+    }
+    if (updated && updated.length > 0) {
+      return NextResponse.json({ draft: toDraft(updated[0]) });
+    }
+  }
+
+  const { data: created, error: insertError } = await db
+    .from('form_drafts')
+    .insert({
+      ...values,
+      form_id: form.id,
+      user_id: user?.id || null,
+      resume_token: randomBytes(24).toString('base64url'),
+      created_at: now.toISOString()
+    })
+    .select()
+    .single();
+
+  if (insertError || !created) {
+    return NextResponse.json({ error: `Database error: ${insertError?.message || 'Draft not saved'}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ draft: toDraft(created) }, { status: 201 });
+}
+
+/**
+ * Deletes the draft with the `draft` token, when the respondent starts over
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { db, form, error } = await getRespondableForm(request, id);
+  if (error) return error;
+
+  const token = request.nextUrl.searchParams.get(DRAFT_TOKEN_PARAM);
+  if (!token) {
+    return NextResponse.json({ error: 'Missing draft token' }, { status: 400 });
+  }
+
+  const { error: deleteError } = await db.from('form_drafts').delete().eq('form_id', form.id).eq('resume_token', token);
+  if (deleteError) {
+    return NextResponse.json({ error: `Database error: ${deleteError.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/utils/supabase/route';
+import { prefillFromValues } from '@/lib/prefill';
+import { MAX_PREFILL_TOKEN_DAYS, canSignPrefillTokens, createPrefillToken } from '@/lib/prefillTokens';
+
+/**
+ * Creates a signed prefill token for a form, for links whose answers respondents can't
+ * change. Takes `values` keyed by field ID or label and optionally `expires_in_days`.
+ * Only the form's owner can create tokens.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = createRouteClient(request);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const { data: form, error: formError } = await supabase
+    .from('forms')
+    .select('id, user_id, fields')
+    .eq('id', id)
+    .single();
+
+  if (formError || !form) {
+    return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+  }
+  if (form.user_id !== user.id) {
+    return NextResponse.json({ error: 'You do not have permission to create links for this form' }, { status: 403 });
+  }
+
+  if (!canSignPrefillTokens()) {
+    return NextResponse.json({ error: 'Signed links are not set up. Set PREFILL_TOKEN_SECRET on the server.' }, { status: 501 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { values, expires_in_days } = body || {};
+  if (!values || typeof values !== 'object' || Array.isArray(values)) {
+    return NextResponse.json({ error: 'Values must be an object' }, { status: 400 });
+  }
+  if (expires_in_days !== undefined && expires_in_days !== null &&
+      (typeof expires_in_days !== 'number' || expires_in_days <= 0 || expires_in_days > MAX_PREFILL_TOKEN_DAYS)) {
+    return NextResponse.json({ error: `Links can be valid for 1 to ${MAX_PREFILL_TOKEN_DAYS} days` }, { status: 400 });
+  }
+
+  // Only values that fit their fields are signed
+  const answers = prefillFromValues(form.fields || [], values);
+  if (Object.keys(answers).length === 0) {
+    return NextResponse.json({ error: 'Please enter at least one value to prefill' }, { status: 400 });
+  }
+
+  const token = createPrefillToken(form.id, answers, expires_in_days || undefined);
+  return NextResponse.json({ token, values: answers }, { status: 201 });
+}
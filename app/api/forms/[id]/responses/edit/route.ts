@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { getRespondableForm } from '@/lib/formAccess';
+import { prepareResponseData, respondentDetails } from '@/lib/responseProcessing';
+import { EDIT_TOKEN_PARAM, EditableResponse, canEditResponses, editableAnswers } from '@/lib/responseEdits';
+import { isSignedOnly } from '@/lib/prefill';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Loads the form and the response with an edit token, checking that it can still be edited
+ */
+async function getEditableResponse(request: NextRequest, id: string, token: unknown) {
+  const { db, form, error } = await getRespondableForm(request, id);
+  if (error) return { error };
+
+  if (typeof token !== 'string' || !token) {
+    return { error: NextResponse.json({ error: 'Missing edit token' }, { status: 400 }) };
+  }
+  if (!canEditResponses(form)) {
+    return { error: NextResponse.json({ error: 'Responses to this form can no longer be edited' }, { status: 403 }) };
+  }
+
+  const { data: response, error: responseError } = await db
+    .from('form_responses')
+    .select('id, data, respondent_email, submitted_at, updated_at, edit_expires_at, prefilled_field_ids')
+    .eq('form_id', form.id)
+    .eq('edit_token', token)
+    .maybeSingle();
+
+  if (responseError) {
+    return { error: NextResponse.json({ error: `Database error: ${responseError.message}` }, { status: 500 }) };
+  }
+  if (!response) {
+    return { error: NextResponse.json({ error: 'This edit link is not valid' }, { status: 404 }) };
+  }
+  if (!response.edit_expires_at || Date.parse(response.edit_expires_at) < Date.now()) {
+    return { error: NextResponse.json({ error: 'This edit link has expired' }, { status: 410 }) };
+  }
+
+  return { db, form, response };
+}
+
+/**
+ * Loads a response to edit with the `edit` token of its edit link. The answers come back
+ * keyed by field ID, like they are submitted.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { form, response, error } = await getEditableResponse(request, id, request.nextUrl.searchParams.get(EDIT_TOKEN_PARAM));
+  if (error) return error;
+
+  const editable: EditableResponse = {
+    id: response.id,
+    data: editableAnswers(form.fields || [], response.data || {}),
+    respondent_email: response.respondent_email,
+    submitted_at: response.submitted_at,
+    updated_at: response.updated_at,
+    edit_expires_at: response.edit_expires_at,
+    prefilled_field_ids: response.prefilled_field_ids || []
+  };
+  return NextResponse.json({ response: editable });
+}
+
+/**
+ * Saves the edited answers of a response. Takes `data` and the `edit_token` of the edit
+ * link. The answers are checked like new responses; the previous answers are kept as a
+ * revision. Answers set by the signed link the response was submitted with, and answers
+ * that only signed links can set, keep their previous values.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { data, edit_token } = body || {};
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return NextResponse.json({ error: 'Response data must be an object' }, { status: 400 });
+  }
+
+  const { db, form, response, error } = await getEditableResponse(request, id, edit_token);
+  if (error) return error;
+
+  const previousAnswers = editableAnswers(form.fields || [], response.data || {});
+  const prefilledFieldIds: string[] = response.prefilled_field_ids || [];
+  const signedAnswers = Object.fromEntries(
+    (form.fields || [])
+      .filter((field: any) => isSignedOnly(field) || prefilledFieldIds.includes(field.id))
+      .filter((field: any) => previousAnswers[field.id] !== undefined)
+      .map((field: any) => [field.id, previousAnswers[field.id]])
+  );
+
+  const updatedAt = new Date().toISOString();
+  const prepared = await prepareResponseData(db, form, data, signedAnswers, respondentDetails(request, response.respondent_email, updatedAt));
+  if ('errors' in prepared) {
+    return NextResponse.json({ error: 'Some answers need to be corrected', errors: prepared.errors }, { status: 422 });
+  }
+
+  // The answers being replaced are kept, so the owner can see what changed
+  const { error: revisionError } = await db
+    .from('form_response_revisions')
+    .insert({
+      id: uuidv4(),
+      response_id: response.id,
+      form_id: form.id,
+      data: response.data,
+      respondent_email: response.respondent_email,
+      submitted_at: response.updated_at || response.submitted_at,
+      revised_at: updatedAt
+    });
+
+  if (revisionError) {
+    return NextResponse.json({ error: `Database error: ${revisionError.message}` }, { status: 500 });
+  }
+
+  const { error: updateError } = await db
+    .from('form_responses')
+    .update({ data: prepared.data, updated_at: updatedAt })
+    .eq('id', response.id);
+
+  if (updateError) {
+    return NextResponse.json({ error: `Database error: ${updateError.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ response: { id: response.id, updated_at: updatedAt } });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { EMAIL_REGEX } from '@/lib/formSubmission';
+import { FORM_FULL_ERROR_CODE, getRespondableForm } from '@/lib/formAccess';
+import { formClosedMessage } from '@/lib/formSchedule';
+import { prepareResponseData, respondentDetails } from '@/lib/responseProcessing';
+import { canEditResponses, editLinkExpiry } from '@/lib/responseEdits';
+import { prefillFromValues } from '@/lib/prefill';
+import { verifyPrefillToken } from '@/lib/prefillTokens';
+
+/**
+ * Stores a response to a form. Public forms accept responses without a login;
+ * private forms only from their owner, and only while the form is open. The answers are validated against the
+ * stored form definition; invalid answers are rejected with a 422 and an `errors`
+ * list of `{ field_id, code, message }`. A `prefill_token` from a signed link sets
+ * the answers it signs, whatever was submitted for them, and the response records
+ * which fields it set so they stay fixed when editing. The draft with the
+ * `draft_token`, if any, is deleted once the response is stored. When the form allows
+ * edits, the response comes back with the `edit_token` of its edit link.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { data, respondent_email, prefill_token, draft_token } = body || {};
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return NextResponse.json({ error: 'Response data must be an object' }, { status: 400 });
+  }
+
+  const email = typeof respondent_email === 'string' ? respondent_email.trim() : '';
+  if (email && !EMAIL_REGEX.test(email)) {
+    return NextResponse.json({ error: 'Please enter a valid email address' }, { status: 400 });
+  }
+
+  if (prefill_token !== undefined && prefill_token !== null && typeof prefill_token !== 'string') {
+    return NextResponse.json({ error: 'Invalid prefill token' }, { status: 400 });
+  }
+
+  const { db, form, error } = await getRespondableForm(request, id, { newResponse: true });
+  if (error) return error;
+
+  let prefilledAnswers: Record<string, any> = {};
+  if (prefill_token) {
+    const verified = verifyPrefillToken(prefill_token, form.id);
+    if ('error' in verified) {
+      return NextResponse.json({ error: verified.error }, { status: 400 });
+    }
+    prefilledAnswers = prefillFromValues(form.fields || [], verified.values);
+  }
+
+  const submittedAt = new Date().toISOString();
+  const prepared = await prepareResponseData(db, form, data, prefilledAnswers, respondentDetails(request, email || null, submittedAt));
+  if ('errors' in prepared) {
+    return NextResponse.json({ error: 'Some answers need to be corrected', errors: prepared.errors }, { status: 422 });
+  }
+
+  // The ID is generated here because anonymous respondents may not be allowed to read the row back.
+  // Forms that allow edits give the respondent a link to come back to the response with.
+  const responseId = uuidv4();
+  const edit = canEditResponses(form)
+    ? { edit_token: randomBytes(24).toString('base64url'), edit_expires_at: editLinkExpiry(form, new Date(submittedAt)) }
+    : {};
+  const { error: insertError } = await db
+    .from('form_responses')
+    .insert({
+      id: responseId,
+      form_id: form.id,
+      respondent_email: email || null,
+      data: prepared.data,
+      submitted_at: submittedAt,
+      prefilled_field_ids: Object.keys(prefilledAnswers),
+      ...edit
+    });
+
+  if (insertError?.code === FORM_FULL_ERROR_CODE) {
+    return NextResponse.json({ error: formClosedMessage(form, 'full'), status: 'full' }, { status: 403 });
+  }
+  if (insertError) {
+    return NextResponse.json({ error: `Database error: ${insertError.message}` }, { status: 500 });
+  }
+
+  // The response is final, so its draft is no longer needed
+  if (typeof draft_token === 'string' && draft_token) {
+    await db.from('form_drafts').delete().eq('form_id', form.id).eq('resume_token', draft_token);
+  }
+
+  return NextResponse.json({ response: { id: responseId, ...edit } }, { status: 201 });
+}
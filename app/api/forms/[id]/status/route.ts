@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFormAvailability, getRespondableForm } from '@/lib/formAccess';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Tells respondents whether a form takes responses, before they fill it in. Counting
+ * responses against the maximum needs the service role, so this is done here.
+ * Returns `{ status, message }`; the message is null while the form is open.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { db, form, error } = await getRespondableForm(request, id);
+  if (error) return error;
+
+  return NextResponse.json(await getFormAvailability(db, form));
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { createRouteClient } from '@/utils/supabase/route';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { getFormAvailability, getRespondableForm } from '@/lib/formAccess';
+import { getResponseFileStorage } from '@/lib/fileStorage';
+import {
+  MAX_UPLOAD_SIZE_MB,
+  StoredFile,
+  isAcceptedFileType,
+  responseFilePath
+} from '@/lib/fileUploads';
+import { FieldValidationRules } from '@/lib/responseValidation';
+import { canEditResponses } from '@/lib/responseEdits';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Room for the multipart boundaries and the other parts besides the file
+const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+/**
+ * Uploads a file for a file field of a form, before the response is submitted.
+ * Takes multipart form data with `fieldId` and `file`, checks the file against the
+ * field's accepted types and size limit, and returns the stored file for the answer.
+ * Files are only taken while the form is open, or with the `editToken` of a response
+ * that can still be edited.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { db, form, error } = await getRespondableForm(request, id);
+  if (error) return error;
+
+  // The body is read into memory to parse it, so uploads over the limit are turned away first
+  const contentLength = Number(request.headers.get('content-length'));
+  if (!contentLength) {
+    return NextResponse.json({ error: 'The upload size must be given' }, { status: 411 });
+  }
+  if (contentLength > MAX_UPLOAD_SIZE_MB * 1024 * 1024 + MULTIPART_OVERHEAD_BYTES) {
+    return NextResponse.json({ error: `Files can be at most ${MAX_UPLOAD_SIZE_MB} MB` }, { status: 413 });
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const fieldId = formData.get('fieldId');
+  const file = formData.get('file');
+  const editToken = formData.get('editToken');
+
+  if (typeof editToken === 'string' && editToken) {
+    const { data: response } = await db
+      .from('form_responses')
+      .select('id, edit_expires_at')
+      .eq('form_id', form.id)
+      .eq('edit_token', editToken)
+      .maybeSingle();
+
+    if (!canEditResponses(form) || !response?.edit_expires_at || Date.parse(response.edit_expires_at) < Date.now()) {
+      return NextResponse.json({ error: 'This edit link can no longer be used' }, { status: 403 });
+    }
+  } else {
+    const { status, message } = await getFormAvailability(db, form);
+    if (status !== 'open') {
+      return NextResponse.json({ error: message, status }, { status: 403 });
+    }
+  }
+
+  const field = (form.fields || []).find((candidate: any) => candidate.id === fieldId);
+  if (!field || field.type !== 'file') {
+    return NextResponse.json({ error: 'This form has no such file field' }, { status: 400 });
+  }
+  if (!(file instanceof File) || file.size === 0) {
+    return NextResponse.json({ error: 'Please choose a file to upload' }, { status: 400 });
+  }
+
+  const rules: FieldValidationRules = field.validation || field.metadata?.validation || {};
+  const maxSize = Math.min(rules.maxFileSize ?? MAX_UPLOAD_SIZE_MB, MAX_UPLOAD_SIZE_MB);
+  const type = file.type || 'application/octet-stream';
+
+  if (!isAcceptedFileType(type, rules.acceptedTypes)) {
+    return NextResponse.json({ error: `"${file.name}" is not an accepted file type` }, { status: 415 });
+  }
+  if (file.size > maxSize * 1024 * 1024) {
+    return NextResponse.json({ error: `"${file.name}" is larger than ${maxSize} MB` }, { status: 413 });
+  }
+
+  const stored: StoredFile = {
+    path: responseFilePath(form.id, field.id, file.name, uuidv4()),
+    name: file.name,
+    size: file.size,
+    type,
+    uploaded_at: new Date().toISOString()
+  };
+
+  try {
+    await getResponseFileStorage(db).upload(stored.path, await file.arrayBuffer(), type);
+  } catch (err: any) {
+    return NextResponse.json({ error: `Upload failed: ${err.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ file: stored }, { status: 201 });
+}
+
+/**
+ * Downloads a file uploaded with a response to the form. Only the owner of the
+ * form can download files. The path is given as the `path` query parameter and
+ * the original file name, used for saving, as `name`.
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = createRouteClient(request);
+  const filePath = request.nextUrl.searchParams.get('path') || '';
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const { data: form, error: formError } = await supabase
+    .from('forms')
+    .select('id, user_id')
+    .eq('id', id)
+    .single();
+
+  if (formError || !form) {
+    return NextResponse.json({ error: 'Form not found' }, { status: 404 });
+  }
+  if (form.user_id !== user.id) {
+    return NextResponse.json({ error: 'You do not have permission to download files of this form' }, { status: 403 });
+  }
+  if (!filePath.startsWith(`${form.id}/`) || filePath.split('/').includes('..')) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  const file = await getResponseFileStorage(createAdminClient() || supabase).download(filePath);
+  if (!file) {
+    return NextResponse.json({ error: 'File not found' }, { status: 404 });
+  }
+
+  const filename = request.nextUrl.searchParams.get('name') || filePath.split('/').pop()!;
+
+  return new NextResponse(Buffer.from(file.contents), {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="download"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    },
+  });
+}
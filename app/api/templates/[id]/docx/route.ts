@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/utils/supabase/route';
+import { TEMPLATE_FILES_BUCKET, fillWordTemplate, inspectWordTemplate } from '@/lib/wordTemplate';
+import { WORD_MIME_TYPE } from '@/lib/wordDocument';
+import { loadResponseValues } from '@/lib/responseValues';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Fetches a template and checks that the current user owns it
+ */
+async function getOwnedTemplate(request: NextRequest, id: string) {
+  const supabase = createRouteClient(request);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return { error: NextResponse.json({ error: 'User not authenticated' }, { status: 401 }) };
+  }
+
+  const { data: template, error: templateError } = await supabase
+    .from('templates')
+    .select('id, user_id, docx_path')
+    .eq('id', id)
+    .single();
+
+  if (templateError || !template) {
+    return { error: NextResponse.json({ error: 'Template not found' }, { status: 404 }) };
+  }
+  if (template.user_id !== user.id) {
+    return { error: NextResponse.json({ error: 'You do not have permission to edit this template' }, { status: 403 }) };
+  }
+
+  return { supabase, user, template };
+}
+
+/**
+ * Uploads a Word file as the template's document. The file is checked for
+ * placeholders that cannot be filled in before it is stored.
+ */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { supabase, user, template, error } = await getOwnedTemplate(request, id);
+  if (error) return error;
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const file = formData.get('file');
+
+  if (!(file instanceof File) || !file.name.toLowerCase().endsWith('.docx')) {
+    return NextResponse.json({ error: 'Please upload a .docx file' }, { status: 400 });
+  }
+
+  const contents = await file.arrayBuffer();
+  let inspection;
+  try {
+    inspection = await inspectWordTemplate(contents);
+  } catch (err: any) {
+    return NextResponse.json({ error: `Could not read the Word file: ${err.message}` }, { status: 400 });
+  }
+
+  if (inspection.problems.length > 0) {
+    return NextResponse.json({ error: 'The Word template has placeholders that cannot be filled in', problems: inspection.problems }, { status: 422 });
+  }
+
+  const path = `${user.id}/${template.id}.docx`;
+  const { error: uploadError } = await supabase.storage
+    .from(TEMPLATE_FILES_BUCKET)
+    .upload(path, contents, { contentType: WORD_MIME_TYPE, upsert: true });
+
+  if (uploadError) {
+    return NextResponse.json({ error: `Upload failed: ${uploadError.message}` }, { status: 500 });
+  }
+
+  const { error: updateError } = await supabase
+    .from('templates')
+    .update({ docx_path: path, docx_filename: file.name })
+    .eq('id', template.id);
+
+  if (updateError) {
+    return NextResponse.json({ error: `Database error: ${updateError.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ docx_path: path, docx_filename: file.name, fields: inspection.fields });
+}
+
+/**
+ * Removes the template's Word document
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const { supabase, template, error } = await getOwnedTemplate(request, id);
+  if (error) return error;
+
+  if (template.docx_path) {
+    await supabase.storage.from(TEMPLATE_FILES_BUCKET).remove([template.docx_path]);
+  }
+
+  const { error: updateError } = await supabase
+    .from('templates')
+    .update({ docx_path: null, docx_filename: null })
+    .eq('id', template.id);
+
+  if (updateError) {
+    return NextResponse.json({ error: `Database error: ${updateError.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
+
+/**
+ * Generates a filled-in Word document from the template's uploaded .docx.
+ * The values come either from the request body (`data`) or from a stored form
+ * response (`responseId`), whose answers are also made available by field label.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const supabase = createRouteClient(request);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const { data: requestData, responseId } = body || {};
+
+  const { data: template, error: templateError } = await supabase
+    .from('templates')
+    .select('id, name, docx_path, field_mapping')
+    .eq('id', id)
+    .single();
+
+  if (templateError || !template) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  if (!template.docx_path) {
+    return NextResponse.json({ error: 'This template has no Word document' }, { status: 400 });
+  }
+
+  let values: Record<string, any> = requestData || {};
+
+  if (!requestData && responseId) {
+    const responseValues = await loadResponseValues(supabase, responseId);
+    if (!responseValues) {
+      return NextResponse.json({ error: 'Form response not found' }, { status: 404 });
+    }
+    values = responseValues;
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(TEMPLATE_FILES_BUCKET)
+    .download(template.docx_path);
+
+  if (downloadError || !file) {
+    return NextResponse.json({ error: 'Could not load the Word template' }, { status: 500 });
+  }
+
+  try {
+    const document = await fillWordTemplate(await file.arrayBuffer(), values, template.field_mapping);
+    const filename = `${template.name || 'document'}.docx`;
+
+    return new NextResponse(Buffer.from(document), {
+      headers: {
+        'Content-Type': WORD_MIME_TYPE,
+        'Content-Disposition': `attachment; filename="document.docx"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+      },
+    });
+  } catch (err: any) {
+    return NextResponse.json({ error: `Failed to generate Word document: ${err.message}` }, { status: 422 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/utils/supabase/route';
+import { renderDocumentText } from '@/lib/templateRenderer';
+import { PDF_MIME_TYPE, generatePdfBuffer } from '@/lib/pdfDocument';
+import { loadResponseValues } from '@/lib/responseValues';
+
+/**
+ * Generates a PDF document from the template. The values come either from the
+ * request body (`data`) or from a stored form response (`responseId`). The layout
+ * is the same as for PDFs generated in the browser; pass `createdAt` to get the
+ * exact same file.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = createRouteClient(request);
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const { data: requestData, responseId, createdAt } = body || {};
+
+  const { data: template, error: templateError } = await supabase
+    .from('templates')
+    .select('id, name, template_content, field_mapping')
+    .eq('id', id)
+    .single();
+
+  if (templateError || !template) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+
+  let values: Record<string, any> = requestData || {};
+
+  if (!requestData && responseId) {
+    const responseValues = await loadResponseValues(supabase, responseId);
+    if (!responseValues) {
+      return NextResponse.json({ error: 'Form response not found' }, { status: 404 });
+    }
+    values = responseValues;
+  }
+
+  const creationDate = createdAt ? new Date(createdAt) : undefined;
+  if (creationDate && isNaN(creationDate.getTime())) {
+    return NextResponse.json({ error: 'createdAt must be a valid date' }, { status: 400 });
+  }
+
+  const content = renderDocumentText(template.template_content, values, template.field_mapping);
+  const pdf = generatePdfBuffer(content, { title: template.name, createdAt: creationDate });
+  const filename = `${(template.name || 'document').replace(/\s+/g, '_')}_document.pdf`;
+
+  return new NextResponse(Buffer.from(pdf), {
+    headers: {
+      'Content-Type': PDF_MIME_TYPE,
+      'Content-Disposition': `attachment; filename="document.pdf"; filename*=UTF-8''${encodeURIComponent(filename)}`,
+    },
+  });
+}
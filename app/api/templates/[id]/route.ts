@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/utils/supabase/route';
+import { hasLintErrors, lintTemplate, toLintFormFields } from '@/lib/templateLinter';
+import { buildFieldMapping } from '@/lib/templateMapping';
+
+/**
+ * Updates a template. The content is linted against the linked form first and the
+ * update is rejected with the lint issues when it has errors. The placeholder-to-field
+ * mapping is brought up to date with the new content.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const supabase = createRouteClient(request);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  const { data: template, error: templateError } = await supabase
+    .from('templates')
+    .select('id, user_id, form_id, field_mapping')
+    .eq('id', id)
+    .single();
+
+  if (templateError || !template) {
+    return NextResponse.json({ error: 'Template not found' }, { status: 404 });
+  }
+  if (template.user_id !== user.id) {
+    return NextResponse.json({ error: 'You do not have permission to edit this template' }, { status: 403 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { name, description, template_content } = body || {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return NextResponse.json({ error: 'Please enter a template name' }, { status: 400 });
+  }
+  if (typeof template_content !== 'string' || !template_content.trim()) {
+    return NextResponse.json({ error: 'Please enter template content' }, { status: 400 });
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return NextResponse.json({ error: 'Description must be text' }, { status: 400 });
+  }
+
+  let formFields;
+  if (template.form_id) {
+    const { data: form } = await supabase
+      .from('forms')
+      .select('fields')
+      .eq('id', template.form_id)
+      .single();
+
+    formFields = form ? toLintFormFields(form.fields) : undefined;
+  }
+
+  const issues = lintTemplate(template_content, formFields, template.field_mapping);
+  if (hasLintErrors(issues)) {
+    return NextResponse.json({ error: 'Template content has errors', issues }, { status: 422 });
+  }
+
+  const { data, error } = await supabase
+    .from('templates')
+    .update({
+      name,
+      description,
+      template_content,
+      // Keep existing bindings and bind any new placeholders to their matching fields
+      ...(formFields ? { field_mapping: buildFieldMapping(template_content, formFields, template.field_mapping || {}) } : {}),
+    })
+    .eq('id', id)
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: `Database error: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ template: data, issues });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createRouteClient } from '@/utils/supabase/route';
+import { importWordDocument } from '@/lib/wordImport';
+
+/**
+ * Converts an uploaded Word document into template content.
+ * Nothing is saved; the content is returned for the user to review.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createRouteClient(request);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  let formData: FormData;
+  try {
+    formData = await request.formData();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+  const file = formData.get('file');
+
+  if (!(file instanceof File) || !file.name.toLowerCase().endsWith('.docx')) {
+    return NextResponse.json({ error: 'Please upload a .docx file' }, { status: 400 });
+  }
+
+  try {
+    const { content, warnings } = await importWordDocument(Buffer.from(await file.arrayBuffer()));
+    return NextResponse.json({ content, warnings, name: file.name.replace(/\.docx$/i, '') });
+  } catch (err: any) {
+    return NextResponse.json({ error: `Could not read the Word file: ${err.message}` }, { status: 400 });
+  }
+}
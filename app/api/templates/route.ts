@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { v4 as uuidv4 } from 'uuid';
+import { createRouteClient } from '@/utils/supabase/route';
+import { hasLintErrors, lintTemplate, toLintFormFields } from '@/lib/templateLinter';
+import { buildFieldMapping } from '@/lib/templateMapping';
+
+/**
+ * Creates a template. The content is linted first and the template is rejected
+ * with the lint issues when it has errors.
+ */
+export async function POST(request: NextRequest) {
+  const supabase = createRouteClient(request);
+
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError || !user) {
+    return NextResponse.json({ error: 'User not authenticated' }, { status: 401 });
+  }
+
+  let body: any;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid request body' }, { status: 400 });
+  }
+
+  const { name, description, template_content, form_id } = body || {};
+
+  if (typeof name !== 'string' || !name.trim()) {
+    return NextResponse.json({ error: 'Please enter a template name' }, { status: 400 });
+  }
+  if (typeof template_content !== 'string' || !template_content.trim()) {
+    return NextResponse.json({ error: 'Please enter template content' }, { status: 400 });
+  }
+  if (description !== undefined && description !== null && typeof description !== 'string') {
+    return NextResponse.json({ error: 'Description must be text' }, { status: 400 });
+  }
+  if (form_id !== undefined && form_id !== null && typeof form_id !== 'string') {
+    return NextResponse.json({ error: 'Invalid form ID' }, { status: 400 });
+  }
+
+  let formFields;
+  if (form_id) {
+    const { data: form, error: formError } = await supabase
+      .from('forms')
+      .select('fields')
+      .eq('id', form_id)
+      .single();
+
+    if (formError || !form) {
+      return NextResponse.json({ error: 'Linked form not found' }, { status: 400 });
+    }
+    formFields = toLintFormFields(form.fields);
+  }
+
+  const issues = lintTemplate(template_content, formFields);
+  if (hasLintErrors(issues)) {
+    return NextResponse.json({ error: 'Template content has errors', issues }, { status: 422 });
+  }
+
+  const { data, error } = await supabase
+    .from('templates')
+    .insert({
+      id: uuidv4(),
+      user_id: user.id,
+      name,
+      description,
+      template_content,
+      form_id: form_id || null,
+      field_mapping: formFields ? buildFieldMapping(template_content, formFields) : null,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    return NextResponse.json({ error: `Database error: ${error.message}` }, { status: 500 });
+  }
+
+  return NextResponse.json({ template: data, issues }, { status: 201 });
+}
@@ -267,7 +267,7 @@ export default function FormPage() {
                 View Responses
               </Link>
               <Link 
-                href={`/dashboard/forms/${formId}/new-response`}
+                href={`/forms/${formId}/new-response`}
                 className="px-4 py-2 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors border shadow-sm flex items-center gap-2"
               >
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -6,6 +6,14 @@ import { supabase } from '@/lib/supabase';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import TemplateRenderer from '@/components/templates/TemplateRenderer';
+import { answerableFields } from '@/lib/formLayout';
+import { formatFileSize, isStoredFile, responseFileUrl } from '@/lib/fileUploads';
+import { describeSignature, isSignatureValue } from '@/lib/signatures';
+import { ScaleSettings, getFieldScale, isRatingField } from '@/lib/ratingFields';
+import { formatAddress, isAddressValue } from '@/lib/contactFields';
+import { GroupChildField, RepeatSettings, getGroupFields, getRepeatLimits } from '@/lib/repeatingGroups';
+import { formatValue } from '@/lib/templateFilters';
+import { ResponseRevision, changedFields } from '@/lib/responseEdits';
 
 interface FormResponse {
   id: string;
@@ -13,6 +21,7 @@ interface FormResponse {
   respondent_email: string | null;
   data: Record<string, any>;
   submitted_at: string;
+  updated_at?: string | null;
 }
 
 interface FormData {
@@ -22,6 +31,9 @@ interface FormData {
     id: string;
     label: string;
     type: string;
+    scale?: ScaleSettings | null;
+    fields?: GroupChildField[] | null;
+    repeat?: RepeatSettings | null;
   }>;
   user_id: string;
   template_id?: string;
@@ -35,6 +47,7 @@ export default function ResponseDetailPage() {
   
   const [form, setForm] = useState<FormData | null>(null);
   const [response, setResponse] = useState<FormResponse | null>(null);
+  const [revisions, setRevisions] = useState<ResponseRevision[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
 
@@ -73,7 +86,7 @@ export default function ResponseDetailPage() {
         // Fetch specific response with explicit columns to ensure we get all data
         const { data: responseData, error: responseError } = await supabase
           .from('form_responses')
-          .select('id, form_id, respondent_email, data, submitted_at')
+          .select('id, form_id, respondent_email, data, submitted_at, updated_at')
           .eq('id', responseId)
           .eq('form_id', formId)
           .single();
@@ -89,6 +102,17 @@ export default function ResponseDetailPage() {
         
         console.log('Fetched response data:', responseData);
         setResponse(responseData);
+
+        // Earlier answers of responses that were changed through an edit link, newest first
+        const { data: revisionData, error: revisionError } = await supabase
+          .from('form_response_revisions')
+          .select('*')
+          .eq('response_id', responseId)
+          .order('revised_at', { ascending: false });
+
+        if (!revisionError && revisionData) {
+          setRevisions(revisionData);
+        }
       } catch (err: any) {
         console.error('Error fetching data:', err);
         setError(err.message || 'Failed to load data');
@@ -189,7 +213,10 @@ export default function ResponseDetailPage() {
           <div className="flex justify-between items-center">
             <div>
               <h2 className="text-lg font-medium text-gray-900 dark:text-white">Response Information</h2>
-              <p className="text-sm text-gray-500 dark:text-gray-400">Submitted on {formatDate(response.submitted_at)}</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Submitted on {formatDate(response.submitted_at)}
+                {response.updated_at && ` · Last changed on ${formatDate(response.updated_at)}`}
+              </p>
             </div>
             <div className="text-sm text-gray-500 dark:text-gray-400">
               {response.respondent_email ? (
@@ -203,7 +230,7 @@ export default function ResponseDetailPage() {
         
         <div className="p-6">
           <dl className="divide-y divide-gray-200 dark:divide-gray-700">
-            {form.fields.map((field) => {
+            {answerableFields(form.fields).map((field) => {
               // Check if the field exists in the response data
               const hasValue = response.data && field.id in response.data;
               
@@ -215,7 +242,7 @@ export default function ResponseDetailPage() {
                   </dt>
                   <dd className="mt-1 text-sm text-gray-900 dark:text-white sm:mt-0 sm:col-span-2">
                     {hasValue 
-                      ? renderResponseValue(response.data[field.id], field.type)
+                      ? renderResponseValue(response.data[field.id], field, form.id)
                       : <span className="text-gray-400 dark:text-gray-500">No response</span>
                     }
                   </dd>
@@ -226,6 +253,48 @@ export default function ResponseDetailPage() {
         </div>
       </div>
 
+      {/* Revision History */}
+      {revisions.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="px-6 py-4 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white">Revision History</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Changes the respondent made through their edit link</p>
+          </div>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {revisions.map((revision, index) => {
+              // Each revision holds the answers before an edit; the next newer version holds them after
+              const after = index === 0 ? response.data : revisions[index - 1].data;
+              const changes = changedFields(answerableFields(form.fields), revision.data || {}, after || {});
+
+              return (
+                <li key={revision.id} className="px-6 py-4">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">Changed on {formatDate(revision.revised_at)}</p>
+                  {changes.length === 0 ? (
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">Saved without changes</p>
+                  ) : (
+                    <dl className="mt-2 space-y-2">
+                      {changes.map(field => (
+                        <div key={field.id} className="sm:grid sm:grid-cols-3 sm:gap-4 text-sm">
+                          <dt className="text-gray-500 dark:text-gray-400">{field.label}</dt>
+                          <dd className="sm:col-span-2 grid grid-cols-2 gap-4">
+                            <div className="text-red-700 dark:text-red-400 line-through">
+                              {renderResponseValue(revision.data?.[field.id], field, form.id)}
+                            </div>
+                            <div className="text-green-700 dark:text-green-400">
+                              {renderResponseValue(after?.[field.id], field, form.id)}
+                            </div>
+                          </dd>
+                        </div>
+                      ))}
+                    </dl>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
       {/* Rendered Template Section */}
       {form.template_id && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden mt-6">
@@ -241,11 +310,91 @@ export default function ResponseDetailPage() {
   );
 }
 
-function renderResponseValue(value: any, fieldType: string) {
+function renderResponseValue(value: any, field: FormData['fields'][number], formId: string) {
+  const fieldType = field.type;
   if (value === undefined || value === null) {
     return <span className="text-gray-400 dark:text-gray-500">No response</span>;
   }
   
+  if (isRatingField(field)) {
+    return `${value} of ${getFieldScale(field).max}`;
+  }
+  
+  if (fieldType === 'file' && Array.isArray(value)) {
+    return (
+      <ul className="space-y-1">
+        {value.filter(isStoredFile).map(file => (
+          <li key={file.path}>
+            <a href={responseFileUrl(formId, file)} className="text-blue-600 dark:text-blue-400 hover:underline">
+              {file.name}
+            </a>
+            <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{formatFileSize(file.size)}</span>
+          </li>
+        ))}
+      </ul>
+    );
+  }
+  
+  if (fieldType === 'signature' && isSignatureValue(value)) {
+    const { respondent } = value;
+    return (
+      <div>
+        <img src={value.image} alt={describeSignature(value)} className="h-20 border border-gray-200 dark:border-gray-700 rounded bg-white" />
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {value.method === 'typed' ? `Typed by ${value.name}` : 'Drawn'} · {new Date(value.signed_at).toLocaleString()}
+          {respondent?.ip_address && ` · IP ${respondent.ip_address}`}
+        </p>
+        {respondent?.user_agent && (
+          <p className="text-xs text-gray-400 dark:text-gray-500 truncate" title={respondent.user_agent}>{respondent.user_agent}</p>
+        )}
+      </div>
+    );
+  }
+  
+  if (fieldType === 'group' && Array.isArray(value)) {
+    const children = getGroupFields(field);
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm border border-gray-200 dark:border-gray-700">
+          <thead className="bg-gray-50 dark:bg-gray-700">
+            <tr>
+              <th className="px-2 py-1 text-left font-medium">{getRepeatLimits(field).entryLabel}</th>
+              {children.map(child => (
+                <th key={child.id} className="px-2 py-1 text-left font-medium">{child.label}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {value.map((entry, index) => (
+              <tr key={index} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="px-2 py-1 text-gray-500 dark:text-gray-400">{index + 1}</td>
+                {children.map(child => (
+                  <td key={child.id} className="px-2 py-1">{formatValue(entry?.[child.id]) || '—'}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+  
+  if (fieldType === 'address' && isAddressValue(value)) {
+    return <span className="whitespace-pre-line">{formatAddress(value, '\n')}</span>;
+  }
+  
+  if (fieldType === 'phone' && typeof value === 'string') {
+    return <a href={`tel:${value}`} className="text-blue-600 dark:text-blue-400 hover:underline">{value}</a>;
+  }
+  
+  if (fieldType === 'url' && typeof value === 'string' && /^https?:\/\//i.test(value)) {
+    return (
+      <a href={value} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline break-all">
+        {value}
+      </a>
+    );
+  }
+  
   if (fieldType === 'checkbox') {
     if (Array.isArray(value)) {
       return (
@@ -6,6 +6,9 @@ import { supabase } from '@/lib/supabase';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import DocumentGenerator from '@/components/templates/DocumentGenerator';
+import RatingResults from '@/components/forms/RatingResults';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
+import { answerableFields } from '@/lib/formLayout';
 import React from 'react';
 
 interface FormField {
@@ -50,6 +53,8 @@ interface Template {
   template_content: string;
   description?: string;
   fields?: any[];
+  field_mapping?: TemplateFieldMapping | null;
+  docx_path?: string | null;
 }
 
 interface PageParams {
@@ -304,6 +309,10 @@ export default function FormResponsesPage() {
         </div>
       </div>
       
+      {responses.length > 0 && (
+        <RatingResults fields={form.fields || []} responses={responses} />
+      )}
+      
       {responses.length === 0 ? (
         <div className="bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-500 dark:border-yellow-600 p-4 rounded-r-lg">
           <p className="text-yellow-700 dark:text-yellow-500">No responses yet for this form.</p>
@@ -372,7 +381,10 @@ export default function FormResponsesPage() {
                   formResponses={selectedResponse.data}
                   templateName={template.name}
                   responseId={selectedResponse.id}
-                  formFields={form?.fields || []}
+                  formFields={answerableFields(form?.fields || [])}
+                  fieldMapping={template.field_mapping}
+                  templateId={template.id}
+                  hasWordTemplate={!!template.docx_path}
                 />
               </div>
             ) : selectedResponse && !template ? (
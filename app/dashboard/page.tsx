@@ -4,6 +4,8 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
 import { useRouter } from 'next/navigation';
+import { FormSchedule } from '@/lib/formSchedule';
+import FormStatusBadge from '@/components/forms/FormStatusBadge';
 
 // Types for our data
 type Template = {
@@ -16,7 +18,7 @@ type Template = {
   fields?: any[];
 };
 
-type Form = {
+type Form = FormSchedule & {
   id: string;
   title: string;
   description: string;
@@ -808,6 +810,7 @@ export default function Dashboard() {
                           }`}>
                             {form.public ? 'Public' : 'Private'}
                           </span>
+                          <FormStatusBadge form={form} responseCount={formResponseCounts[form.id] || 0} />
                           {formTemplateMapping[form.id] && (
                             <span className="inline-block px-2.5 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-300">
                               Has Template
@@ -6,6 +6,11 @@ import { supabase } from '@/lib/supabase';
 import { notFound } from 'next/navigation';
 import Link from 'next/link';
 import { toast } from 'sonner';
+import { extractFieldLabels } from '@/lib/templateParser';
+import { LintFormField, TemplateLintIssue, hasLintErrors, lintTemplate, toLintFormFields } from '@/lib/templateLinter';
+import TemplateLintResults from '@/components/templates/TemplateLintResults';
+import TemplateEditor from '@/components/templates/TemplateEditor';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
 
 interface Template {
   id: string;
@@ -15,6 +20,7 @@ interface Template {
   template_content: string;
   created_at: string;
   form_id?: string | null;
+  field_mapping?: TemplateFieldMapping | null;
 }
 
 export default function EditTemplatePage() {
@@ -26,33 +32,19 @@ export default function EditTemplatePage() {
   const [description, setDescription] = useState('');
   const [templateContent, setTemplateContent] = useState('');
   const [fieldLabels, setFieldLabels] = useState<Record<string, string>>({});
+  const [formFields, setFormFields] = useState<LintFormField[] | undefined>(undefined);
+  const [lintIssues, setLintIssues] = useState<TemplateLintIssue[]>([]);
   const [template, setTemplate] = useState<Template | null>(null);
   const [loading, setLoading] = useState(true);
 
-  // Extract field placeholders from template content
-  const extractFieldLabels = (content: string) => {
-    const regex = /{{([^}]+)}}/g;
-    let match;
-    const fields: Record<string, string> = {};
-    
-    while ((match = regex.exec(content)) !== null) {
-      const fieldName = match[1].trim();
-      // Convert field name to a valid ID (lowercase, no spaces)
-      const fieldId = fieldName.toLowerCase().replace(/\s+/g, '_');
-      fields[fieldId] = fieldName;
-    }
-    
-    return fields;
-  };
-
   // Update field labels when content changes
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newContent = e.target.value;
+  const handleContentChange = (newContent: string) => {
     setTemplateContent(newContent);
     
     // Extract field labels from the content
     const extractedFields = extractFieldLabels(newContent);
     setFieldLabels(extractedFields);
+    setLintIssues(lintTemplate(newContent, formFields, template?.field_mapping));
   };
 
   // Fetch template data on component mount
@@ -100,6 +92,20 @@ export default function EditTemplatePage() {
         // Extract field labels from the content
         const extractedFields = extractFieldLabels(data.template_content || '');
         setFieldLabels(extractedFields);
+        
+        // Lint against the fields of the linked form, if there is one
+        let linkedFields: LintFormField[] | undefined;
+        if (data.form_id) {
+          const { data: formData } = await supabase
+            .from('forms')
+            .select('fields')
+            .eq('id', data.form_id)
+            .single();
+          
+          linkedFields = formData ? toLintFormFields(formData.fields) : undefined;
+        }
+        setFormFields(linkedFields);
+        setLintIssues(lintTemplate(data.template_content || '', linkedFields, data.field_mapping));
       } catch (err: any) {
         console.error('Error fetching template:', err);
         setError(err.message || 'Failed to load template');
@@ -129,37 +135,34 @@ export default function EditTemplatePage() {
       }
 
       // Validate template content format
-      if (templateContent.includes('{{') && !templateContent.includes('}}')) {
-        throw new Error('Template content has unclosed placeholder tags. Make sure all {{tags}} are properly closed.');
-      }
-
-      // Get current user
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      
-      if (userError || !user) {
-        router.push('/login');
-        return;
+      if (hasLintErrors(lintTemplate(templateContent, formFields, template?.field_mapping))) {
+        throw new Error('Template content has errors. Fix the problems listed below the editor before saving.');
       }
 
       if (!template) {
         throw new Error('Template not found');
       }
 
-      // Extract field labels from the content
-      const fieldLabels = extractFieldLabels(templateContent);
-
-      // Update template in the database
-      const { error } = await supabase
-        .from('templates')
-        .update({
+      // Update the template; the server lints the content again before saving it
+      const response = await fetch(`/api/templates/${template.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
           name,
           description,
           template_content: templateContent,
-        })
-        .eq('id', template.id);
+        }),
+      });
+      const result = await response.json();
+
+      if (response.status === 401) {
+        router.push('/login');
+        return;
+      }
 
-      if (error) {
-        throw error;
+      if (!response.ok) {
+        if (result.issues) setLintIssues(result.issues);
+        throw new Error(result.error || 'Failed to update template');
       }
 
       // Show success message
@@ -246,14 +249,14 @@ export default function EditTemplatePage() {
             <div className="mb-2 text-sm text-gray-600">
               Use <code className="bg-gray-100 px-1 py-0.5 rounded">{'{{field_name}}'}</code> syntax to create placeholders that will be replaced with form data.
             </div>
-            <textarea
+            <TemplateEditor
               id="template_content"
               value={templateContent}
               onChange={handleContentChange}
-              className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-              placeholder="Enter your template content with {{placeholders}}"
-              rows={15}
+              formId={template.form_id}
+              fieldMapping={template.field_mapping}
             />
+            <TemplateLintResults issues={lintIssues} hasContent={templateContent.trim().length > 0} />
           </div>
           
           {Object.keys(fieldLabels).length > 0 && (
@@ -6,6 +6,13 @@ import { supabase } from '@/lib/supabase';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import { v4 as uuidv4 } from 'uuid';
+import { extractFieldNames, normalizeFieldKey, tokenize } from '@/lib/templateParser';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
+import { resolveFieldValue } from '@/lib/templateRenderer';
+import { formatValue } from '@/lib/templateFilters';
+import FieldMappingEditor from '@/components/templates/FieldMappingEditor';
+import { answerableFields } from '@/lib/formLayout';
+import WordTemplateUpload from '@/components/templates/WordTemplateUpload';
 
 interface TemplateField {
   id: string;
@@ -26,6 +33,9 @@ interface Template {
   fields?: TemplateField[];
   created_at: string;
   form_id?: string | null;
+  field_mapping?: TemplateFieldMapping | null;
+  docx_path?: string | null;
+  docx_filename?: string | null;
 }
 
 interface Form {
@@ -222,17 +232,10 @@ export default function TemplateViewPage() {
     }
   };
 
-  // Helper function to format response values
+  // Helper function to format response values the way documents show them
   const formatResponseValue = (value: any) => {
-    if (value === null || value === undefined) {
-      return '-';
-    } else if (Array.isArray(value)) {
-      return value.join(', ');
-    } else if (typeof value === 'object') {
-      return JSON.stringify(value);
-    } else {
-      return String(value);
-    }
+    const text = formatValue(value);
+    return text === '' ? '-' : text;
   };
 
   // Helper function to get example response values for a field
@@ -240,10 +243,11 @@ export default function TemplateViewPage() {
     if (!responses || responses.length === 0) return [];
     
     return responses
-      .filter(response => response.data && response.data[fieldName] !== undefined)
-      .map(response => ({
+      .map(response => ({ response, resolved: resolveFieldValue(response.data || {}, fieldName, template?.field_mapping) }))
+      .filter(({ resolved }) => resolved.found)
+      .map(({ response, resolved }) => ({
         id: response.id,
-        value: formatResponseValue(response.data[fieldName]),
+        value: formatResponseValue(resolved.value),
         date: new Date(response.submitted_at).toLocaleDateString()
       }))
       .slice(0, 3); // Limit to 3 examples
@@ -251,18 +255,15 @@ export default function TemplateViewPage() {
 
   // Extract fields from template content
   const extractFieldsFromContent = (content: string) => {
-    const regex = /{{([^}]+)}}/g;
-    let match;
     const fields: TemplateField[] = [];
     const processedNames = new Set();
     
-    while ((match = regex.exec(content)) !== null) {
-      const fieldName = match[1].trim();
+    extractFieldNames(content).forEach(fieldName => {
       // Convert field name to a valid ID (lowercase, no spaces)
-      const fieldId = fieldName.toLowerCase().replace(/\s+/g, '_');
+      const fieldId = normalizeFieldKey(fieldName);
       
       // Skip duplicates
-      if (processedNames.has(fieldId)) continue;
+      if (processedNames.has(fieldId)) return;
       processedNames.add(fieldId);
       
       fields.push({
@@ -272,7 +273,7 @@ export default function TemplateViewPage() {
         label: fieldName,
         required: false
       });
-    }
+    });
     
     return fields;
   };
@@ -304,21 +305,19 @@ export default function TemplateViewPage() {
   const renderTemplateContent = () => {
     if (!template.template_content) return null;
     
-    // Split content by field placeholders
-    const parts = template.template_content.split(/(\{\{[^}]+\}\})/g);
+    // Split content into text and {{...}} tags
+    const tokens = tokenize(template.template_content);
     
-    return parts.map((part, index) => {
-      // Check if this part is a field placeholder
-      const match = part.match(/\{\{([^}]+)\}\}/);
-      if (match) {
-        const fieldName = match[1];
+    return tokens.map((token, index) => {
+      // Highlight placeholders and block tags
+      if (token.type === 'tag') {
         return (
           <span key={index} className="bg-yellow-100 px-1 rounded">
-            {part}
+            {token.raw}
           </span>
         );
       }
-      return <span key={index}>{part}</span>;
+      return <span key={index}>{token.raw}</span>;
     });
   };
 
@@ -509,6 +508,26 @@ export default function TemplateViewPage() {
           )}
         </div>
       </div>
+      
+      {/* Uploaded Word document */}
+      <WordTemplateUpload
+        templateId={template.id}
+        docxFilename={template.docx_filename}
+        onChange={(docx) => setTemplate({ ...template, ...docx })}
+      />
+      
+      {/* Placeholder-to-field mapping */}
+      {associatedForm && (
+        <FieldMappingEditor
+          templateId={template.id}
+          templateContent={template.template_content}
+          fieldMapping={template.field_mapping}
+          formFields={answerableFields(associatedForm.fields || [])}
+          onSaved={(fieldMapping, templateContent) =>
+            setTemplate({ ...template, field_mapping: fieldMapping, template_content: templateContent })
+          }
+        />
+      )}
     </div>
   );
-} 
\ No newline at end of file
+}
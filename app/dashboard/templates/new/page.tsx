@@ -2,9 +2,12 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { supabase } from '@/lib/supabase';
-import { v4 as uuidv4 } from 'uuid';
 import { toast } from 'sonner';
+import { extractFieldLabels } from '@/lib/templateParser';
+import { TemplateLintIssue, hasLintErrors, lintTemplate } from '@/lib/templateLinter';
+import TemplateLintResults from '@/components/templates/TemplateLintResults';
+import WordImport from '@/components/templates/WordImport';
+import TemplateEditor from '@/components/templates/TemplateEditor';
 
 export default function NewTemplatePage() {
   const router = useRouter();
@@ -14,31 +17,24 @@ export default function NewTemplatePage() {
   const [description, setDescription] = useState('');
   const [templateContent, setTemplateContent] = useState('');
   const [fieldLabels, setFieldLabels] = useState<Record<string, string>>({});
-
-  // Extract field placeholders from template content
-  const extractFieldLabels = (content: string) => {
-    const regex = /{{([^}]+)}}/g;
-    let match;
-    const fields: Record<string, string> = {};
-    
-    while ((match = regex.exec(content)) !== null) {
-      const fieldName = match[1].trim();
-      // Convert field name to a valid ID (lowercase, no spaces)
-      const fieldId = fieldName.toLowerCase().replace(/\s+/g, '_');
-      fields[fieldId] = fieldName;
-    }
-    
-    return fields;
-  };
+  const [lintIssues, setLintIssues] = useState<TemplateLintIssue[]>([]);
 
   // Update field labels when content changes
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newContent = e.target.value;
+  const updateContent = (newContent: string) => {
     setTemplateContent(newContent);
     
     // Extract field labels from the content
     const extractedFields = extractFieldLabels(newContent);
     setFieldLabels(extractedFields);
+    setLintIssues(lintTemplate(newContent));
+  };
+
+  // Use an imported Word document as the template content
+  const handleImport = (content: string, documentName: string) => {
+    updateContent(content);
+    if (!name.trim()) {
+      setName(documentName);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -57,51 +53,32 @@ export default function NewTemplatePage() {
       }
 
       // Validate template content format
-      if (templateContent.includes('{{') && !templateContent.includes('}}')) {
-        throw new Error('Template content has unclosed placeholder tags. Make sure all {{tags}} are properly closed.');
-      }
-
-      // Get current user
-      const { data: { user }, error: userError } = await supabase.auth.getUser();
-      
-      if (userError) {
-        throw new Error(`Authentication error: ${userError.message}`);
+      if (hasLintErrors(lintTemplate(templateContent))) {
+        throw new Error('Template content has errors. Fix the problems listed below the editor before saving.');
       }
-      
-      if (!user) throw new Error('User not authenticated');
-
-      // Prepare the template data
-      const templateData = {
-        id: uuidv4(),
-        user_id: user.id,
-        name,
-        description,
-        template_content: templateContent,
-        created_at: new Date().toISOString(),
-      };
-      
-      console.log('Attempting to create template with data:', JSON.stringify(templateData));
 
-      // Create the template in the database
-      const { data, error } = await supabase
-        .from('templates')
-        .insert(templateData)
-        .select();
-
-      if (error) {
-        console.error('Supabase error details:', JSON.stringify(error));
-        throw new Error(`Database error: ${error.message || 'Unknown error'}`);
-      }
-
-      if (!data || data.length === 0) {
-        throw new Error('Template was created but no data was returned');
+      // Create the template; the server lints the content again before saving it
+      const response = await fetch('/api/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          description,
+          template_content: templateContent,
+        }),
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.issues) setLintIssues(result.issues);
+        throw new Error(result.error || 'Failed to create template');
       }
 
       // Show success message
       toast.success('Template created successfully!');
 
       // Redirect to the template page
-      router.push(`/dashboard/templates/${data[0].id}`);
+      router.push(`/dashboard/templates/${result.template.id}`);
       
     } catch (err: any) {
       console.error('Error creating template:', err);
@@ -159,14 +136,9 @@ export default function NewTemplatePage() {
             <div className="mb-2 text-sm text-gray-600">
               Use <code className="bg-gray-100 px-1 py-0.5 rounded">{'{{field_name}}'}</code> syntax to create placeholders that will be replaced with form data.
             </div>
-            <textarea
-              id="template_content"
-              value={templateContent}
-              onChange={handleContentChange}
-              className="w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
-              placeholder="Enter your template content with {{placeholders}}"
-              rows={15}
-            />
+            <WordImport onImport={handleImport} />
+            <TemplateEditor id="template_content" value={templateContent} onChange={updateContent} />
+            <TemplateLintResults issues={lintIssues} hasContent={templateContent.trim().length > 0} />
           </div>
           
           {Object.keys(fieldLabels).length > 0 && (
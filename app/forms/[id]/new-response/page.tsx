@@ -6,6 +6,25 @@ import { supabase } from '@/lib/supabase';
 import Link from 'next/link';
 import { notFound } from 'next/navigation';
 import Select from 'react-select';
+import { FormSubmissionError, submitFormResponse } from '@/lib/formSubmission';
+import { FieldValidationRules, ResponseFieldError, errorsByField, validateFields, validateResponse } from '@/lib/responseValidation';
+import { getHiddenFieldIds, omitHiddenAnswers } from '@/lib/fieldVisibility';
+import { findFieldPage, splitIntoPages } from '@/lib/formLayout';
+import FormProgress from '@/components/forms/FormProgress';
+import FileUploadInput from '@/components/forms/FileUploadInput';
+import SignatureInput from '@/components/forms/SignatureInput';
+import RatingInput from '@/components/forms/RatingInput';
+import PhoneInput from '@/components/forms/PhoneInput';
+import AddressInput from '@/components/forms/AddressInput';
+import GroupInput from '@/components/forms/GroupInput';
+import DraftControls from '@/components/forms/DraftControls';
+import useFormDraft from '@/components/forms/useFormDraft';
+import EditLinkNotice from '@/components/forms/EditLinkNotice';
+import { getFieldScale, isRatingField, ratingValue } from '@/lib/ratingFields';
+import { GroupChildField, RepeatSettings } from '@/lib/repeatingGroups';
+import { CalculationSettings, computeCalculatedAnswers, formatCalculatedValue } from '@/lib/calculatedFields';
+import { PrefillSettings, isSignedOnly } from '@/lib/prefill';
+import { fetchFormAvailability } from '@/lib/formSchedule';
 
 interface FormField {
   id: string;
@@ -15,6 +34,12 @@ interface FormField {
   required: boolean;
   options?: string[];
   defaultValue?: string | string[];
+  description?: string; // For sections and page breaks
+  validation?: FieldValidationRules | null;
+  fields?: GroupChildField[] | null; // For repeating groups
+  repeat?: RepeatSettings | null;
+  calculation?: CalculationSettings | null; // For calculated fields
+  prefill?: PrefillSettings | null; // For hidden fields
 }
 
 interface FormData {
@@ -38,8 +63,14 @@ export default function NewResponsePage() {
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitError, setSubmitError] = useState<string | null>(null);
   const [isSubmitted, setIsSubmitted] = useState(false);
+  const [editLink, setEditLink] = useState<{ token: string; expiresAt: string } | null>(null);
+  const [closedMessage, setClosedMessage] = useState<string | null>(null);
   const [formValues, setFormValues] = useState<Record<string, any>>({});
   const [userEmail, setUserEmail] = useState('');
+  const [isOwner, setIsOwner] = useState(false);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [pageIndex, setPageIndex] = useState(0);
+  const draft = useFormDraft(formId as string, formValues, pageIndex, !loading && !!form && !isSubmitted);
 
   useEffect(() => {
     if (!formId) {
@@ -49,13 +80,8 @@ export default function NewResponsePage() {
 
     const fetchForm = async () => {
       try {
-        // Get current user
+        // Public forms can be answered without logging in
         const { data: { user } } = await supabase.auth.getUser();
-        
-        if (!user) {
-          router.push('/login');
-          return;
-        }
 
         // Fetch form data
         const { data, error } = await supabase
@@ -64,14 +90,35 @@ export default function NewResponsePage() {
           .eq('id', formId)
           .single();
 
+        if (error && !user) {
+          // Private forms are not visible before logging in
+          router.push('/login');
+          return;
+        }
         if (error) throw error;
         
         // Check if form is public or belongs to current user
-        if (!data.public && data.user_id !== user.id) {
+        if (!data.public && data.user_id !== user?.id) {
+          if (!user) {
+            router.push('/login');
+            return;
+          }
           throw new Error('You do not have permission to view this form');
         }
 
+        // Forms that are not open show why instead of the questions
+        const availability = await fetchFormAvailability(data);
+        setClosedMessage(availability.message);
+
+        // Answers saved before a refresh, or in the draft of a resume link, are filled back in
+        const savedDraft = await draft.restore();
+        if (savedDraft) {
+          setFormValues(savedDraft.data);
+          setPageIndex(savedDraft.page);
+        }
+
         setForm(data);
+        setIsOwner(!!user && data.user_id === user.id);
       } catch (err: any) {
         console.error('Error fetching form:', err);
         setError(err.message || 'Failed to load form');
@@ -83,41 +130,92 @@ export default function NewResponsePage() {
     fetchForm();
   }, [formId, router]);
 
+  const setFieldValue = (fieldId: string, value: any) => {
+    setFormValues(prev => ({ ...prev, [fieldId]: value }));
+    setFieldErrors(prev => {
+      if (!prev[fieldId]) return prev;
+      const next = { ...prev };
+      delete next[fieldId];
+      return next;
+    });
+  };
+
+  // Re-evaluated on every change, so calculated fields update and fields appear and disappear as the respondent answers
+  const calculatedValues = computeCalculatedAnswers(form?.fields || [], formValues);
+  const hiddenFieldIds = getHiddenFieldIds(form?.fields || [], calculatedValues);
+
+  // Pages can disappear when all their fields are hidden, so the current page is clamped
+  const pages = splitIntoPages((form?.fields || []).filter(field => !hiddenFieldIds.has(field.id)));
+  const currentPage = Math.min(pageIndex, pages.length - 1);
+  const isLastPage = currentPage === pages.length - 1;
+
+  const startOver = async () => {
+    await draft.discard();
+    setFormValues({});
+    setFieldErrors({});
+    setPageIndex(0);
+  };
+
+  const goToPage = (index: number) => {
+    setPageIndex(index);
+    window.scrollTo(0, 0);
+  };
+
+  // Shows the first page with an error, since the fields of other pages are not rendered
+  const showErrors = (errors: ResponseFieldError[]) => {
+    setFieldErrors(errorsByField(errors));
+    const page = findFieldPage(pages, errors[0].field_id);
+    if (page >= 0) setPageIndex(page);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (isSubmitting) return;
     
-    setIsSubmitting(true);
     setSubmitError(null);
     
+    // Pages before the last are only checked, the answers stay in formValues until submitted
+    if (!isLastPage) {
+      const errors = validateFields(form?.fields || [], calculatedValues, pages[currentPage].fields.map(field => field.id));
+      setFieldErrors(errorsByField(errors));
+
+      if (errors.length > 0) {
+        setSubmitError('Please correct the highlighted fields');
+      } else {
+        goToPage(currentPage + 1);
+      }
+      return;
+    }
+    
+    setIsSubmitting(true);
+    
     try {
-      // Validate required fields
-      const requiredFields = form?.fields.filter(field => field.required) || [];
-      for (const field of requiredFields) {
-        if (!formValues[field.id] && formValues[field.id] !== 0) {
-          throw new Error(`${field.label} is required`);
-        }
+      // The same checks run on the server; running them here first gives immediate feedback
+      const errors = validateResponse(form?.fields || [], calculatedValues);
+      setFieldErrors(errorsByField(errors));
+
+      if (errors.length > 0) {
+        showErrors(errors);
+        throw new Error('Please correct the highlighted fields');
       }
       
-      // Submit form response
-      const { error } = await supabase
-        .from('form_responses')
-        .insert([
-          {
-            form_id: formId,
-            data: formValues,
-            respondent_email: userEmail,
-            submitted_at: new Date().toISOString()
-          }
-        ]);
-      
-      if (error) throw error;
+      // Submit form response without the answers of hidden fields; the server checks that the form is public or ours
+      const response = await submitFormResponse(formId as string, omitHiddenAnswers(form?.fields || [], calculatedValues), userEmail, {
+        draftToken: draft.draftToken
+      });
       
+      draft.finish();
+      if (response.edit_token && response.edit_expires_at) {
+        setEditLink({ token: response.edit_token, expiresAt: response.edit_expires_at });
+      }
       setIsSubmitted(true);
       setFormValues({});
     } catch (error: any) {
       console.error('Error submitting form:', error);
+      if (error instanceof FormSubmissionError && error.fieldErrors.length > 0) {
+        showErrors(error.fieldErrors);
+      }
       setSubmitError(error.message);
     } finally {
       setIsSubmitting(false);
@@ -153,6 +251,25 @@ export default function NewResponsePage() {
     return <div>Form not found</div>;
   }
 
+  if (closedMessage && !isSubmitted) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-yellow-50 border-l-4 border-yellow-500 p-4 mb-6">
+          <h1 className="text-lg font-medium text-yellow-800">{form.title}</h1>
+          <p className="mt-1 text-sm text-yellow-700 whitespace-pre-line">{closedMessage}</p>
+        </div>
+        <div className="text-center">
+          <Link
+            href={isOwner ? `/dashboard/forms/${formId}` : `/forms/${formId}`}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            Back to Form
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
   if (isSubmitted) {
     return (
       <div className="max-w-2xl mx-auto">
@@ -168,9 +285,10 @@ export default function NewResponsePage() {
             </div>
           </div>
         </div>
+        {editLink && <EditLinkNotice formId={form.id} editToken={editLink.token} expiresAt={editLink.expiresAt} />}
         <div className="text-center">
           <Link
-            href={`/dashboard/forms/${formId}`}
+            href={isOwner ? `/dashboard/forms/${formId}` : `/forms/${formId}`}
             className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
           >
             Back to Form
@@ -184,7 +302,7 @@ export default function NewResponsePage() {
     <div className="max-w-2xl mx-auto">
       <div className="mb-6">
         <Link
-          href={`/dashboard/forms/${formId}`}
+          href={isOwner ? `/dashboard/forms/${formId}` : `/forms/${formId}`}
           className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
         >
           <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -218,8 +336,22 @@ export default function NewResponsePage() {
             </div>
           )}
 
+          {pages.length > 1 && (
+            <FormProgress
+              currentPage={currentPage}
+              pageCount={pages.length}
+              title={pages[currentPage].title}
+              description={pages[currentPage].description}
+            />
+          )}
+
           <div className="space-y-6">
-            {form.fields.map((field) => (
+            {pages[currentPage].fields.map((field) => field.type === 'section' ? (
+              <div key={field.id} className="pt-2 border-b border-gray-200 pb-2">
+                <h2 className="text-lg font-semibold text-gray-900">{field.label}</h2>
+                {field.description && <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{field.description}</p>}
+              </div>
+            ) : (
               <div key={field.id}>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   {field.label}
@@ -231,17 +363,32 @@ export default function NewResponsePage() {
                     type="text"
                     placeholder={field.placeholder}
                     value={formValues[field.id] || ''}
-                    onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     required={field.required}
                   />
                 )}
 
+                {/* Respondents don't see hidden fields, but responses entered here can set them */}
+                {field.type === 'hidden' && (isSignedOnly(field) ? (
+                  <p className="text-sm text-gray-500">Hidden field; only set by signed links</p>
+                ) : (
+                  <>
+                    <input
+                      type="text"
+                      value={formValues[field.id] || ''}
+                      onChange={(e) => setFieldValue(field.id, e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Hidden from respondents</p>
+                  </>
+                ))}
+
                 {field.type === 'textarea' && (
                   <textarea
                     placeholder={field.placeholder}
                     value={formValues[field.id] || ''}
-                    onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     rows={3}
                     required={field.required}
@@ -252,7 +399,7 @@ export default function NewResponsePage() {
                   <select
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     value={formValues[field.id] || ''}
-                    onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
                     required={field.required}
                   >
                     <option value="">Select an option</option>
@@ -271,7 +418,7 @@ export default function NewResponsePage() {
                       .map(option => ({ value: option, label: option })) || []}
                     onChange={(selected) => {
                       const values = selected ? selected.map(option => option.value) : [];
-                      setFormValues(prev => ({ ...prev, [field.id]: values }));
+                      setFieldValue(field.id, values);
                     }}
                     placeholder="Select options..."
                     className="react-select-container"
@@ -323,7 +470,7 @@ export default function NewResponsePage() {
                       name={`field-${field.id}`}
                       value={option}
                       checked={formValues[field.id] === option}
-                      onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                      onChange={(e) => setFieldValue(field.id, e.target.value)}
                       className="h-4 w-4 text-blue-600 focus:ring-blue-500"
                       required={field.required}
                     />
@@ -343,7 +490,7 @@ export default function NewResponsePage() {
                           const newValues = e.target.checked
                             ? [...currentValues, option]
                             : currentValues.filter((v: string) => v !== option);
-                          setFormValues(prev => ({ ...prev, [field.id]: newValues }));
+                          setFieldValue(field.id, newValues);
                         }}
                         className="h-4 w-4 text-blue-600 rounded focus:ring-blue-500"
                       />
@@ -356,7 +503,7 @@ export default function NewResponsePage() {
                   <input
                     type="date"
                     value={formValues[field.id] || ''}
-                    onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     required={field.required}
                   />
@@ -367,7 +514,7 @@ export default function NewResponsePage() {
                     type="number"
                     placeholder={field.placeholder}
                     value={formValues[field.id] || ''}
-                    onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     required={field.required}
                   />
@@ -378,31 +525,131 @@ export default function NewResponsePage() {
                     type="email"
                     placeholder={field.placeholder}
                     value={formValues[field.id] || ''}
-                    onChange={(e) => setFormValues(prev => ({ ...prev, [field.id]: e.target.value }))}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
                     className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
                     required={field.required}
                   />
                 )}
+
+                {field.type === 'phone' && (
+                  <PhoneInput
+                    value={formValues[field.id] || ''}
+                    onChange={(phone) => setFieldValue(field.id, phone)}
+                    placeholder={field.placeholder}
+                    required={field.required}
+                  />
+                )}
+
+                {field.type === 'url' && (
+                  <input
+                    type="text"
+                    inputMode="url"
+                    autoComplete="url"
+                    placeholder={field.placeholder}
+                    value={formValues[field.id] || ''}
+                    onChange={(e) => setFieldValue(field.id, e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    required={field.required}
+                  />
+                )}
+
+                {field.type === 'address' && (
+                  <AddressInput
+                    value={formValues[field.id] || null}
+                    onChange={(address) => setFieldValue(field.id, address)}
+                    required={field.required}
+                  />
+                )}
+
+                {field.type === 'group' && (
+                  <GroupInput
+                    field={field}
+                    value={Array.isArray(formValues[field.id]) ? formValues[field.id] : []}
+                    onChange={(entries) => setFieldValue(field.id, entries)}
+                  />
+                )}
+
+                {field.type === 'calculated' && (
+                  <div aria-live="polite" className="w-full px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-gray-900">
+                    {formatCalculatedValue(calculatedValues[field.id], field.calculation?.decimals) || (
+                      <span className="text-gray-400">Calculated from the other answers</span>
+                    )}
+                  </div>
+                )}
+
+                {field.type === 'file' && (
+                  <FileUploadInput
+                    formId={formId as string}
+                    fieldId={field.id}
+                    value={Array.isArray(formValues[field.id]) ? formValues[field.id] : []}
+                    onChange={(files) => setFieldValue(field.id, files)}
+                    rules={field.validation}
+                    required={field.required}
+                  />
+                )}
+
+                {isRatingField(field) && (
+                  <RatingInput
+                    type={field.type}
+                    scale={getFieldScale(field)}
+                    value={ratingValue(formValues[field.id])}
+                    onChange={(rating) => setFieldValue(field.id, rating)}
+                  />
+                )}
+
+                {field.type === 'signature' && (
+                  <SignatureInput
+                    value={formValues[field.id] || null}
+                    onChange={(signature) => setFieldValue(field.id, signature)}
+                  />
+                )}
+
+                {fieldErrors[field.id] && (
+                  <p className="mt-1 text-sm text-red-600">{fieldErrors[field.id]}</p>
+                )}
               </div>
             ))}
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                Your Email (optional)
-              </label>
-              <input
-                type="email"
-                value={userEmail}
-                onChange={(e) => setUserEmail(e.target.value)}
-                placeholder="Enter your email"
-                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              />
-              <p className="mt-1 text-sm text-gray-500">
-                We'll use this to send you a copy of your response
-              </p>
-            </div>
+            {isLastPage && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Your Email (optional)
+                </label>
+                <input
+                  type="email"
+                  value={userEmail}
+                  onChange={(e) => setUserEmail(e.target.value)}
+                  placeholder="Enter your email"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="mt-1 text-sm text-gray-500">
+                  We'll use this to send you a copy of your response
+                </p>
+              </div>
+            )}
+
+            <DraftControls
+              savedAt={draft.savedAt}
+              savedOnServer={draft.savedOnServer}
+              resumeUrl={draft.resumeUrl}
+              savingForLater={draft.savingForLater}
+              error={draft.draftError}
+              onSaveForLater={draft.saveForLater}
+              onDiscard={startOver}
+              disabled={isSubmitting}
+            />
 
-            <div className="pt-4">
+            <div className="pt-4 flex gap-3">
+              {currentPage > 0 && (
+                <button
+                  type="button"
+                  onClick={() => goToPage(currentPage - 1)}
+                  disabled={isSubmitting}
+                  className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+                >
+                  Back
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={isSubmitting}
@@ -410,7 +657,7 @@ export default function NewResponsePage() {
                   isSubmitting ? 'opacity-50 cursor-not-allowed' : ''
                 }`}
               >
-                {isSubmitting ? 'Submitting...' : 'Submit Response'}
+                {!isLastPage ? 'Next' : isSubmitting ? 'Submitting...' : 'Submit Response'}
               </button>
             </div>
           </div>
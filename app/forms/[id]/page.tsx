@@ -6,6 +6,35 @@ import { supabase } from '@/lib/supabase';
 import Link from 'next/link';
 import React from 'react';
 import DocumentGenerator from '@/components/templates/DocumentGenerator';
+import { FormSubmissionError, submitFormResponse, updateFormResponse } from '@/lib/formSubmission';
+import { ResponseFieldError, errorsByField, validateFields, validateResponse } from '@/lib/responseValidation';
+import { responseValuesWithLabels } from '@/lib/responseValues';
+import { getHiddenFieldIds, omitHiddenAnswers } from '@/lib/fieldVisibility';
+import { findFieldPage, splitIntoPages } from '@/lib/formLayout';
+import FormProgress from '@/components/forms/FormProgress';
+import FileUploadInput from '@/components/forms/FileUploadInput';
+import SignatureInput from '@/components/forms/SignatureInput';
+import RatingInput from '@/components/forms/RatingInput';
+import PhoneInput from '@/components/forms/PhoneInput';
+import AddressInput from '@/components/forms/AddressInput';
+import GroupInput from '@/components/forms/GroupInput';
+import DraftControls from '@/components/forms/DraftControls';
+import useFormDraft from '@/components/forms/useFormDraft';
+import EditLinkNotice from '@/components/forms/EditLinkNotice';
+import { getFieldScale, isRatingField, ratingValue } from '@/lib/ratingFields';
+import { normalizeContactAnswers } from '@/lib/contactFields';
+import { normalizeGroupAnswers } from '@/lib/repeatingGroups';
+import { computeCalculatedAnswers, formatCalculatedValue, getCalculation } from '@/lib/calculatedFields';
+import {
+  PREFILL_TOKEN_PARAM,
+  isHiddenField,
+  isPrefillTokenExpired,
+  prefillFromSearchParams,
+  prefillFromValues,
+  readPrefillToken
+} from '@/lib/prefill';
+import { EDIT_TOKEN_PARAM, fetchEditableResponse } from '@/lib/responseEdits';
+import { fetchFormAvailability } from '@/lib/formSchedule';
 
 export default function PublicFormPage() {
   const params = useParams();
@@ -20,6 +49,16 @@ export default function PublicFormPage() {
   const [email, setEmail] = useState('');
   const [template, setTemplate] = useState<any>(null);
   const [submittedData, setSubmittedData] = useState<Record<string, any>>({});
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [pageIndex, setPageIndex] = useState(0);
+  const [prefillToken, setPrefillToken] = useState<string | null>(null);
+  const [lockedFieldIds, setLockedFieldIds] = useState<Set<string>>(new Set());
+  const [startingData, setStartingData] = useState<Record<string, any>>({});
+  // Set when the form was opened with an edit link, or after submitting to a form that allows edits
+  const [editLink, setEditLink] = useState<{ token: string; expiresAt: string } | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [closedMessage, setClosedMessage] = useState<string | null>(null);
+  const draft = useFormDraft(formId, formData, pageIndex, !loading && !!form && !success && !editing);
 
   useEffect(() => {
     if (params && params.id) {
@@ -48,6 +87,25 @@ export default function PublicFormPage() {
           }
         }
 
+        // A signed link sets answers the respondent can't change; the server checks its signature
+        const searchParams = new URLSearchParams(window.location.search);
+        const token = searchParams.get(PREFILL_TOKEN_PARAM);
+        const signed = token ? readPrefillToken(token) : null;
+        if (token && (!signed || signed.form_id !== data.id)) {
+          throw new Error('This link is not valid');
+        }
+        if (signed && isPrefillTokenExpired(signed)) {
+          throw new Error('This link has expired. Please ask for a new one.');
+        }
+
+        // An edit link reopens a submitted response; the server checks that it can still be edited
+        const editToken = searchParams.get(EDIT_TOKEN_PARAM);
+        const editable = editToken ? await fetchEditableResponse(data.id, editToken) : null;
+
+        // Forms that are not open show why instead of the questions; edit links keep working
+        const availability = editable ? null : await fetchFormAvailability(data);
+        setClosedMessage(availability?.message || null);
+
         setForm(data);
         
         if (data.template_id) {
@@ -73,7 +131,24 @@ export default function PublicFormPage() {
           }
         });
         
-        setFormData(initialData);
+        // Answers in the link replace the default values, and a saved draft replaces both;
+        // signed answers can't be changed, so they win over the draft
+        const signedAnswers = signed ? prefillFromValues(data.fields, signed.values) : {};
+        const linkData = { ...initialData, ...prefillFromSearchParams(data.fields, searchParams), ...signedAnswers };
+        if (editable && editToken) {
+          setFormData(editable.data);
+          setEmail(editable.respondent_email || '');
+          setEditLink({ token: editToken, expiresAt: editable.edit_expires_at });
+          setEditing(true);
+          setLockedFieldIds(new Set(editable.prefilled_field_ids));
+        } else {
+          const savedDraft = await draft.restore();
+          setFormData({ ...linkData, ...savedDraft?.data, ...signedAnswers });
+          setPageIndex(savedDraft?.page || 0);
+          setStartingData(linkData);
+          setPrefillToken(token);
+          setLockedFieldIds(new Set(Object.keys(signedAnswers)));
+        }
         
       } catch (err: any) {
         console.error('Error fetching form:', err);
@@ -91,6 +166,17 @@ export default function PublicFormPage() {
       ...formData,
       [fieldId]: value,
     });
+    clearFieldError(fieldId);
+  };
+
+  const clearFieldError = (fieldId: string) => {
+    if (fieldErrors[fieldId]) {
+      setFieldErrors(prev => {
+        const next = { ...prev };
+        delete next[fieldId];
+        return next;
+      });
+    }
   };
 
   const handleCheckboxChange = (fieldId: string, option: string, checked: boolean) => {
@@ -111,47 +197,88 @@ export default function PublicFormPage() {
       ...formData,
       [fieldId]: currentValues,
     });
+    clearFieldError(fieldId);
+  };
+
+  // Re-evaluated on every change, so fields appear and disappear as the respondent answers
+  // Calculated fields update as the respondent types, and visibility rules can use their results
+  const calculatedData = form ? computeCalculatedAnswers(form.fields, formData) : formData;
+  const hiddenFieldIds = form ? getHiddenFieldIds(form.fields, calculatedData) : new Set<string>();
+
+  // Pages can disappear when all their fields are hidden, so the current page is clamped
+  // Hidden fields are never shown; their answers come from the link or their default value
+  const pages = splitIntoPages((form?.fields || []).filter((field: any) => !hiddenFieldIds.has(field.id) && !isHiddenField(field)));
+  const currentPage = Math.min(pageIndex, pages.length - 1);
+  const isLastPage = currentPage === pages.length - 1;
+
+  const startOver = async () => {
+    await draft.discard();
+    setFormData(startingData);
+    setFieldErrors({});
+    setPageIndex(0);
+  };
+
+  const goToPage = (index: number) => {
+    setPageIndex(index);
+    window.scrollTo(0, 0);
+  };
+
+  // Shows the first page with an error, since the fields of other pages are not rendered
+  const showErrors = (errors: ResponseFieldError[]) => {
+    setFieldErrors(errorsByField(errors));
+    const page = findFieldPage(pages, errors[0].field_id);
+    if (page >= 0) setPageIndex(page);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setSubmitting(true);
     setError('');
 
+    // Pages before the last are only checked, the answers stay in formData until submitted
+    if (!isLastPage) {
+      const errors = validateFields(form.fields, calculatedData, pages[currentPage].fields.map((field: any) => field.id));
+      setFieldErrors(errorsByField(errors));
+
+      if (errors.length > 0) {
+        setError('Please correct the highlighted fields');
+      } else {
+        goToPage(currentPage + 1);
+      }
+      return;
+    }
+
+    setSubmitting(true);
+
     try {
-      const missingFields = form.fields
-        .filter((field: any) => field.required && 
-          (formData[field.id] === undefined || 
-           formData[field.id] === '' || 
-           (Array.isArray(formData[field.id]) && formData[field.id].length === 0)))
-        .map((field: any) => field.label);
-
-      if (missingFields.length > 0) {
-        throw new Error(`Please fill in the following required fields: ${missingFields.join(', ')}`);
+      // The same checks run on the server; running them here first gives immediate feedback
+      const errors = validateResponse(form.fields, calculatedData);
+      setFieldErrors(errorsByField(errors));
+
+      if (errors.length > 0) {
+        showErrors(errors);
+        throw new Error('Please correct the highlighted fields');
       }
 
-      const labeledData: Record<string, any> = {};
-      
-      Object.keys(formData).forEach(fieldId => {
-        labeledData[fieldId] = formData[fieldId];
-      });
-      
-      form.fields.forEach((field: any) => {
-        if (formData[field.id] !== undefined) {
-          labeledData[field.label] = formData[field.id];
-        }
-      });
+      // Answers of fields hidden by visibility rules are left out; phone numbers, web addresses,
+      // repeating groups and calculated fields are handled as the server stores them, for the document preview
+      const answers = computeCalculatedAnswers(
+        form.fields,
+        normalizeGroupAnswers(form.fields, normalizeContactAnswers(form.fields, omitHiddenAnswers(form.fields, calculatedData)))
+      );
 
-      const { error } = await supabase
-        .from('form_responses')
-        .insert({
-          form_id: form.id,
-          respondent_email: email,
-          data: labeledData,
-          submitted_at: new Date().toISOString()
-        });
+      // Submitted through the server, so public forms work without a login
+      if (editing && editLink) {
+        await updateFormResponse(form.id, editLink.token, answers);
+      } else {
+        const response = await submitFormResponse(form.id, answers, email, { prefillToken, draftToken: draft.draftToken });
+        draft.finish();
+        if (response.edit_token && response.edit_expires_at) {
+          setEditLink({ token: response.edit_token, expiresAt: response.edit_expires_at });
+        }
+      }
 
-      if (error) throw error;
+      // Answers are stored under their field labels too, so the document preview can use either
+      const labeledData = responseValuesWithLabels(answers, form.fields);
 
       setSubmittedData(labeledData);
       
@@ -160,7 +287,11 @@ export default function PublicFormPage() {
       
     } catch (err: any) {
       console.error('Error submitting form:', err);
+      if (err instanceof FormSubmissionError && err.fieldErrors.length > 0) {
+        showErrors(err.fieldErrors);
+      }
       setError(err.message || 'Failed to submit form');
+      window.scrollTo(0, 0);
     } finally {
       setSubmitting(false);
     }
@@ -176,7 +307,7 @@ export default function PublicFormPage() {
     );
   }
 
-  if (error) {
+  if (error && !form) {
     return (
       <div className="max-w-3xl mx-auto py-12 px-4">
         <div className="bg-red-50 border-l-4 border-red-500 p-4">
@@ -189,13 +320,32 @@ export default function PublicFormPage() {
     );
   }
 
+  if (closedMessage && !success) {
+    return (
+      <div className="max-w-3xl mx-auto py-12 px-4">
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+          <div className="bg-gradient-to-r from-blue-500 to-blue-600 px-6 py-4">
+            <h1 className="text-2xl font-bold text-white">{form.title}</h1>
+          </div>
+          <div className="p-6 text-center">
+            <p className="text-gray-700 whitespace-pre-line">{closedMessage}</p>
+            <Link href="/" className="text-blue-600 hover:underline mt-4 inline-block link-hover">
+              Back to Home
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (success) {
     return (
       <div className="max-w-3xl mx-auto py-12 px-4">
         <div className="bg-green-50 border-l-4 border-green-500 p-6 rounded-lg">
           <div className="text-center mb-6">
-            <h2 className="text-2xl font-bold text-green-800 mb-4">Form Submitted Successfully!</h2>
-            <p className="text-green-700">Thank you for your response.</p>
+            <h2 className="text-2xl font-bold text-green-800 mb-4">{editing ? 'Changes Saved' : 'Form Submitted Successfully!'}</h2>
+            <p className="text-green-700">{editing ? 'Your response has been updated.' : 'Thank you for your response.'}</p>
+            {editLink && <EditLinkNotice formId={form.id} editToken={editLink.token} expiresAt={editLink.expiresAt} />}
           </div>
           
           {template && template.template_content && (
@@ -210,6 +360,9 @@ export default function PublicFormPage() {
                   templateContent={template.template_content}
                   formResponses={submittedData}
                   templateName={template.name || 'Document'}
+                  fieldMapping={template.field_mapping}
+                  templateId={template.id}
+                  hasWordTemplate={!!template.docx_path}
                 />
               </div>
             </div>
@@ -245,161 +398,292 @@ export default function PublicFormPage() {
               <p className="text-red-700">{error}</p>
             </div>
           )}
+
+          {editing && (
+            <div className="bg-blue-50 border-l-4 border-blue-500 p-4 mb-6">
+              <p className="text-blue-700">You are changing the response you already submitted. Your changes replace your previous answers.</p>
+            </div>
+          )}
+          
+          {pages.length > 1 && (
+            <FormProgress
+              currentPage={currentPage}
+              pageCount={pages.length}
+              title={pages[currentPage].title}
+              description={pages[currentPage].description}
+            />
+          )}
           
           <form onSubmit={handleSubmit}>
             <div className="space-y-6">
-              <div className="border-b border-gray-200 pb-4">
-                <label className="block text-sm font-medium mb-1">
-                  Your Email (optional)
-                </label>
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="Enter your email address"
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                />
-                <p className="text-xs text-gray-500 mt-1">
-                  We'll use this to follow up with you if necessary.
-                </p>
-              </div>
+              {currentPage === 0 && (
+                <div className="border-b border-gray-200 pb-4">
+                  <label className="block text-sm font-medium mb-1">
+                    Your Email (optional)
+                  </label>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Enter your email address"
+                    disabled={editing}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-50"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    We'll use this to follow up with you if necessary.
+                  </p>
+                </div>
+              )}
               
-              {form.fields.map((field: any) => (
+              {pages[currentPage].fields.map((field: any) => field.type === 'section' ? (
+                <div key={field.id} className="pt-2">
+                  <h2 className="text-lg font-semibold text-gray-900">{field.label}</h2>
+                  {field.description && <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{field.description}</p>}
+                </div>
+              ) : (
                 <div key={field.id} className="border-b border-gray-200 pb-4 last:border-b-0">
                   <label className="block text-sm font-medium mb-1">
                     {field.label}
                     {field.required && <span className="text-red-500 ml-1">*</span>}
                   </label>
                   
-                  {field.type === 'text' && (
-                    <input
-                      type="text"
-                      placeholder={field.placeholder}
-                      value={formData[field.id] || ''}
-                      onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                      required={field.required}
-                    />
-                  )}
-                  
-                  {field.type === 'textarea' && (
-                    <textarea
-                      placeholder={field.placeholder}
-                      value={formData[field.id] || ''}
-                      onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                      rows={4}
-                      required={field.required}
-                    />
-                  )}
-                  
-                  {field.type === 'select' && field.options && (
-                    <select
-                      value={formData[field.id] || ''}
-                      onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                      required={field.required}
-                    >
-                      <option value="">Select an option</option>
-                      {field.options.map((option: string) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
-                  )}
+                  {/* Answers set by a signed link can't be changed */}
+                  <fieldset disabled={lockedFieldIds.has(field.id)} className="disabled:opacity-75">
+                    {field.type === 'text' && (
+                      <input
+                        type="text"
+                        placeholder={field.placeholder}
+                        value={formData[field.id] || ''}
+                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        required={field.required}
+                      />
+                    )}
                   
-                  {field.type === 'multiselect' && field.options && (
-                    <select
-                      multiple
-                      value={Array.isArray(formData[field.id]) ? formData[field.id] : []}
-                      onChange={(e) => {
-                        const selectedOptions = Array.from(e.target.selectedOptions, option => option.value);
-                        handleFieldChange(field.id, selectedOptions);
-                      }}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                      required={field.required}
-                    >
-                      {field.options.map((option: string) => (
-                        <option key={option} value={option}>
-                          {option}
-                        </option>
-                      ))}
-                    </select>
-                  )}
+                    {field.type === 'textarea' && (
+                      <textarea
+                        placeholder={field.placeholder}
+                        value={formData[field.id] || ''}
+                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        rows={4}
+                        required={field.required}
+                      />
+                    )}
                   
-                  {field.type === 'checkbox' && field.options && (
-                    <div className="space-y-2 mt-2">
-                      {field.options.map((option: string) => (
-                        <div key={option} className="flex items-center">
-                          <input
-                            type="checkbox"
-                            id={`${field.id}-${option}`}
-                            checked={Array.isArray(formData[field.id]) && formData[field.id].includes(option)}
-                            onChange={(e) => handleCheckboxChange(field.id, option, e.target.checked)}
-                            className="h-4 w-4 text-blue-600 border-gray-300 rounded"
-                          />
-                          <label htmlFor={`${field.id}-${option}`} className="ml-2 text-sm text-gray-700">
+                    {field.type === 'select' && field.options && (
+                      <select
+                        value={formData[field.id] || ''}
+                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        required={field.required}
+                      >
+                        <option value="">Select an option</option>
+                        {field.options.map((option: string) => (
+                          <option key={option} value={option}>
                             {option}
-                          </label>
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   
-                  {field.type === 'radio' && field.options && (
-                    <div className="space-y-2 mt-2">
-                      {field.options.map((option: string) => (
-                        <div key={option} className="flex items-center">
-                          <input
-                            type="radio"
-                            id={`${field.id}-${option}`}
-                            name={field.id}
-                            value={option}
-                            checked={formData[field.id] === option}
-                            onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                            className="h-4 w-4 text-blue-600 border-gray-300"
-                            required={field.required && !formData[field.id]}
-                          />
-                          <label htmlFor={`${field.id}-${option}`} className="ml-2 text-sm text-gray-700">
+                    {field.type === 'multiselect' && field.options && (
+                      <select
+                        multiple
+                        value={Array.isArray(formData[field.id]) ? formData[field.id] : []}
+                        onChange={(e) => {
+                          const selectedOptions = Array.from(e.target.selectedOptions, option => option.value);
+                          handleFieldChange(field.id, selectedOptions);
+                        }}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        required={field.required}
+                      >
+                        {field.options.map((option: string) => (
+                          <option key={option} value={option}>
                             {option}
-                          </label>
-                        </div>
-                      ))}
-                    </div>
-                  )}
+                          </option>
+                        ))}
+                      </select>
+                    )}
                   
-                  {field.type === 'number' && (
-                    <input
-                      type="number"
-                      placeholder={field.placeholder}
-                      value={formData[field.id] || ''}
-                      onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                      required={field.required}
-                    />
-                  )}
+                    {field.type === 'checkbox' && field.options && (
+                      <div className="space-y-2 mt-2">
+                        {field.options.map((option: string) => (
+                          <div key={option} className="flex items-center">
+                            <input
+                              type="checkbox"
+                              id={`${field.id}-${option}`}
+                              checked={Array.isArray(formData[field.id]) && formData[field.id].includes(option)}
+                              onChange={(e) => handleCheckboxChange(field.id, option, e.target.checked)}
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                            />
+                            <label htmlFor={`${field.id}-${option}`} className="ml-2 text-sm text-gray-700">
+                              {option}
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   
-                  {field.type === 'email' && (
-                    <input
-                      type="email"
-                      placeholder={field.placeholder}
-                      value={formData[field.id] || ''}
-                      onChange={(e) => handleFieldChange(field.id, e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
-                      required={field.required}
-                    />
+                    {field.type === 'radio' && field.options && (
+                      <div className="space-y-2 mt-2">
+                        {field.options.map((option: string) => (
+                          <div key={option} className="flex items-center">
+                            <input
+                              type="radio"
+                              id={`${field.id}-${option}`}
+                              name={field.id}
+                              value={option}
+                              checked={formData[field.id] === option}
+                              onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                              className="h-4 w-4 text-blue-600 border-gray-300"
+                              required={field.required && !formData[field.id]}
+                            />
+                            <label htmlFor={`${field.id}-${option}`} className="ml-2 text-sm text-gray-700">
+                              {option}
+                            </label>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  
+                    {field.type === 'number' && (
+                      <input
+                        type="number"
+                        placeholder={field.placeholder}
+                        value={formData[field.id] || ''}
+                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        required={field.required}
+                      />
+                    )}
+                  
+                    {field.type === 'email' && (
+                      <input
+                        type="email"
+                        placeholder={field.placeholder}
+                        value={formData[field.id] || ''}
+                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        required={field.required}
+                      />
+                    )}
+
+                    {field.type === 'phone' && (
+                      <PhoneInput
+                        value={formData[field.id] || ''}
+                        onChange={(phone) => handleFieldChange(field.id, phone)}
+                        placeholder={field.placeholder}
+                        required={field.required}
+                      />
+                    )}
+
+                    {field.type === 'url' && (
+                      <input
+                        type="text"
+                        inputMode="url"
+                        autoComplete="url"
+                        placeholder={field.placeholder}
+                        value={formData[field.id] || ''}
+                        onChange={(e) => handleFieldChange(field.id, e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                        required={field.required}
+                      />
+                    )}
+
+                    {field.type === 'address' && (
+                      <AddressInput
+                        value={formData[field.id] || null}
+                        onChange={(address) => handleFieldChange(field.id, address)}
+                        required={field.required}
+                      />
+                    )}
+
+                    {field.type === 'group' && (
+                      <GroupInput
+                        field={field}
+                        value={Array.isArray(formData[field.id]) ? formData[field.id] : []}
+                        onChange={(entries) => handleFieldChange(field.id, entries)}
+                      />
+                    )}
+
+                    {field.type === 'calculated' && (
+                      <div aria-live="polite" className="w-full px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-gray-900">
+                        {formatCalculatedValue(calculatedData[field.id], getCalculation(field).decimals) || (
+                          <span className="text-gray-400">Calculated from your answers</span>
+                        )}
+                      </div>
+                    )}
+
+                    {field.type === 'file' && (
+                      <FileUploadInput
+                        formId={form.id}
+                        fieldId={field.id}
+                        value={Array.isArray(formData[field.id]) ? formData[field.id] : []}
+                        onChange={(files) => handleFieldChange(field.id, files)}
+                        rules={field.validation || field.metadata?.validation}
+                        required={field.required}
+                        editToken={editing ? editLink?.token : undefined}
+                      />
+                    )}
+
+                    {isRatingField(field) && (
+                      <RatingInput
+                        type={field.type}
+                        scale={getFieldScale(field)}
+                        value={ratingValue(formData[field.id])}
+                        onChange={(rating) => handleFieldChange(field.id, rating)}
+                      />
+                    )}
+
+                    {field.type === 'signature' && (
+                      <SignatureInput
+                        value={formData[field.id] || null}
+                        onChange={(signature) => handleFieldChange(field.id, signature)}
+                      />
+                    )}
+
+                    {lockedFieldIds.has(field.id) && (
+                      <p className="mt-1 text-xs text-gray-500">Filled in from your link</p>
+                    )}
+                  </fieldset>
+
+                  {fieldErrors[field.id] && (
+                    <p className="mt-1 text-sm text-red-600">{fieldErrors[field.id]}</p>
                   )}
                 </div>
               ))}
+
+              {!editing && (
+                <DraftControls
+                  savedAt={draft.savedAt}
+                  savedOnServer={draft.savedOnServer}
+                  resumeUrl={draft.resumeUrl}
+                  savingForLater={draft.savingForLater}
+                  error={draft.draftError}
+                  onSaveForLater={draft.saveForLater}
+                  onDiscard={startOver}
+                  disabled={submitting}
+                />
+              )}
               
-              <div className="pt-4">
+              <div className="pt-4 flex justify-between">
+                {currentPage > 0 ? (
+                  <button
+                    type="button"
+                    onClick={() => goToPage(currentPage - 1)}
+                    disabled={submitting}
+                    className="px-4 py-2 bg-gray-100 text-gray-700 rounded-md hover:bg-gray-200 disabled:opacity-50 btn"
+                  >
+                    Back
+                  </button>
+                ) : <span />}
                 <button
                   type="submit"
                   disabled={submitting}
                   className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 btn"
                 >
-                  {submitting ? 'Submitting...' : 'Submit'}
+                  {!isLastPage ? 'Next' : submitting ? 'Submitting...' : editing ? 'Save Changes' : 'Submit'}
                 </button>
               </div>
             </div>
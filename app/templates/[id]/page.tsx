@@ -7,6 +7,14 @@ import Image from 'next/image';
 import { toast } from 'sonner';
 import { supabase } from '@/lib/supabase';
 import { v4 as uuidv4 } from 'uuid';
+import { answerableFields, isLayoutField } from '@/lib/formLayout';
+import { getFieldScale, isRatingField } from '@/lib/ratingFields';
+import RatingInput from '@/components/forms/RatingInput';
+import PhoneInput from '@/components/forms/PhoneInput';
+import AddressInput from '@/components/forms/AddressInput';
+import GroupInput from '@/components/forms/GroupInput';
+import { emptyEntry } from '@/lib/repeatingGroups';
+import { getCalculation } from '@/lib/calculatedFields';
 
 // Template data (in a real app, this would come from a database)
 const templates = [
@@ -46,10 +54,11 @@ const templates = [
     fields: [
       { id: 'name', label: 'Full Name', type: 'text', required: true },
       { id: 'email', label: 'Email Address', type: 'email', required: true },
-      { id: 'phone', label: 'Phone Number', type: 'tel', required: false },
+      { id: 'phone', label: 'Phone Number', type: 'phone', required: false },
       { id: 'event', label: 'Select Event', type: 'select', required: true },
       { id: 'date', label: 'Event Date', type: 'date', required: true },
       { id: 'tickets', label: 'Number of Tickets', type: 'number', required: true },
+      { id: 'total_price', label: 'Total Price', type: 'calculated', required: false, calculation: { formula: '{Number of Tickets} * 25', decimals: 2 } },
       { id: 'dietary', label: 'Dietary Requirements', type: 'textarea', required: false },
       { id: 'terms', label: 'I agree to the terms and conditions', type: 'checkbox', required: true }
     ]
@@ -62,19 +71,38 @@ const templates = [
     image: '/images/templates/job-application.svg',
     popularity: 'medium',
     fields: [
+      { id: 'personal_section', label: 'Personal Details', type: 'section', description: 'How we can reach you about your application.' },
       { id: 'name', label: 'Full Name', type: 'text', required: true },
       { id: 'email', label: 'Email Address', type: 'email', required: true },
-      { id: 'phone', label: 'Phone Number', type: 'tel', required: true },
+      { id: 'phone', label: 'Phone Number', type: 'phone', required: true },
+      { id: 'address', label: 'Home Address', type: 'address', required: true },
+      { id: 'portfolio', label: 'Portfolio or LinkedIn Profile', type: 'url', required: false },
+      { id: 'position_page', label: 'The Position', type: 'page_break', description: 'Tell us which role you are applying for and when you could start.' },
       { id: 'position', label: 'Position Applied For', type: 'select', required: true },
-      { id: 'resume', label: 'Resume/CV', type: 'file', required: true },
-      { id: 'cover_letter', label: 'Cover Letter', type: 'file', required: false },
       { id: 'start_date', label: 'Available Start Date', type: 'date', required: true },
+      { id: 'salary', label: 'Salary Expectations', type: 'text', required: false },
+      { id: 'hear_about', label: 'How did you hear about this position?', type: 'select', required: false },
+      { id: 'experience_page', label: 'Experience', type: 'page_break' },
       { id: 'education', label: 'Highest Education Level', type: 'select', required: true },
       { id: 'experience', label: 'Years of Experience', type: 'number', required: true },
       { id: 'skills', label: 'Key Skills', type: 'textarea', required: true },
-      { id: 'references', label: 'References', type: 'textarea', required: false },
-      { id: 'hear_about', label: 'How did you hear about this position?', type: 'select', required: false },
-      { id: 'salary', label: 'Salary Expectations', type: 'text', required: false },
+      { id: 'documents_section', label: 'Documents', type: 'section', description: 'Upload your resume and, optionally, a cover letter.' },
+      { id: 'resume', label: 'Resume/CV', type: 'file', required: true, validation: { acceptedTypes: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'], maxFileSize: 10, maxFiles: 1 } },
+      { id: 'cover_letter', label: 'Cover Letter', type: 'file', required: false, validation: { acceptedTypes: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'], maxFileSize: 10, maxFiles: 1 } },
+      { id: 'final_page', label: 'Final Details', type: 'page_break' },
+      {
+        id: 'references',
+        label: 'References',
+        type: 'group',
+        required: false,
+        repeat: { min: 1, max: 3, entryLabel: 'Reference' },
+        fields: [
+          { id: 'name', label: 'Name', type: 'text', required: true },
+          { id: 'relationship', label: 'Relationship', type: 'text', required: false },
+          { id: 'email', label: 'Email', type: 'email', required: true },
+          { id: 'phone', label: 'Phone', type: 'phone', required: false }
+        ]
+      },
       { id: 'questions', label: 'Questions for the employer', type: 'textarea', required: false },
       { id: 'terms', label: 'I certify that all information provided is accurate', type: 'checkbox', required: true }
     ]
@@ -110,7 +138,7 @@ const templates = [
       { id: 'features_used', label: 'Which features do you use most?', type: 'checkbox', required: true },
       { id: 'missing_features', label: 'What features would you like to see added?', type: 'textarea', required: false },
       { id: 'improvement', label: 'What would you improve about our product?', type: 'textarea', required: true },
-      { id: 'recommend', label: 'How likely are you to recommend our product?', type: 'rating', required: true },
+      { id: 'recommend', label: 'How likely are you to recommend our product?', type: 'nps', required: true },
       { id: 'feedback', label: 'Additional feedback', type: 'textarea', required: false }
     ]
   }
@@ -146,11 +174,17 @@ export default function TemplatePage() {
         id: fieldId,
         type: field.type,
         label: field.label,
-        required: field.required,
+        required: !!field.required,
         placeholder: field.type === 'text' || field.type === 'textarea' || field.type === 'email' 
           ? `Enter ${field.label.toLowerCase()}` 
           : undefined,
         options: field.options || [],
+        description: field.description,
+        validation: field.validation,
+        scale: field.scale,
+        fields: field.fields,
+        repeat: field.repeat,
+        calculation: field.calculation,
       };
     });
     
@@ -252,7 +286,7 @@ export default function TemplatePage() {
                 {template.category}
               </span>
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                {template.fields.length} fields
+                {answerableFields(template.fields).length} fields
               </span>
             </div>
           </div>
@@ -279,12 +313,18 @@ export default function TemplatePage() {
             <h2 className="text-xl font-semibold mb-4">Form Fields</h2>
             <div className="bg-gray-50 rounded-lg border border-gray-200 overflow-hidden">
               <ul className="divide-y divide-gray-200">
-                {template.fields.map((field: any, index: number) => (
+                {template.fields.map((field: any) => isLayoutField(field) ? (
+                  <li key={field.id} className="px-4 py-3 bg-gray-100">
+                    <p className="text-xs font-semibold uppercase tracking-wider text-gray-500">
+                      {field.type === 'page_break' ? 'New page' : 'Section'}: {field.label}
+                    </p>
+                  </li>
+                ) : (
                   <li key={field.id} className="p-4 hover:bg-gray-100">
                     <div className="flex items-start">
                       <div className="flex-shrink-0 mt-1">
                         <span className="inline-flex items-center justify-center h-6 w-6 rounded-full bg-blue-100 text-blue-800 text-xs font-medium">
-                          {index + 1}
+                          {answerableFields(template.fields).indexOf(field) + 1}
                         </span>
                       </div>
                       <div className="ml-3 flex-1">
@@ -340,7 +380,13 @@ export default function TemplatePage() {
           <div className="max-w-3xl mx-auto bg-gray-50 rounded-lg border border-gray-200 p-6">
             <h1 className="text-2xl font-bold text-center mb-6">{template.title}</h1>
             
-            {template.fields.map((field: any) => (
+            {template.fields.map((field: any) => isLayoutField(field) ? (
+              // Respondents see one page at a time; the preview shows where the pages start
+              <div key={field.id} className={`mb-4 ${field.type === 'page_break' ? 'pt-4 border-t-2 border-dashed border-gray-300' : ''}`}>
+                <h2 className="text-lg font-semibold text-gray-900">{field.label}</h2>
+                {field.description && <p className="text-sm text-gray-600 mt-1">{field.description}</p>}
+              </div>
+            ) : (
               <div key={field.id} className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   {field.label}
@@ -355,8 +401,26 @@ export default function TemplatePage() {
                   <input type="email" className="w-full px-3 py-2 border border-gray-300 rounded-md" placeholder="example@email.com" />
                 )}
                 
-                {field.type === 'tel' && (
-                  <input type="tel" className="w-full px-3 py-2 border border-gray-300 rounded-md" placeholder="(123) 456-7890" />
+                {field.type === 'phone' && (
+                  <PhoneInput value="" onChange={() => {}} placeholder="415 555 2671" />
+                )}
+                
+                {field.type === 'url' && (
+                  <input type="text" inputMode="url" className="w-full px-3 py-2 border border-gray-300 rounded-md" placeholder="https://example.com" />
+                )}
+                
+                {field.type === 'address' && (
+                  <AddressInput value={null} onChange={() => {}} disabled />
+                )}
+                
+                {field.type === 'group' && (
+                  <GroupInput field={field} value={[emptyEntry(field)]} onChange={() => {}} disabled />
+                )}
+                
+                {field.type === 'calculated' && (
+                  <div className="w-full px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-sm text-gray-500 font-mono">
+                    {getCalculation(field).formula}
+                  </div>
                 )}
                 
                 {field.type === 'number' && (
@@ -402,16 +466,8 @@ export default function TemplatePage() {
                   </div>
                 )}
                 
-                {field.type === 'rating' && (
-                  <div className="flex items-center space-x-1">
-                    {[1, 2, 3, 4, 5].map((star) => (
-                      <button key={star} type="button" className="text-gray-300 hover:text-yellow-400">
-                        <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
-                          <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-                        </svg>
-                      </button>
-                    ))}
-                  </div>
+                {isRatingField(field) && (
+                  <RatingInput type={field.type} scale={getFieldScale(field)} value={null} disabled />
                 )}
                 
                 {field.type === 'file' && (
@@ -1,6 +1,6 @@
 import { useState, useRef, useEffect } from 'react';
 
-type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number' | 'email' | 'multiselect';
+type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number' | 'email' | 'phone' | 'url' | 'address' | 'multiselect' | 'file' | 'signature' | 'rating' | 'scale' | 'nps' | 'group' | 'calculated' | 'hidden' | 'section' | 'page_break';
 
 interface AddFieldButtonProps {
   onAddField: (type: FieldType) => void;
@@ -32,6 +32,24 @@ const fieldTypes = [
     description: 'Email input field',
     icon: 'M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z'
   },
+  {
+    type: 'phone',
+    label: 'Phone',
+    description: 'Phone number with country code',
+    icon: 'M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z'
+  },
+  {
+    type: 'url',
+    label: 'Website',
+    description: 'Web address (URL)',
+    icon: 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1'
+  },
+  {
+    type: 'address',
+    label: 'Address',
+    description: 'Street, city, region, postal code and country',
+    icon: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z'
+  },
   {
     type: 'date',
     label: 'Date',
@@ -61,6 +79,66 @@ const fieldTypes = [
     label: 'Checkboxes',
     description: 'Select multiple options',
     icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2'
+  },
+  {
+    type: 'file',
+    label: 'File Upload',
+    description: 'Upload one or more files',
+    icon: 'M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13'
+  },
+  {
+    type: 'signature',
+    label: 'Signature',
+    description: 'Draw or type a signature',
+    icon: 'M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'
+  },
+  {
+    type: 'rating',
+    label: 'Star Rating',
+    description: 'Rate with stars',
+    icon: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z'
+  },
+  {
+    type: 'scale',
+    label: 'Linear Scale',
+    description: 'Pick a number on a scale',
+    icon: 'M4 12h16M4 9v6M9 10v4M15 10v4M20 9v6'
+  },
+  {
+    type: 'nps',
+    label: 'Net Promoter Score',
+    description: 'How likely to recommend, from 0 to 10',
+    icon: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z'
+  },
+  {
+    type: 'group',
+    label: 'Repeating Group',
+    description: 'Fields repeated per entry, e.g. references or line items',
+    icon: 'M4 6h16M4 10h16M4 14h16M4 18h16'
+  },
+  {
+    type: 'calculated',
+    label: 'Calculated',
+    description: 'Computed from other answers with a formula',
+    icon: 'M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z'
+  },
+  {
+    type: 'hidden',
+    label: 'Hidden Field',
+    description: 'Not shown; filled in from the form link',
+    icon: 'M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21'
+  },
+  {
+    type: 'section',
+    label: 'Section',
+    description: 'Title and description between fields',
+    icon: 'M4 6h16M4 10h10M4 14h16M4 18h10'
+  },
+  {
+    type: 'page_break',
+    label: 'Page Break',
+    description: 'Start a new page of the form',
+    icon: 'M4 12h2m4 0h4m4 0h2M6 4v4h12V4M6 20v-4h12v4'
   }
 ];
 
@@ -0,0 +1,46 @@
+'use client';
+
+import { ADDRESS_PARTS, AddressPart, AddressValue, REQUIRED_ADDRESS_PARTS } from '@/lib/contactFields';
+
+interface AddressInputProps {
+  value: Partial<AddressValue> | null;
+  onChange: (value: AddressValue) => void;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+// Browser autofill names of the address parts
+const AUTOCOMPLETE: Record<AddressPart, string> = {
+  street: 'street-address',
+  city: 'address-level2',
+  region: 'address-level1',
+  postal_code: 'postal-code',
+  country: 'country-name'
+};
+
+/**
+ * Input for address fields, with one box per part of the address. The answer is an
+ * object with all parts, so templates can use them separately.
+ */
+export default function AddressInput({ value, onChange, required, disabled = false }: AddressInputProps) {
+  const address = ADDRESS_PARTS.reduce((result, { key }) => ({ ...result, [key]: value?.[key] || '' }), {} as AddressValue);
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      {ADDRESS_PARTS.map(({ key, label }) => (
+        <input
+          key={key}
+          type="text"
+          autoComplete={AUTOCOMPLETE[key]}
+          value={address[key]}
+          onChange={(e) => onChange({ ...address, [key]: e.target.value })}
+          placeholder={label}
+          aria-label={label}
+          required={required && REQUIRED_ADDRESS_PARTS.includes(key)}
+          disabled={disabled}
+          className={`${key === 'street' ? 'col-span-2 ' : ''}w-full px-3 py-2 border border-gray-300 rounded-md`}
+        />
+      ))}
+    </div>
+  );
+}
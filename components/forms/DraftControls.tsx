@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { DRAFT_EXPIRY_DAYS } from '@/lib/formDrafts';
+
+interface DraftControlsProps {
+  savedAt: string | null;
+  savedOnServer: boolean;
+  resumeUrl: string;
+  savingForLater: boolean;
+  error: string;
+  onSaveForLater: () => void;
+  onDiscard: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Shows when the draft of a response was last saved, with a "save and continue later"
+ * action that gives a link to come back with
+ */
+export default function DraftControls({
+  savedAt,
+  savedOnServer,
+  resumeUrl,
+  savingForLater,
+  error,
+  onSaveForLater,
+  onDiscard,
+  disabled = false
+}: DraftControlsProps) {
+  const [copied, setCopied] = useState(false);
+
+  const copyResumeUrl = () => {
+    navigator.clipboard.writeText(resumeUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-gray-500">
+          {savedAt
+            ? `Draft saved ${savedOnServer ? '' : 'on this device '}at ${new Date(savedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`
+            : 'Your answers are saved as you type'}
+          {savedAt && (
+            <button type="button" onClick={onDiscard} disabled={disabled} className="ml-2 text-red-600 hover:underline disabled:opacity-50">
+              Start over
+            </button>
+          )}
+        </span>
+        <button
+          type="button"
+          onClick={onSaveForLater}
+          disabled={disabled || savingForLater}
+          className="px-3 py-1.5 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+        >
+          {savingForLater ? 'Saving...' : 'Save and continue later'}
+        </button>
+      </div>
+
+      {resumeUrl && (
+        <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+          <p className="mb-2 text-blue-800">
+            Use this link to continue where you left off, within {DRAFT_EXPIRY_DAYS} days of your last change. Anyone with the
+            link can see your answers, so keep it private.
+          </p>
+          <div className="flex">
+            <input type="text" readOnly value={resumeUrl} className="flex-1 px-3 py-2 border border-gray-300 rounded-l-md bg-white text-sm" />
+            <button
+              type="button"
+              onClick={copyResumeUrl}
+              className={`px-4 py-2 rounded-r-md text-sm font-medium ${copied ? 'bg-green-500 text-white' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+            >
+              {copied ? 'Copied!' : 'Copy Link'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+'use client';
+
+import { useState } from 'react';
+import { EDIT_TOKEN_PARAM } from '@/lib/responseEdits';
+
+interface EditLinkNoticeProps {
+  formId: string;
+  editToken: string;
+  expiresAt: string;
+}
+
+/**
+ * Shows the link a respondent can use to change their response after submitting it
+ */
+export default function EditLinkNotice({ formId, editToken, expiresAt }: EditLinkNoticeProps) {
+  const [copied, setCopied] = useState(false);
+  const editUrl = `${window.location.origin}/forms/${formId}?${EDIT_TOKEN_PARAM}=${encodeURIComponent(editToken)}`;
+
+  const copyEditUrl = () => {
+    navigator.clipboard.writeText(editUrl);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-white border border-gray-200 rounded-md text-left text-sm">
+      <p className="mb-2 text-gray-700">
+        Need to change something? Use this link until {new Date(expiresAt).toLocaleDateString()}. Anyone with the
+        link can see and change your response, so keep it private.
+      </p>
+      <div className="flex">
+        <input type="text" readOnly value={editUrl} className="flex-1 px-3 py-2 border border-gray-300 rounded-l-md bg-gray-50 text-sm" />
+        <button
+          type="button"
+          onClick={copyEditUrl}
+          className={`px-4 py-2 rounded-r-md text-sm font-medium ${copied ? 'bg-green-500 text-white' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+        >
+          {copied ? 'Copied!' : 'Copy Link'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { FieldValidationRules, patternProblem } from '@/lib/responseValidation';
+import { VisibilityRules } from '@/lib/fieldVisibility';
+import { MAX_UPLOAD_SIZE_MB } from '@/lib/fileUploads';
+import { MAX_SCALE_POINTS, ScaleSettings, getFieldScale, isRatingField } from '@/lib/ratingFields';
+import { GROUP_CHILD_TYPES, GroupChildField, MAX_GROUP_ENTRIES, RepeatSettings } from '@/lib/repeatingGroups';
+import { CalculationSettings, FORMULA_FUNCTIONS, MAX_CALCULATION_DECIMALS, checkFormula } from '@/lib/calculatedFields';
+import { PrefillSettings, prefillParamName } from '@/lib/prefill';
+import VisibilityRulesEditor from './VisibilityRulesEditor';
 
 // Define types for our form fields
-type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number' | 'email' | 'multiselect';
+type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number' | 'email' | 'phone' | 'url' | 'address' | 'multiselect' | 'file' | 'signature' | 'rating' | 'scale' | 'nps' | 'group' | 'calculated' | 'hidden' | 'section' | 'page_break';
 
 const fieldTypes = [
   {
@@ -30,6 +38,24 @@ const fieldTypes = [
     description: 'Email input field',
     icon: 'M3 8l7.89 5.26a2 2 0 002.22 0L21 8M5 19h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z'
   },
+  {
+    type: 'phone',
+    label: 'Phone',
+    description: 'Phone number with country code',
+    icon: 'M3 5a2 2 0 012-2h3.28a1 1 0 01.948.684l1.498 4.493a1 1 0 01-.502 1.21l-2.257 1.13a11.042 11.042 0 005.516 5.516l1.13-2.257a1 1 0 011.21-.502l4.493 1.498a1 1 0 01.684.949V19a2 2 0 01-2 2h-1C9.716 21 3 14.284 3 6V5z'
+  },
+  {
+    type: 'url',
+    label: 'Website',
+    description: 'Web address (URL)',
+    icon: 'M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1'
+  },
+  {
+    type: 'address',
+    label: 'Address',
+    description: 'Street, city, region, postal code and country',
+    icon: 'M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0zM15 11a3 3 0 11-6 0 3 3 0 016 0z'
+  },
   {
     type: 'date',
     label: 'Date',
@@ -59,16 +85,71 @@ const fieldTypes = [
     label: 'Checkboxes',
     description: 'Select multiple options',
     icon: 'M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2'
+  },
+  {
+    type: 'file',
+    label: 'File Upload',
+    description: 'Upload one or more files',
+    icon: 'M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13'
+  },
+  {
+    type: 'signature',
+    label: 'Signature',
+    description: 'Draw or type a signature',
+    icon: 'M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z'
+  },
+  {
+    type: 'rating',
+    label: 'Star Rating',
+    description: 'Rate with stars',
+    icon: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z'
+  },
+  {
+    type: 'scale',
+    label: 'Linear Scale',
+    description: 'Pick a number on a scale',
+    icon: 'M4 12h16M4 9v6M9 10v4M15 10v4M20 9v6'
+  },
+  {
+    type: 'nps',
+    label: 'Net Promoter Score',
+    description: 'How likely to recommend, from 0 to 10',
+    icon: 'M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z'
+  },
+  {
+    type: 'group',
+    label: 'Repeating Group',
+    description: 'Fields repeated per entry, e.g. references or line items',
+    icon: 'M4 6h16M4 10h16M4 14h16M4 18h16'
+  },
+  {
+    type: 'calculated',
+    label: 'Calculated',
+    description: 'Computed from other answers with a formula',
+    icon: 'M9 7h6m0 10v-3m-3 3h.01M9 17h.01M9 14h.01M12 14h.01M15 11h.01M12 11h.01M9 11h.01M7 21h10a2 2 0 002-2V5a2 2 0 00-2-2H7a2 2 0 00-2 2v14a2 2 0 002 2z'
+  },
+  {
+    type: 'hidden',
+    label: 'Hidden Field',
+    description: 'Not shown; filled in from the form link',
+    icon: 'M13.875 18.825A10.05 10.05 0 0112 19c-4.478 0-8.268-2.943-9.543-7a9.97 9.97 0 011.563-3.029m5.858.908a3 3 0 114.243 4.243M9.878 9.878l4.242 4.242M9.88 9.88l-3.29-3.29m7.532 7.532l3.29 3.29M3 3l3.59 3.59m0 0A9.953 9.953 0 0112 5c4.478 0 8.268 2.943 9.543 7a10.025 10.025 0 01-4.132 5.411m0 0L21 21'
   }
 ];
 
+const ruleInputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-blue-500 dark:focus:border-blue-400 bg-white dark:bg-gray-800 text-gray-900 dark:text-white transition-colors';
+
+// Rules that hold a number; the others hold text (dates, patterns, messages, field IDs)
+const numericRules: Array<keyof FieldValidationRules> = ['minLength', 'maxLength', 'minSelections', 'maxSelections', 'maxFileSize', 'maxFiles'];
+
 interface FieldEditorProps {
   field: any;
   onSave: (field: any) => void;
   onCancel: () => void;
+  /** The other fields of the form, for the "must match another field" rule and visibility conditions */
+  otherFields?: Array<{ id: string; label: string; type?: string; options?: string[] }>;
 }
 
-export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProps) {
+export default function FieldEditor({ field, onSave, onCancel, otherFields = [] }: FieldEditorProps) {
   const [label, setLabel] = useState(field.label || '');
   const [placeholder, setPlaceholder] = useState(field.placeholder || '');
   const [required, setRequired] = useState(field.required || false);
@@ -82,6 +163,19 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
   const [bulkOptions, setBulkOptions] = useState('');
   const [dropdownOpen, setDropdownOpen] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [validation, setValidation] = useState<FieldValidationRules>(field.validation || field.metadata?.validation || {});
+  const [visibility, setVisibility] = useState<VisibilityRules | null>(field.visibility || field.metadata?.visibility || null);
+  const [description, setDescription] = useState(field.description || field.metadata?.description || '');
+  const [scale, setScale] = useState<ScaleSettings>(field.scale || field.metadata?.scale || {});
+  const [groupFields, setGroupFields] = useState<GroupChildField[]>(field.fields || field.metadata?.fields || []);
+  const [repeat, setRepeat] = useState<RepeatSettings>(field.repeat || field.metadata?.repeat || {});
+  const [calculation, setCalculation] = useState<CalculationSettings>(field.calculation || field.metadata?.calculation || { formula: '' });
+  const [prefill, setPrefill] = useState<PrefillSettings>(field.prefill || field.metadata?.prefill || {});
+  // Kept as typed, so a trailing comma doesn't disappear while typing the next type
+  const [acceptedTypesText, setAcceptedTypesText] = useState((validation.acceptedTypes || []).join(', '));
+  
+  // Sections and page breaks are not questions; they only have a title and description
+  const isLayout = fieldType === 'section' || fieldType === 'page_break';
   
   // Reset field-specific state when field type changes
   useEffect(() => {
@@ -96,24 +190,154 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
     if (fieldType !== field.type) {
       if (fieldType === 'select' || fieldType === 'multiselect') {
         setPlaceholder('Select an option');
-      } else if (fieldType === 'text' || fieldType === 'textarea' || fieldType === 'number' || fieldType === 'email') {
+      } else if (fieldType === 'text' || fieldType === 'textarea' || fieldType === 'number' || fieldType === 'email' || fieldType === 'phone' || fieldType === 'url') {
         setPlaceholder(`Enter ${fieldType}...`);
       }
       
       // Reset default value when changing field types
       setDefaultValue('');
       setSelectedOptions([]);
+      
+      // Validation rules and scales depend on the field type
+      setValidation({});
+      setAcceptedTypesText('');
+      setScale({});
+      setRepeat({});
+      setCalculation({ formula: '' });
+      setPrefill({});
+      
+      // Calculated and hidden fields are not answered, so they can't be required
+      if (fieldType === 'calculated' || fieldType === 'hidden') setRequired(false);
     }
   }, [fieldType]);
   
+  // Only the rules that are set are stored
+  const validationRules: FieldValidationRules | undefined = Object.keys(validation).length > 0 ? validation : undefined;
+  const visibilityRules: VisibilityRules | undefined = visibility?.groups.some(group => group.conditions.length > 0) ? visibility : undefined;
+  const scaleSettings: ScaleSettings | undefined = isRatingField({ type: fieldType }) && Object.keys(scale).length > 0 ? scale : undefined;
+  const fieldScale = getFieldScale({ type: fieldType, scale });
+  
+  // Groups keep their child fields without empty options; the other types have none
+  const groupChildFields: GroupChildField[] | undefined = fieldType === 'group'
+    ? groupFields.map(child => ({ ...child, options: child.type === 'select' ? (child.options || []).map(option => option.trim()).filter(Boolean) : undefined }))
+    : undefined;
+  const repeatSettings: RepeatSettings | undefined = fieldType === 'group' && Object.keys(repeat).length > 0 ? repeat : undefined;
+  const calculationSettings: CalculationSettings | undefined = fieldType === 'calculated' ? calculation : undefined;
+  const prefillSettings: PrefillSettings | undefined = fieldType === 'hidden' && prefill.signedOnly ? prefill : undefined;
+  
+  // The field itself is included, so referring to it gives a clear message
+  const formulaProblem = fieldType === 'calculated'
+    ? checkFormula(calculation.formula, [...otherFields, { id: field.id, label }], field.id)
+    : null;
+  const decimalsProblem = fieldType === 'calculated' && calculation.decimals !== undefined && calculation.decimals !== null
+    && !(Number.isInteger(calculation.decimals) && calculation.decimals >= 0 && calculation.decimals <= MAX_CALCULATION_DECIMALS)
+    ? `Decimals must be a whole number from 0 to ${MAX_CALCULATION_DECIMALS}`
+    : null;
+  
+  // Add a field reference at the end of the formula
+  const insertFieldReference = (fieldLabel: string) => {
+    setCalculation(prev => ({ ...prev, formula: `${prev.formula}${prev.formula && !prev.formula.endsWith(' ') ? ' ' : ''}{${fieldLabel}}` }));
+  };
+  
+  // Set a group setting; cleared number inputs remove the limit
+  const updateRepeat = (setting: keyof RepeatSettings, value: string) => {
+    setRepeat(prev => {
+      const next: Record<string, any> = { ...prev };
+      if (value === '') {
+        delete next[setting];
+      } else {
+        next[setting] = setting === 'entryLabel' ? value : Number(value);
+      }
+      return next as RepeatSettings;
+    });
+  };
+  
+  const addGroupField = () => {
+    setGroupFields(prev => [...prev, { id: `field-${Date.now()}`, type: 'text', label: `Field ${prev.length + 1}`, required: false }]);
+  };
+  
+  const updateGroupField = (index: number, changes: Partial<GroupChildField>) => {
+    setGroupFields(prev => prev.map((child, i) => (i === index ? { ...child, ...changes } : child)));
+  };
+  
+  const removeGroupField = (index: number) => {
+    setGroupFields(prev => prev.filter((_, i) => i !== index));
+  };
+  
+  // Set a scale setting; an empty label is kept so it replaces the default label
+  const updateScale = (setting: keyof ScaleSettings, value: string) => {
+    setScale(prev => ({ ...prev, [setting]: setting === 'min' || setting === 'max' ? Number(value) : value }));
+  };
+  
+  // Set or clear a validation rule
+  const updateRule = (rule: keyof FieldValidationRules, value: string) => {
+    setValidation(prev => {
+      const next: Record<string, any> = { ...prev };
+      if (value === '') {
+        delete next[rule];
+      } else {
+        next[rule] = numericRules.includes(rule) || ((rule === 'min' || rule === 'max') && fieldType === 'number') ? Number(value) : value;
+      }
+      return next as FieldValidationRules;
+    });
+  };
+  
+  // Set the accepted MIME types of a file field from comma-separated text
+  const updateAcceptedTypes = (text: string) => {
+    setAcceptedTypesText(text);
+    const types = text.split(',').map(type => type.trim()).filter(type => type.length > 0);
+    setValidation(prev => {
+      const next = { ...prev };
+      if (types.length > 0) {
+        next.acceptedTypes = types;
+      } else {
+        delete next.acceptedTypes;
+      }
+      return next;
+    });
+  };
+  
+  // Types without answers to check, or with checks of their own, have no validation rules
+  const hasValidationRules = fieldType !== 'radio' && fieldType !== 'select' && fieldType !== 'signature' && fieldType !== 'address' && fieldType !== 'group' && fieldType !== 'calculated' && fieldType !== 'hidden' && !isRatingField({ type: fieldType });
+  
+  // Problems with the rules themselves, shown below the rule inputs
+  const ruleProblems: string[] = [];
+  const patternIssue = validation.pattern ? patternProblem(validation.pattern) : null;
+  if (patternIssue) {
+    ruleProblems.push(patternIssue);
+  }
+  if (validation.maxFileSize !== undefined && validation.maxFileSize > MAX_UPLOAD_SIZE_MB) {
+    ruleProblems.push(`Files can be at most ${MAX_UPLOAD_SIZE_MB} MB`);
+  }
+  ([['min', 'max'], ['minLength', 'maxLength'], ['minSelections', 'maxSelections']] as const).forEach(([lower, upper]) => {
+    const low = validation[lower];
+    const high = validation[upper];
+    if (low !== undefined && high !== undefined && (fieldType === 'date' ? String(low) > String(high) : Number(low) > Number(high))) {
+      ruleProblems.push('A minimum is larger than its maximum');
+    }
+  });
+  
+  // The field can't be saved while its formula or rules have problems
+  const fieldProblems = [formulaProblem, decimalsProblem, ...(hasValidationRules ? ruleProblems : [])].filter((problem): problem is string => !!problem);
+  
   // Handle save
   const handleSave = () => {
+    if (fieldProblems.length > 0) return;
+    
     const updatedField = {
       ...field,
       type: fieldType,
       label,
       placeholder,
       required,
+      validation: validationRules,
+      visibility: visibilityRules,
+      scale: scaleSettings,
+      fields: groupChildFields,
+      repeat: repeatSettings,
+      calculation: calculationSettings,
+      prefill: prefillSettings,
+      description: isLayout ? description || undefined : undefined,
       options: (fieldType === 'select' || fieldType === 'radio' || fieldType === 'checkbox' || fieldType === 'multiselect') ? options : undefined,
       defaultValue: fieldType === 'checkbox' || fieldType === 'multiselect'
         ? selectedOptions 
@@ -130,7 +354,15 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
             : defaultValue || null,
         required,
         options: (fieldType === 'select' || fieldType === 'radio' || fieldType === 'checkbox' || fieldType === 'multiselect') ? options : null,
-        placeholder: placeholder || null
+        placeholder: placeholder || null,
+        validation: validationRules || null,
+        visibility: visibilityRules || null,
+        scale: scaleSettings || null,
+        fields: groupChildFields || null,
+        repeat: repeatSettings || null,
+        calculation: calculationSettings || null,
+        prefill: prefillSettings || null,
+        description: isLayout ? description || null : null
       }
     };
     
@@ -222,6 +454,14 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
       label,
       placeholder,
       required,
+      validation: validationRules,
+      visibility: visibilityRules,
+      scale: scaleSettings,
+      fields: groupChildFields,
+      repeat: repeatSettings,
+      calculation: calculationSettings,
+      prefill: prefillSettings,
+      description: isLayout ? description || undefined : undefined,
       options: (fieldType === 'select' || fieldType === 'radio' || fieldType === 'checkbox' || fieldType === 'multiselect') ? options : undefined,
       defaultValue: fieldType === 'checkbox' || fieldType === 'multiselect'
         ? selectedOptions 
@@ -238,16 +478,62 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
             : defaultValue || null,
         required,
         options: (fieldType === 'select' || fieldType === 'radio' || fieldType === 'checkbox' || fieldType === 'multiselect') ? options : null,
-        placeholder: placeholder || null
+        placeholder: placeholder || null,
+        validation: validationRules || null,
+        visibility: visibilityRules || null,
+        scale: scaleSettings || null,
+        fields: groupChildFields || null,
+        repeat: repeatSettings || null,
+        calculation: calculationSettings || null,
+        prefill: prefillSettings || null,
+        description: isLayout ? description || null : null
       }
     };
     
     // Assign the updated field to the ref passed from parent
     field._currentState = updatedField;
-  }, [field, fieldType, label, placeholder, required, options, defaultValue, selectedOptions]);
+  }, [field, fieldType, label, placeholder, required, options, defaultValue, selectedOptions, validation, visibility, scale, groupFields, repeat, calculation, prefill, description]);
   
-  const filteredFieldTypes = fieldTypes.filter(type => type.label.toLowerCase().includes(searchQuery.toLowerCase()));
+  // Let the parent know whether the field can be saved
+  useEffect(() => {
+    field._currentProblems = fieldProblems;
+  });
   
+  const filteredFieldTypes = fieldTypes.filter(type => type.label.toLowerCase().includes(searchQuery.toLowerCase()));
+
+  if (isLayout) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            {fieldType === 'section' ? 'Section Title' : 'Page Title (optional)'}
+          </label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            className={ruleInputClassName}
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={3}
+            className={ruleInputClassName}
+          />
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            {fieldType === 'section'
+              ? 'Shown below the section title'
+              : 'The fields after this page break are shown on a new page, below this title and description'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
       <div>
@@ -360,7 +646,7 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
         />
       </div>
       
-      {(fieldType === 'text' || fieldType === 'textarea' || fieldType === 'number' || fieldType === 'email') && (
+      {(fieldType === 'text' || fieldType === 'textarea' || fieldType === 'number' || fieldType === 'email' || fieldType === 'phone' || fieldType === 'url') && (
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Placeholder</label>
           <input
@@ -372,7 +658,7 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
         </div>
       )}
       
-      {(fieldType === 'text' || fieldType === 'number' || fieldType === 'email' || fieldType === 'date') && (
+      {(fieldType === 'text' || fieldType === 'number' || fieldType === 'email' || fieldType === 'date' || fieldType === 'hidden') && (
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Default Value</label>
           <input
@@ -559,20 +845,458 @@ export default function FieldEditor({ field, onSave, onCancel }: FieldEditorProp
         </div>
       )}
       
-      <div>
-        <div className="flex items-center">
-          <input
-            type="checkbox"
-            id="required-field"
-            checked={required}
-            onChange={(e) => setRequired(e.target.checked)}
-            className="h-4 w-4 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded transition-colors"
+      {isRatingField({ type: fieldType }) && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Scale</label>
+          <div className="grid grid-cols-2 gap-3">
+            {fieldType === 'rating' && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Number of stars</label>
+                <select value={fieldScale.max} onChange={(e) => updateScale('max', e.target.value)} className={ruleInputClassName}>
+                  {Array.from({ length: MAX_SCALE_POINTS - 2 }, (_, index) => index + 3).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+            
+            {fieldType === 'scale' && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">From</label>
+                  <select value={fieldScale.min} onChange={(e) => updateScale('min', e.target.value)} className={ruleInputClassName}>
+                    <option value={0}>0</option>
+                    <option value={1}>1</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">To</label>
+                  <select value={fieldScale.max} onChange={(e) => updateScale('max', e.target.value)} className={ruleInputClassName}>
+                    {Array.from({ length: MAX_SCALE_POINTS - fieldScale.min }, (_, index) => index + fieldScale.min + 1).map(point => (
+                      <option key={point} value={point}>{point}</option>
+                    ))}
+                  </select>
+                </div>
+              </>
+            )}
+            
+            {fieldType !== 'rating' && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Label for {fieldScale.min}</label>
+                  <input
+                    type="text"
+                    value={fieldScale.minLabel}
+                    onChange={(e) => updateScale('minLabel', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Label for {fieldScale.max}</label>
+                  <input
+                    type="text"
+                    value={fieldScale.maxLabel}
+                    onChange={(e) => updateScale('maxLabel', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+          {fieldType === 'nps' && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Respondents answer from 0 to 10. Answers of 9 and 10 count as promoters, 0 to 6 as detractors.
+            </p>
+          )}
+        </div>
+      )}
+      
+      {fieldType === 'group' && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Fields in each entry</label>
+            <button
+              type="button"
+              onClick={addGroupField}
+              className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/30 hover:bg-blue-200 dark:hover:bg-blue-800/40 text-blue-700 dark:text-blue-300 rounded-md transition-colors flex items-center"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+              </svg>
+              Add Field
+            </button>
+          </div>
+          
+          <div className="space-y-2">
+            {groupFields.map((child, index) => (
+              <div key={child.id} className="p-3 bg-gray-50 dark:bg-gray-750 border border-gray-200 dark:border-gray-700 rounded-lg space-y-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={child.label}
+                    onChange={(e) => updateGroupField(index, { label: e.target.value })}
+                    placeholder="Field label"
+                    className={`${ruleInputClassName} flex-1`}
+                  />
+                  <select
+                    value={child.type}
+                    onChange={(e) => updateGroupField(index, { type: e.target.value })}
+                    className={`${ruleInputClassName} w-36`}
+                  >
+                    {GROUP_CHILD_TYPES.map(type => (
+                      <option key={type} value={type}>{fieldTypes.find(candidate => candidate.type === type)?.label || type}</option>
+                    ))}
+                  </select>
+                  <label className="flex items-center text-xs text-gray-600 dark:text-gray-400 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      checked={!!child.required}
+                      onChange={(e) => updateGroupField(index, { required: e.target.checked })}
+                      className="h-4 w-4 mr-1 text-blue-600 border-gray-300 dark:border-gray-600 rounded"
+                    />
+                    Required
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => removeGroupField(index)}
+                    className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded"
+                    aria-label="Remove field"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+                {child.type === 'select' && (
+                  <textarea
+                    value={(child.options || []).join('\n')}
+                    onChange={(e) => updateGroupField(index, { options: e.target.value.split('\n') })}
+                    placeholder="One option per line"
+                    rows={3}
+                    className={ruleInputClassName}
+                  />
+                )}
+              </div>
+            ))}
+            {groupFields.length === 0 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Add the fields respondents fill in for each entry.</p>
+            )}
+          </div>
+          
+          <div className="mt-3 grid grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Minimum entries</label>
+              <input
+                type="number"
+                min={0}
+                max={MAX_GROUP_ENTRIES}
+                value={repeat.min ?? ''}
+                onChange={(e) => updateRepeat('min', e.target.value)}
+                placeholder="0"
+                className={ruleInputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Maximum entries</label>
+              <input
+                type="number"
+                min={1}
+                max={MAX_GROUP_ENTRIES}
+                value={repeat.max ?? ''}
+                onChange={(e) => updateRepeat('max', e.target.value)}
+                placeholder={String(MAX_GROUP_ENTRIES)}
+                className={ruleInputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">An entry is called</label>
+              <input
+                type="text"
+                value={repeat.entryLabel ?? ''}
+                onChange={(e) => updateRepeat('entryLabel', e.target.value)}
+                placeholder="Entry"
+                className={ruleInputClassName}
+              />
+            </div>
+          </div>
+          {repeat.min !== undefined && repeat.max !== undefined && repeat.min > repeat.max && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">The minimum is larger than the maximum</p>
+          )}
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            In templates, list the entries with {'{{#each '}{label || 'Group'}{'}}'}…{'{{/each}}'} and use {'{{this.'}<em>Field label</em>{'}}'} inside.
+          </p>
+        </div>
+      )}
+      
+      {fieldType === 'calculated' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Formula</label>
+          <textarea
+            value={calculation.formula}
+            onChange={(e) => setCalculation(prev => ({ ...prev, formula: e.target.value }))}
+            placeholder={'{Quantity} * {Unit Price}'}
+            rows={2}
+            className={`${ruleInputClassName} font-mono text-sm`}
           />
-          <label htmlFor="required-field" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
-            Required field
+          {formulaProblem ? (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">{formulaProblem}</p>
+          ) : (
+            <p className="mt-1 text-xs text-green-600 dark:text-green-400">The formula is valid</p>
+          )}
+          
+          {otherFields.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {otherFields.filter(other => other.label).map(other => (
+                <button
+                  key={other.id}
+                  type="button"
+                  onClick={() => insertFieldReference(other.label)}
+                  className="px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-300 rounded"
+                >
+                  {other.label}
+                </button>
+              ))}
+            </div>
+          )}
+          
+          <div className="mt-3 w-40">
+            <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Decimals</label>
+            <input
+              type="number"
+              min={0}
+              max={MAX_CALCULATION_DECIMALS}
+              step={1}
+              value={calculation.decimals ?? ''}
+              onChange={(e) => setCalculation(prev => ({ ...prev, decimals: e.target.value === '' ? undefined : Number(e.target.value) }))}
+              placeholder="As computed"
+              className={ruleInputClassName}
+            />
+          </div>
+          {decimalsProblem && (
+            <p className="mt-1 text-xs text-red-600 dark:text-red-400">{decimalsProblem}</p>
+          )}
+          
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            Refer to fields in braces, e.g. {'{Tickets} * 25'}. Use + - * / for numbers, & to join text, = != &lt; &gt; to compare
+            and &quot;quotes&quot; for text. Subtracting one date from another gives the days in between.
+            Functions: {Object.values(FORMULA_FUNCTIONS).map(definition => definition.description).join('; ')}.
+          </p>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            The result is computed again when the response is submitted and can be used in templates like any answer, e.g. {'{{'}{label || 'Total'}{'}}'}.
+          </p>
+        </div>
+      )}
+      
+      {fieldType === 'hidden' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Filled in from the link</label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Respondents don&apos;t see this field. Add its value to the form link, e.g.{' '}
+            <code className="px-1 bg-gray-100 dark:bg-gray-700 rounded">?{label ? prefillParamName({ id: field.id, label }) : field.id}=value</code>,
+            or leave it out to use the default value.
+          </p>
+          <label className="mt-2 flex items-center text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!prefill.signedOnly}
+              onChange={(e) => setPrefill({ signedOnly: e.target.checked })}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 dark:border-gray-600 rounded"
+            />
+            Only accept values from signed links
           </label>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            For values respondents must not change, like an account ID. Create signed links from the form&apos;s page.
+          </p>
         </div>
+      )}
+      
+      {hasValidationRules && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Validation</label>
+          <div className="grid grid-cols-2 gap-3">
+            {(fieldType === 'number' || fieldType === 'date') && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {fieldType === 'date' ? 'Earliest date' : 'Minimum value'}
+                  </label>
+                  <input
+                    type={fieldType}
+                    value={validation.min ?? ''}
+                    onChange={(e) => updateRule('min', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">
+                    {fieldType === 'date' ? 'Latest date' : 'Maximum value'}
+                  </label>
+                  <input
+                    type={fieldType}
+                    value={validation.max ?? ''}
+                    onChange={(e) => updateRule('max', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+              </>
+            )}
+            
+            {(fieldType === 'text' || fieldType === 'textarea' || fieldType === 'email') && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Minimum length</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={validation.minLength ?? ''}
+                    onChange={(e) => updateRule('minLength', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Maximum length</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={validation.maxLength ?? ''}
+                    onChange={(e) => updateRule('maxLength', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+              </>
+            )}
+            
+            {(fieldType === 'checkbox' || fieldType === 'multiselect') && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Minimum selections</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={validation.minSelections ?? ''}
+                    onChange={(e) => updateRule('minSelections', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Maximum selections</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={validation.maxSelections ?? ''}
+                    onChange={(e) => updateRule('maxSelections', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+              </>
+            )}
+            
+            {(fieldType === 'text' || fieldType === 'textarea' || fieldType === 'email' || fieldType === 'number') && (
+              <>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Pattern (regular expression)</label>
+                  <input
+                    type="text"
+                    value={validation.pattern ?? ''}
+                    onChange={(e) => updateRule('pattern', e.target.value)}
+                    placeholder="e.g. [A-Z]{2}\d{6}"
+                    className={`${ruleInputClassName} font-mono`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Message when the pattern doesn't match</label>
+                  <input
+                    type="text"
+                    value={validation.patternMessage ?? ''}
+                    onChange={(e) => updateRule('patternMessage', e.target.value)}
+                    placeholder="e.g. Enter two letters followed by six digits"
+                    disabled={!validation.pattern}
+                    className={`${ruleInputClassName} disabled:opacity-50`}
+                  />
+                </div>
+              </>
+            )}
+            
+            {fieldType === 'file' && (
+              <>
+                <div className="col-span-2">
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Accepted file types (MIME types, comma-separated)</label>
+                  <input
+                    type="text"
+                    value={acceptedTypesText}
+                    onChange={(e) => updateAcceptedTypes(e.target.value)}
+                    placeholder="e.g. application/pdf, image/*"
+                    className={ruleInputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Maximum size per file (MB)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={MAX_UPLOAD_SIZE_MB}
+                    value={validation.maxFileSize ?? ''}
+                    onChange={(e) => updateRule('maxFileSize', e.target.value)}
+                    placeholder={String(MAX_UPLOAD_SIZE_MB)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Maximum number of files</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={validation.maxFiles ?? ''}
+                    onChange={(e) => updateRule('maxFiles', e.target.value)}
+                    className={ruleInputClassName}
+                  />
+                </div>
+              </>
+            )}
+            
+            {fieldType !== 'checkbox' && fieldType !== 'multiselect' && fieldType !== 'file' && otherFields.length > 0 && (
+              <div className="col-span-2">
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Must match another field</label>
+                <select
+                  value={validation.matchField ?? ''}
+                  onChange={(e) => updateRule('matchField', e.target.value)}
+                  className={ruleInputClassName}
+                >
+                  <option value="">No</option>
+                  {otherFields.map(other => (
+                    <option key={other.id} value={other.id}>{other.label || 'Untitled Field'}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+          {ruleProblems.map(problem => (
+            <p key={problem} className="mt-1 text-xs text-red-600 dark:text-red-400">{problem}</p>
+          ))}
+        </div>
+      )}
+      
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Visibility</label>
+        <VisibilityRulesEditor value={visibility} onChange={setVisibility} otherFields={otherFields} />
       </div>
+      
+      {fieldType !== 'calculated' && fieldType !== 'hidden' && (
+        <div>
+          <div className="flex items-center">
+            <input
+              type="checkbox"
+              id="required-field"
+              checked={required}
+              onChange={(e) => setRequired(e.target.checked)}
+              className="h-4 w-4 text-blue-600 dark:text-blue-500 focus:ring-blue-500 dark:focus:ring-blue-400 border-gray-300 dark:border-gray-600 rounded transition-colors"
+            />
+            <label htmlFor="required-field" className="ml-2 block text-sm text-gray-700 dark:text-gray-300">
+              Required field
+            </label>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,118 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  MAX_UPLOAD_SIZE_MB,
+  StoredFile,
+  formatFileSize,
+  isAcceptedFileType,
+  uploadResponseFile
+} from '@/lib/fileUploads';
+import { FieldValidationRules } from '@/lib/responseValidation';
+
+interface FileUploadInputProps {
+  formId: string;
+  fieldId: string;
+  value: StoredFile[];
+  onChange: (files: StoredFile[]) => void;
+  rules?: FieldValidationRules | null;
+  required?: boolean;
+  /** The edit token when changing a submitted response */
+  editToken?: string;
+}
+
+/**
+ * File picker for file fields. Picked files are uploaded right away; the field's
+ * answer is the list of uploaded files.
+ */
+export default function FileUploadInput({ formId, fieldId, value, onChange, rules, required, editToken }: FileUploadInputProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const accepted = rules?.acceptedTypes || [];
+  const maxSize = Math.min(rules?.maxFileSize ?? MAX_UPLOAD_SIZE_MB, MAX_UPLOAD_SIZE_MB);
+  const maxFiles = rules?.maxFiles ?? null;
+  const canAddMore = maxFiles === null || value.length < maxFiles;
+
+  const handleFiles = async (fileList: FileList | null) => {
+    const picked = Array.from(fileList || []);
+    if (picked.length === 0) return;
+    setError(null);
+
+    // Checked here first so respondents don't wait for uploads that will be rejected
+    if (maxFiles !== null && value.length + picked.length > maxFiles) {
+      setError(`You can upload at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}`);
+      return;
+    }
+    const invalid = picked.find(file => !isAcceptedFileType(file.type || 'application/octet-stream', accepted) || file.size > maxSize * 1024 * 1024);
+    if (invalid) {
+      setError(invalid.size > maxSize * 1024 * 1024
+        ? `"${invalid.name}" is larger than ${maxSize} MB`
+        : `"${invalid.name}" is not an accepted file type`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const uploaded: StoredFile[] = [];
+      for (const file of picked) {
+        uploaded.push(await uploadResponseFile(formId, fieldId, file, editToken));
+      }
+      onChange([...value, ...uploaded]);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setUploading(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div>
+      {value.length > 0 && (
+        <ul className="mb-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {value.map(file => (
+            <li key={file.path} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="truncate">
+                {file.name}
+                <span className="ml-2 text-xs text-gray-500">{formatFileSize(file.size)}</span>
+              </span>
+              <button
+                type="button"
+                onClick={() => onChange(value.filter(other => other.path !== file.path))}
+                className="ml-3 text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAddMore && (
+        <input
+          ref={inputRef}
+          type="file"
+          multiple={maxFiles === null || maxFiles - value.length > 1}
+          accept={accepted.length > 0 ? accepted.join(',') : undefined}
+          onChange={(e) => handleFiles(e.target.files)}
+          disabled={uploading}
+          required={required && value.length === 0}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+        />
+      )}
+
+      <p className="mt-1 text-xs text-gray-500">
+        {uploading
+          ? 'Uploading...'
+          : [
+              accepted.length > 0 ? `Accepted: ${accepted.join(', ')}` : null,
+              `Up to ${maxSize} MB per file`,
+              maxFiles !== null ? `at most ${maxFiles} file${maxFiles === 1 ? '' : 's'}` : null
+            ].filter(Boolean).join(' · ')}
+      </p>
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -20,10 +20,16 @@ import {
 } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import AddFieldButton from './AddFieldButton';
+import { FieldValidationRules } from '@/lib/responseValidation';
+import { VisibilityRules, hasVisibilityRules } from '@/lib/fieldVisibility';
+import { isLayoutField } from '@/lib/formLayout';
+import { GroupChildField } from '@/lib/repeatingGroups';
+import { CalculationSettings } from '@/lib/calculatedFields';
+import { PrefillSettings } from '@/lib/prefill';
 import { useRouter } from 'next/navigation';
 
 // Define types for our form fields
-type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number' | 'email' | 'multiselect';
+type FieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number' | 'email' | 'phone' | 'url' | 'address' | 'multiselect' | 'file' | 'signature' | 'rating' | 'scale' | 'nps' | 'group' | 'calculated' | 'hidden' | 'section' | 'page_break';
 
 interface FormField {
   id: string;
@@ -33,6 +39,12 @@ interface FormField {
   required: boolean;
   options?: string[]; // For select, radio, checkbox
   defaultValue?: string;
+  description?: string; // For sections and page breaks
+  validation?: FieldValidationRules; // Min/max, length, pattern and match rules
+  visibility?: VisibilityRules; // Show the field only when these conditions hold
+  fields?: GroupChildField[]; // For repeating groups
+  calculation?: CalculationSettings; // For calculated fields
+  prefill?: PrefillSettings; // For hidden fields
   metadata: {
     label: string;
     type: string;
@@ -40,6 +52,12 @@ interface FormField {
     required: boolean;
     options: string[] | null;
     placeholder: string | null;
+    description?: string | null;
+    validation?: FieldValidationRules | null;
+    visibility?: VisibilityRules | null;
+    fields?: GroupChildField[] | null;
+    calculation?: CalculationSettings | null;
+    prefill?: PrefillSettings | null;
   };
 }
 
@@ -88,6 +106,7 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
   const [showEditorModal, setShowEditorModal] = useState(false);
   const [autoSaving, setAutoSaving] = useState(false);
+  const [editorError, setEditorError] = useState('');
   const [fieldOrder, setFieldOrder] = useState<FieldOrder>(() => {
     // Initialize field order from initialData or create new order
     if (initialData?.fieldOrder) {
@@ -120,20 +139,30 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
 
   // Add a new field
   const addField = (type: FieldType) => {
+    // Sections and page breaks only have a title and description; a page break's title is optional
+    const isLayout = type === 'section' || type === 'page_break';
+    const label = type === 'section' ? 'New section' : type === 'page_break' ? '' : `New ${type} field`;
+    const placeholder = isLayout || ['file', 'signature', 'rating', 'scale', 'nps', 'address', 'group', 'calculated', 'hidden'].includes(type) ? undefined : type === 'select' || type === 'multiselect' ? 'Select an option' : `Enter ${type}...`;
+    // A new group starts with one field to fill in per entry
+    const groupFields: GroupChildField[] | undefined = type === 'group'
+      ? [{ id: `field-${Date.now()}-1`, type: 'text', label: 'Name', required: true }]
+      : undefined;
     const newField: FormField = {
       id: `field-${Date.now()}`,
       type,
-      label: `New ${type} field`,
+      label,
       required: false,
-      placeholder: type === 'select' || type === 'multiselect' ? 'Select an option' : `Enter ${type}...`,
+      placeholder,
       options: (type === 'select' || type === 'radio' || type === 'checkbox' || type === 'multiselect') ? ['Option 1', 'Option 2'] : undefined,
+      fields: groupFields,
       metadata: {
-        label: `New ${type} field`,
+        label,
         type,
         default_value: null,
         required: false,
         options: (type === 'select' || type === 'radio' || type === 'checkbox' || type === 'multiselect') ? ['Option 1', 'Option 2'] : null,
-        placeholder: type === 'select' || type === 'multiselect' ? 'Select an option' : `Enter ${type}...`
+        placeholder: placeholder || null,
+        fields: groupFields || null
       }
     };
     
@@ -155,6 +184,7 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
     setEditingField(fieldCopy);
     setEditingIndex(index);
     setShowEditorModal(true);
+    setEditorError('');
   };
 
   // Handle field update from editor
@@ -177,6 +207,7 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
       }, 100);
       
       // Reset editing state
+      setEditorError('');
       setEditingField(null);
       setEditingIndex(null);
       setShowEditorModal(false);
@@ -211,6 +242,7 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
 
   // Handle field edit cancel
   const handleEditCancel = () => {
+    setEditorError('');
     setEditingField(null);
     setEditingIndex(null);
     setShowEditorModal(false);
@@ -461,15 +493,20 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
                                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 8h16M4 16h16" />
                                 </svg>
                               </span>
-                              <span className="font-medium text-gray-800 dark:text-gray-200">{field.label || 'Untitled Field'}</span>
+                              <span className="font-medium text-gray-800 dark:text-gray-200">{field.label || (field.type === 'page_break' ? 'Untitled Page' : 'Untitled Field')}</span>
                               <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-300">
-                                {field.type}
+                                {field.type === 'page_break' ? 'page break' : field.type}
                               </span>
                               {field.required && (
                                 <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300">
                                   Required
                                 </span>
                               )}
+                              {hasVisibilityRules(field) && (
+                                <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300">
+                                  Conditional
+                                </span>
+                              )}
                               {activeField === field.id && !editingField && (
                                 <span className="ml-2 text-xs text-blue-600 dark:text-blue-400 animate-pulse">
                                   Click again to edit
@@ -505,7 +542,12 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
                           </div>
                           <div className="p-3 bg-white dark:bg-gray-700">
                             <div className="text-sm text-gray-600 dark:text-gray-300">
-                              {field.type === 'select' || field.type === 'radio' || field.type === 'checkbox' ? (
+                              {isLayoutField(field) ? (
+                                <p className="whitespace-pre-line">
+                                  <span className="font-medium text-xs text-gray-500 dark:text-gray-400">Description: </span>
+                                  {field.description || 'None'}
+                                </p>
+                              ) : field.type === 'select' || field.type === 'radio' || field.type === 'checkbox' ? (
                                 <div>
                                   <p className="mb-1 font-medium text-xs text-gray-500 dark:text-gray-400">Options:</p>
                                   <div className="pl-2 border-l-2 border-gray-200 dark:border-gray-600">
@@ -548,7 +590,10 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
                     <button
                       type="button"
                       onClick={() => {
-                        if (editingField._currentState) {
+                        // Fields with an invalid formula or rules would break the form, so they are not saved
+                        if (editingField._currentProblems?.length > 0) {
+                          setEditorError(`Fix the problems with this field before saving it: ${editingField._currentProblems.join('; ')}`);
+                        } else if (editingField._currentState) {
                           handleFieldSave(editingField._currentState);
                         }
                       }}
@@ -572,12 +617,19 @@ export default function FormBuilder({ onSubmit, isSubmitting, initialData, templ
                   </div>
                 </div>
                 
+                {editorError && (
+                  <div className="px-4 py-2 bg-red-50 dark:bg-red-900/20 border-b border-red-200 dark:border-red-800 text-sm text-red-700 dark:text-red-400">
+                    {editorError}
+                  </div>
+                )}
+                
                 {/* Modal body with scrollable content */}
                 <div className="p-6 overflow-y-auto">
                   <FieldEditor
                     field={editingField}
                     onSave={handleFieldSave}
                     onCancel={handleEditCancel}
+                    otherFields={fields.filter(field => field.id !== editingField.id && !isLayoutField(field))}
                   />
                 </div>
               </div>
@@ -0,0 +1,36 @@
+'use client';
+
+interface FormProgressProps {
+  /** Zero-based index of the current page */
+  currentPage: number;
+  pageCount: number;
+  title?: string | null;
+  description?: string | null;
+}
+
+/**
+ * Progress bar and page heading shown above the fields of a multi-page form
+ */
+export default function FormProgress({ currentPage, pageCount, title, description }: FormProgressProps) {
+  const percent = Math.round(((currentPage + 1) / pageCount) * 100);
+
+  return (
+    <div className="mb-6">
+      <div className="flex justify-between items-center mb-1 text-sm text-gray-600 dark:text-gray-400">
+        <span>Page {currentPage + 1} of {pageCount}</span>
+        <span>{percent}%</span>
+      </div>
+      <div
+        className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden"
+        role="progressbar"
+        aria-valuemin={1}
+        aria-valuemax={pageCount}
+        aria-valuenow={currentPage + 1}
+      >
+        <div className="h-full bg-blue-600 transition-all duration-300" style={{ width: `${percent}%` }} />
+      </div>
+      {title && <h2 className="mt-4 text-xl font-semibold text-gray-900 dark:text-white">{title}</h2>}
+      {description && <p className="mt-1 text-gray-600 dark:text-gray-400 whitespace-pre-line">{description}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { FORM_STATUS_LABELS, FormSchedule, FormStatus, describeFormSchedule, getFormStatus } from '@/lib/formSchedule';
+
+const STATUS_CLASSES: Record<FormStatus, string> = {
+  open: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-300',
+  scheduled: 'bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-300',
+  closed: 'bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  full: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-300'
+};
+
+/**
+ * Shows whether a form takes responses, with its schedule and response limit on hover
+ */
+export default function FormStatusBadge({ form, responseCount }: { form: FormSchedule; responseCount: number }) {
+  const status = getFormStatus(form, responseCount);
+
+  return (
+    <span
+      className={`inline-block px-2.5 py-1 text-xs font-medium rounded-full ${STATUS_CLASSES[status]}`}
+      title={describeFormSchedule(form, status, responseCount) || undefined}
+    >
+      {FORM_STATUS_LABELS[status]}
+    </span>
+  );
+}
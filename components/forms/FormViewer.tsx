@@ -4,6 +4,27 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
+import { VisibilityRules, getHiddenFieldIds } from '@/lib/fieldVisibility';
+import { answerableFields, isLayoutField } from '@/lib/formLayout';
+import { ScaleSettings, getFieldScale, isRatingField } from '@/lib/ratingFields';
+import { GroupChildField, RepeatSettings, emptyEntry } from '@/lib/repeatingGroups';
+import { CalculationSettings, getCalculation } from '@/lib/calculatedFields';
+import { PrefillSettings, prefillParamName } from '@/lib/prefill';
+import { DEFAULT_EDIT_LINK_DAYS, MAX_EDIT_LINK_DAYS, ResponseEditSettings } from '@/lib/responseEdits';
+import {
+  FormSchedule,
+  MAX_CLOSED_MESSAGE_LENGTH,
+  describeFormSchedule,
+  fromDateTimeInput,
+  getFormStatus,
+  toDateTimeInput
+} from '@/lib/formSchedule';
+import RatingInput from '@/components/forms/RatingInput';
+import PhoneInput from '@/components/forms/PhoneInput';
+import AddressInput from '@/components/forms/AddressInput';
+import GroupInput from '@/components/forms/GroupInput';
+import PrefillLinkBuilder from '@/components/forms/PrefillLinkBuilder';
+import FormStatusBadge from '@/components/forms/FormStatusBadge';
 
 interface FormField {
   id: string;
@@ -13,6 +34,13 @@ interface FormField {
   required: boolean;
   options?: string[];
   defaultValue?: string | string[];
+  description?: string; // For sections and page breaks
+  visibility?: VisibilityRules | null;
+  scale?: ScaleSettings | null; // For rating, linear scale and NPS fields
+  fields?: GroupChildField[] | null; // For repeating groups
+  repeat?: RepeatSettings | null;
+  calculation?: CalculationSettings | null; // For calculated fields
+  prefill?: PrefillSettings | null; // For hidden fields
   metadata?: {
     label: string;
     type: string;
@@ -20,10 +48,16 @@ interface FormField {
     required: boolean;
     options: string[] | null;
     placeholder: string | null;
+    visibility?: VisibilityRules | null;
+    scale?: ScaleSettings | null;
+    fields?: GroupChildField[] | null;
+    repeat?: RepeatSettings | null;
+    calculation?: CalculationSettings | null;
+    prefill?: PrefillSettings | null;
   };
 }
 
-interface FormData {
+interface FormData extends ResponseEditSettings, FormSchedule {
   id: string;
   title: string;
   description: string;
@@ -51,11 +85,9 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
   const [isDeleting, setIsDeleting] = useState(false);
   const [shareUrl, setShareUrl] = useState('');
   const [copied, setCopied] = useState(false);
-  const [isSubmitting, setIsSubmitting] = useState(false);
-  const [submitError, setSubmitError] = useState<string | null>(null);
-  const [isSubmitted, setIsSubmitted] = useState(false);
-  const [formValues, setFormValues] = useState<Record<string, any>>({});
-  const [userEmail, setUserEmail] = useState('');
+  const [schedule, setSchedule] = useState({ opensAt: '', closesAt: '', maxResponses: '', closedMessage: '' });
+  const [isSavingSchedule, setIsSavingSchedule] = useState(false);
+  const [scheduleError, setScheduleError] = useState('');
 
   useEffect(() => {
     // Generate share URL
@@ -88,6 +120,12 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
         }
 
         setForm(data);
+        setSchedule({
+          opensAt: toDateTimeInput(data.opens_at),
+          closesAt: toDateTimeInput(data.closes_at),
+          maxResponses: data.max_responses ? String(data.max_responses) : '',
+          closedMessage: data.closed_message || ''
+        });
 
         // Fetch response count
         const { count, error: countError } = await supabase
@@ -135,6 +173,61 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
     }
   };
 
+  const updateEditSettings = async (settings: ResponseEditSettings) => {
+    if (!form) return;
+
+    try {
+      const { error } = await supabase
+        .from('forms')
+        .update(settings)
+        .eq('id', form.id);
+
+      if (error) throw error;
+
+      setForm({ ...form, ...settings });
+    } catch (err: any) {
+      console.error('Error updating form:', err);
+      alert('Failed to update response editing');
+    }
+  };
+
+  const saveSchedule = async () => {
+    if (!form) return;
+
+    setIsSavingSchedule(true);
+    setScheduleError('');
+
+    try {
+      const settings: FormSchedule = {
+        opens_at: fromDateTimeInput(schedule.opensAt),
+        closes_at: fromDateTimeInput(schedule.closesAt),
+        max_responses: schedule.maxResponses ? parseInt(schedule.maxResponses, 10) : null,
+        closed_message: schedule.closedMessage.trim() || null
+      };
+
+      if (settings.opens_at && settings.closes_at && settings.closes_at <= settings.opens_at) {
+        throw new Error('The form must close after it opens');
+      }
+      if (settings.max_responses !== null && !(settings.max_responses! > 0)) {
+        throw new Error('The maximum number of responses must be at least 1');
+      }
+
+      const { error } = await supabase
+        .from('forms')
+        .update(settings)
+        .eq('id', form.id);
+
+      if (error) throw error;
+
+      setForm({ ...form, ...settings });
+    } catch (err: any) {
+      console.error('Error updating form:', err);
+      setScheduleError(err.message);
+    } finally {
+      setIsSavingSchedule(false);
+    }
+  };
+
   const deleteForm = async () => {
     if (!form) return;
     
@@ -159,46 +252,9 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    
-    if (isSubmitting) return;
-    
-    setIsSubmitting(true);
-    setSubmitError(null);
-    
-    try {
-      // Validate required fields
-      const requiredFields = form?.fields.filter(field => field.required) || [];
-      for (const field of requiredFields) {
-        if (!formValues[field.id] && formValues[field.id] !== 0) {
-          throw new Error(`${field.label} is required`);
-        }
-      }
-      
-      // Submit form response
-      const { error } = await supabase
-        .from('form_responses')
-        .insert([
-          {
-            form_id: formId,
-            data: formValues,
-            respondent_email: userEmail,
-            submitted_at: new Date().toISOString()
-          }
-        ]);
-      
-      if (error) throw error;
-      
-      setIsSubmitted(true);
-      setFormValues({});
-    } catch (error: any) {
-      console.error('Error submitting form:', error);
-      setSubmitError(error.message);
-    } finally {
-      setIsSubmitting(false);
-    }
-  };
+  // The preview is not filled in, so it shows the fields respondents see before answering;
+  // responses are submitted from the form's public page, which shows the server's errors by field
+  const hiddenFieldIds = getHiddenFieldIds(form?.fields || [], {});
 
   if (loading) {
     return (
@@ -229,6 +285,9 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
     return <div>Form not found</div>;
   }
 
+  const formStatus = getFormStatus(form, responseCount);
+  const scheduleSummary = describeFormSchedule(form, formStatus, responseCount);
+
   return (
     <div className="space-y-6">
       {/* Form Header */}
@@ -311,6 +370,127 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
         </div>
       </div>
 
+      {/* Schedule & Limits */}
+      {isOwner && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <div className="flex justify-between items-center">
+            <h2 className="text-sm font-medium text-gray-700">Schedule &amp; Limits</h2>
+            <div className="text-xs text-gray-500">
+              <FormStatusBadge form={form} responseCount={responseCount} />
+              {scheduleSummary && <span className="ml-2">{scheduleSummary}</span>}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <label className="block text-xs text-gray-600">
+              Opens at
+              <input
+                type="datetime-local"
+                value={schedule.opensAt}
+                onChange={(e) => setSchedule({ ...schedule, opensAt: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Closes at
+              <input
+                type="datetime-local"
+                value={schedule.closesAt}
+                onChange={(e) => setSchedule({ ...schedule, closesAt: e.target.value })}
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Maximum responses
+              <input
+                type="number"
+                min={1}
+                value={schedule.maxResponses}
+                onChange={(e) => setSchedule({ ...schedule, maxResponses: e.target.value })}
+                placeholder="No limit"
+                className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              />
+            </label>
+          </div>
+          <label className="block text-xs text-gray-600">
+            Message when the form is closed
+            <textarea
+              value={schedule.closedMessage}
+              onChange={(e) => setSchedule({ ...schedule, closedMessage: e.target.value })}
+              maxLength={MAX_CLOSED_MESSAGE_LENGTH}
+              rows={2}
+              placeholder="e.g. Registration is closed. See you next year!"
+              className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          {scheduleError && <p className="text-sm text-red-600">{scheduleError}</p>}
+          <button
+            type="button"
+            onClick={saveSchedule}
+            disabled={isSavingSchedule}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isSavingSchedule ? 'Saving...' : 'Save Schedule'}
+          </button>
+        </div>
+      )}
+
+      {/* Response Editing */}
+      {isOwner && (
+        <div className="bg-white rounded-lg shadow p-4 space-y-3">
+          <h2 className="text-sm font-medium text-gray-700">Response Editing</h2>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!form.allow_response_edits}
+              onChange={(e) => updateEditSettings({ allow_response_edits: e.target.checked })}
+              className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+            />
+            Give respondents a link to change their response after submitting
+          </label>
+          {form.allow_response_edits && (
+            <>
+              <label className="flex items-center text-sm text-gray-700">
+                Edit links work for
+                <input
+                  type="number"
+                  min={1}
+                  max={MAX_EDIT_LINK_DAYS}
+                  defaultValue={form.edit_link_days || DEFAULT_EDIT_LINK_DAYS}
+                  onBlur={(e) => {
+                    const days = parseInt(e.target.value, 10);
+                    if (days > 0 && days !== form.edit_link_days) {
+                      updateEditSettings({ edit_link_days: Math.min(days, MAX_EDIT_LINK_DAYS) });
+                    }
+                  }}
+                  className="mx-2 w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                />
+                days after submitting
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!form.responses_locked}
+                  onChange={(e) => updateEditSettings({ responses_locked: e.target.checked })}
+                  className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+                />
+                Lock responses (edit links stop working)
+              </label>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Prefilled Links */}
+      {isOwner && (
+        <details className="bg-white rounded-lg shadow p-4">
+          <summary className="text-sm font-medium text-gray-700 cursor-pointer">Prefilled Links</summary>
+          <p className="mt-1 mb-3 text-xs text-gray-500">
+            Links that fill in answers for the respondent, e.g. from your CRM. Hidden fields get their values this way.
+          </p>
+          <PrefillLinkBuilder formId={formId} fields={answerableFields(form.fields)} shareUrl={shareUrl} />
+        </details>
+      )}
+
       {/* Form Preview */}
       <div className="bg-white rounded-lg shadow overflow-hidden">
         <div className="px-6 py-4 bg-gray-50 border-b">
@@ -324,7 +504,16 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
             {form.description && <p className="text-gray-600 mb-6">{form.description}</p>}
             
             <div className="space-y-6">
-              {form.fields.map((field) => (
+              {form.fields.filter(field => !hiddenFieldIds.has(field.id)).map((field) => isLayoutField(field) ? (
+                // Respondents see one page at a time; the preview shows where the pages start
+                <div key={field.id} className={field.type === 'page_break' ? 'pt-2 border-t-2 border-dashed border-gray-300' : 'pt-2'}>
+                  {field.type === 'page_break' && (
+                    <p className="text-xs font-semibold uppercase tracking-wider text-gray-400 mb-1">New page</p>
+                  )}
+                  {field.label && <h4 className="text-lg font-semibold">{field.label}</h4>}
+                  {field.description && <p className="mt-1 text-sm text-gray-600 whitespace-pre-line">{field.description}</p>}
+                </div>
+              ) : (
                 <div key={field.id} className="border-b border-gray-200 pb-4 last:border-b-0">
                   <label className="block text-sm font-medium mb-1">
                     {field.label}
@@ -425,6 +614,51 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
                       disabled
                     />
                   )}
+
+                  {field.type === 'phone' && (
+                    <PhoneInput value="" onChange={() => {}} placeholder={field.placeholder} disabled />
+                  )}
+
+                  {field.type === 'url' && (
+                    <input
+                      type="text"
+                      inputMode="url"
+                      placeholder={field.placeholder}
+                      defaultValue={field.defaultValue as string}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      disabled
+                    />
+                  )}
+
+                  {field.type === 'address' && (
+                    <AddressInput value={null} onChange={() => {}} disabled />
+                  )}
+
+                  {field.type === 'group' && (
+                    <GroupInput field={field} value={[emptyEntry(field)]} onChange={() => {}} disabled />
+                  )}
+
+                  {field.type === 'hidden' && (
+                    <div className="w-full px-3 py-2 border border-dashed border-gray-300 rounded-md text-sm text-gray-400">
+                      Hidden from respondents; filled in from the link with ?{prefillParamName(field)}=
+                    </div>
+                  )}
+
+                  {field.type === 'calculated' && (
+                    <div className="w-full px-3 py-2 border border-gray-200 rounded-md bg-gray-50 text-sm text-gray-500 font-mono">
+                      {getCalculation(field).formula || 'No formula yet'}
+                    </div>
+                  )}
+
+                  {isRatingField(field) && (
+                    <RatingInput type={field.type} scale={getFieldScale(field)} value={null} disabled />
+                  )}
+
+                  {field.type === 'signature' && (
+                    <div className="w-full h-24 flex items-center justify-center border border-dashed border-gray-300 rounded-md bg-gray-50 text-sm text-gray-400">
+                      Draw or type a signature
+                    </div>
+                  )}
                 </div>
               ))}
               
@@ -454,7 +688,7 @@ export default function FormViewer({ formId, isOwner = false }: { formId: string
           
           <div className="bg-green-50 p-4 rounded-lg">
             <p className="text-sm text-green-600 font-medium">Fields</p>
-            <p className="text-2xl font-bold">{form.fields.length}</p>
+            <p className="text-2xl font-bold">{answerableFields(form.fields).length}</p>
           </div>
           
           <div className="bg-purple-50 p-4 rounded-lg">
@@ -0,0 +1,111 @@
+'use client';
+
+import { GroupField, emptyEntry, getGroupFields, getRepeatLimits } from '@/lib/repeatingGroups';
+import PhoneInput from '@/components/forms/PhoneInput';
+
+interface GroupInputProps {
+  field: GroupField;
+  value: Record<string, any>[];
+  onChange: (entries: Record<string, any>[]) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md';
+
+/**
+ * Input for repeating groups: the group's child fields once per entry, with buttons to
+ * add and remove entries within the group's limits. A group that needs entries starts
+ * with that many empty ones.
+ */
+export default function GroupInput({ field, value, onChange, disabled = false }: GroupInputProps) {
+  const children = getGroupFields(field);
+  const { min, max, entryLabel } = getRepeatLimits(field);
+  const entries = value.length > 0 ? value : Array.from({ length: min }, () => emptyEntry(field));
+
+  const updateEntry = (index: number, childId: string, answer: any) => {
+    onChange(entries.map((entry, i) => (i === index ? { ...entry, [childId]: answer } : entry)));
+  };
+
+  const addEntry = () => onChange([...entries, emptyEntry(field)]);
+
+  const removeEntry = (index: number) => onChange(entries.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-3">
+      {entries.map((entry, index) => (
+        // Keyed by the number of entries too, so inputs with their own state start over when one is removed
+        <div key={`${entries.length}-${index}`} className="p-3 border border-gray-200 rounded-md bg-gray-50">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">{entryLabel} {index + 1}</span>
+            {!disabled && entries.length > min && (
+              <button type="button" onClick={() => removeEntry(index)} className="text-xs text-red-600 hover:underline">
+                Remove
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {children.map(child => (
+              <div key={child.id} className={child.type === 'textarea' ? 'sm:col-span-2' : ''}>
+                <label className="block text-xs text-gray-600 mb-1">
+                  {child.label}
+                  {child.required && <span className="text-red-500 ml-1">*</span>}
+                </label>
+
+                {child.type === 'textarea' ? (
+                  <textarea
+                    value={entry[child.id] || ''}
+                    onChange={(e) => updateEntry(index, child.id, e.target.value)}
+                    placeholder={child.placeholder || undefined}
+                    rows={2}
+                    disabled={disabled}
+                    className={inputClassName}
+                  />
+                ) : child.type === 'select' ? (
+                  <select
+                    value={entry[child.id] || ''}
+                    onChange={(e) => updateEntry(index, child.id, e.target.value)}
+                    disabled={disabled}
+                    className={inputClassName}
+                  >
+                    <option value="">Select an option</option>
+                    {(child.options || []).map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                ) : child.type === 'phone' ? (
+                  <PhoneInput
+                    value={entry[child.id] || ''}
+                    onChange={(phone) => updateEntry(index, child.id, phone)}
+                    placeholder={child.placeholder || undefined}
+                    disabled={disabled}
+                  />
+                ) : (
+                  <input
+                    type={child.type === 'url' ? 'text' : child.type}
+                    inputMode={child.type === 'url' ? 'url' : undefined}
+                    value={entry[child.id] || ''}
+                    onChange={(e) => updateEntry(index, child.id, e.target.value)}
+                    placeholder={child.placeholder || undefined}
+                    disabled={disabled}
+                    className={inputClassName}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {!disabled && entries.length < max && (
+        <button
+          type="button"
+          onClick={addEntry}
+          className="px-3 py-1 text-sm border border-blue-500 text-blue-700 rounded-md hover:bg-blue-50"
+        >
+          + Add {entries.length > 0 ? 'another ' : ''}{entryLabel.toLowerCase()}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { PHONE_COUNTRIES, splitPhoneNumber, toE164 } from '@/lib/contactFields';
+
+interface PhoneInputProps {
+  /** The number in E.164 format, or an empty string */
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  required?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * Input for phone fields: a country calling code and the number as the respondent
+ * knows it. The answer is the full number in E.164 format, e.g. +14155552671.
+ */
+export default function PhoneInput({ value, onChange, placeholder, required, disabled = false }: PhoneInputProps) {
+  const [initial] = useState(() => splitPhoneNumber(value || ''));
+  const [countryCode, setCountryCode] = useState(initial.country.code);
+  const [nationalNumber, setNationalNumber] = useState(initial.nationalNumber);
+
+  const dialCode = (code: string) => PHONE_COUNTRIES.find(country => country.code === code)?.dialCode || PHONE_COUNTRIES[0].dialCode;
+
+  const handleCountry = (code: string) => {
+    setCountryCode(code);
+    onChange(toE164(dialCode(code), nationalNumber));
+  };
+
+  const handleNumber = (number: string) => {
+    setNationalNumber(number);
+    onChange(toE164(dialCode(countryCode), number));
+  };
+
+  return (
+    <div className="flex space-x-2">
+      <select
+        value={countryCode}
+        onChange={(e) => handleCountry(e.target.value)}
+        disabled={disabled}
+        aria-label="Country code"
+        className="w-40 px-2 py-2 border border-gray-300 rounded-md bg-white"
+      >
+        {PHONE_COUNTRIES.map(country => (
+          <option key={country.code} value={country.code}>
+            {country.name} (+{country.dialCode})
+          </option>
+        ))}
+      </select>
+      <input
+        type="tel"
+        autoComplete="tel-national"
+        value={nationalNumber}
+        onChange={(e) => handleNumber(e.target.value)}
+        placeholder={placeholder}
+        required={required}
+        disabled={disabled}
+        className="flex-1 min-w-0 px-3 py-2 border border-gray-300 rounded-md"
+      />
+    </div>
+  );
+}
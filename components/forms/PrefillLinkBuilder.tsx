@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { PREFILLABLE_TYPES, PREFILL_TOKEN_PARAM, PrefillField, isSignedOnly, prefillParamName } from '@/lib/prefill';
+
+interface PrefillLinkBuilderProps {
+  formId: string;
+  fields: Array<PrefillField & { label: string }>;
+  /** The form's link without a query string */
+  shareUrl: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm';
+
+/**
+ * Builds links that prefill answers of a form, for sending from other systems. Plain
+ * links put the answers in the query string; signed links carry them in a token the
+ * server checks, so respondents can't change them.
+ */
+export default function PrefillLinkBuilder({ formId, fields, shareUrl }: PrefillLinkBuilderProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [signed, setSigned] = useState(false);
+  const [expiresInDays, setExpiresInDays] = useState('30');
+  const [signedLink, setSignedLink] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  const prefillableFields = fields.filter(field => PREFILLABLE_TYPES.includes(field.type || 'text'));
+  const filledIn = prefillableFields.filter(field => values[field.id]?.trim());
+
+  // Fields that only take signed values are left out of plain links
+  const params = new URLSearchParams();
+  filledIn.filter(field => !isSignedOnly(field)).forEach(field => params.set(prefillParamName(field), values[field.id].trim()));
+  const plainLink = params.toString() ? `${shareUrl}?${params.toString()}` : shareUrl;
+  const link = signed ? signedLink : plainLink;
+
+  const updateValue = (fieldId: string, value: string) => {
+    setValues(prev => ({ ...prev, [fieldId]: value }));
+    setSignedLink('');
+  };
+
+  const createSignedLink = async () => {
+    setCreating(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/forms/${formId}/prefill-links`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          values: Object.fromEntries(filledIn.map(field => [field.id, values[field.id].trim()])),
+          expires_in_days: expiresInDays ? Number(expiresInDays) : null
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.error || 'Failed to create link');
+
+      setSignedLink(`${shareUrl}?${PREFILL_TOKEN_PARAM}=${result.token}`);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(link);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (prefillableFields.length === 0) {
+    return <p className="text-sm text-gray-500">This form has no fields that can be prefilled.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {prefillableFields.map(field => {
+          const options = field.options || field.metadata?.options || [];
+          return (
+            <div key={field.id}>
+              <label className="block text-xs text-gray-600 mb-1">
+                {field.label || 'Untitled Field'}
+                {field.type === 'hidden' && <span className="ml-1 text-gray-400">(hidden)</span>}
+                {isSignedOnly(field) && <span className="ml-1 text-gray-400">(signed links only)</span>}
+              </label>
+              {(field.type === 'select' || field.type === 'radio') ? (
+                <select value={values[field.id] || ''} onChange={(e) => updateValue(field.id, e.target.value)} className={inputClassName}>
+                  <option value="">Not prefilled</option>
+                  {options.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type="text"
+                  value={values[field.id] || ''}
+                  onChange={(e) => updateValue(field.id, e.target.value)}
+                  placeholder={field.type === 'checkbox' || field.type === 'multiselect' ? 'Options, separated by commas' : `?${prefillParamName(field)}=`}
+                  className={inputClassName}
+                />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={signed}
+            onChange={(e) => setSigned(e.target.checked)}
+            className="h-4 w-4 mr-2 text-blue-600 border-gray-300 rounded"
+          />
+          Signed link (respondents can&apos;t change the prefilled answers)
+        </label>
+        {signed && (
+          <label className="flex items-center text-sm text-gray-700">
+            Expires after
+            <input
+              type="number"
+              min={1}
+              value={expiresInDays}
+              onChange={(e) => {
+                setExpiresInDays(e.target.value);
+                setSignedLink('');
+              }}
+              placeholder="Never"
+              className="mx-2 w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+            days
+          </label>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {signed && !signedLink ? (
+        <button
+          type="button"
+          onClick={createSignedLink}
+          disabled={creating || filledIn.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md text-sm font-medium hover:bg-blue-700 disabled:opacity-50"
+        >
+          {creating ? 'Creating...' : 'Create Signed Link'}
+        </button>
+      ) : (
+        <div className="flex">
+          <input type="text" readOnly value={link} className="flex-1 px-3 py-2 border border-gray-300 rounded-l-md bg-gray-50 text-sm" />
+          <button
+            type="button"
+            onClick={copyLink}
+            className={`px-4 py-2 rounded-r-md text-sm font-medium ${copied ? 'bg-green-500 text-white' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+          >
+            {copied ? 'Copied!' : 'Copy Link'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
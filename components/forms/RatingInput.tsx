@@ -0,0 +1,86 @@
+'use client';
+
+import { useState } from 'react';
+import { FieldScale } from '@/lib/ratingFields';
+
+interface RatingInputProps {
+  /** `rating` shows stars; `scale` and `nps` show a row of numbers */
+  type: string;
+  scale: FieldScale;
+  value: number | null;
+  onChange?: (value: number | null) => void;
+  disabled?: boolean;
+}
+
+const STAR_PATH = 'M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z';
+
+/**
+ * Input for rating, linear scale and NPS fields. Choosing the selected value again
+ * clears the answer.
+ */
+export default function RatingInput({ type, scale, value, onChange, disabled = false }: RatingInputProps) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const values = Array.from({ length: scale.max - scale.min + 1 }, (_, index) => scale.min + index);
+
+  const choose = (choice: number) => {
+    if (!disabled) onChange?.(choice === value ? null : choice);
+  };
+
+  if (type === 'rating') {
+    const shown = hovered ?? value ?? 0;
+    return (
+      <div className="flex items-center space-x-1" role="radiogroup" onMouseLeave={() => setHovered(null)}>
+        {values.map(star => (
+          <button
+            key={star}
+            type="button"
+            role="radio"
+            aria-checked={value === star}
+            aria-label={`${star} of ${scale.max} stars`}
+            onClick={() => choose(star)}
+            onMouseEnter={() => !disabled && setHovered(star)}
+            disabled={disabled}
+            className={`${star <= shown ? 'text-yellow-400' : 'text-gray-300'} ${disabled ? '' : 'hover:text-yellow-400'}`}
+          >
+            <svg className="w-8 h-8" fill="currentColor" viewBox="0 0 20 20" xmlns="http://www.w3.org/2000/svg">
+              <path d={STAR_PATH} />
+            </svg>
+          </button>
+        ))}
+        {value !== null && (
+          <span className="ml-2 text-sm text-gray-500">{value} / {scale.max}</span>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-xl">
+      <div className="flex space-x-1" role="radiogroup">
+        {values.map(point => (
+          <button
+            key={point}
+            type="button"
+            role="radio"
+            aria-checked={value === point}
+            onClick={() => choose(point)}
+            disabled={disabled}
+            className={`flex-1 min-w-0 py-2 text-sm font-medium border rounded-md transition-colors ${
+              value === point
+                ? 'bg-blue-600 border-blue-600 text-white'
+                : `bg-white border-gray-300 text-gray-700 ${disabled ? '' : 'hover:bg-blue-50 hover:border-blue-400'}`
+            }`}
+          >
+            {point}
+          </button>
+        ))}
+      </div>
+      {(scale.minLabel || scale.maxLabel) && (
+        <div className="mt-1 flex justify-between text-xs text-gray-500">
+          <span>{scale.minLabel}</span>
+          <span>{scale.maxLabel}</span>
+        </div>
+      )}
+    </div>
+  );
+}
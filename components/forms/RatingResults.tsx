@@ -0,0 +1,67 @@
+'use client';
+
+import { RatingField, getFieldScale, isRatingField, summarizeRatings } from '@/lib/ratingFields';
+
+interface RatingResultsProps {
+  fields: Array<RatingField & { id: string; label: string }>;
+  responses: Array<{ data: Record<string, any> }>;
+}
+
+/**
+ * Combined results of the rating, linear scale and NPS fields of a form: the average
+ * answer, how often each value was chosen and, for NPS questions, the score.
+ */
+export default function RatingResults({ fields, responses }: RatingResultsProps) {
+  const ratingFields = fields.filter(isRatingField);
+  if (ratingFields.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-4">Ratings</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {ratingFields.map(field => {
+          const scale = getFieldScale(field);
+          const summary = summarizeRatings(field, responses.map(response => response.data?.[field.id]));
+          const mostChosen = Math.max(1, ...summary.distribution.map(entry => entry.count));
+
+          return (
+            <div key={field.id}>
+              <h3 className="font-medium text-gray-900 dark:text-white">{field.label}</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-2">
+                {summary.average === null
+                  ? 'No answers yet'
+                  : `Average ${summary.average.toFixed(1)} of ${scale.max} · ${summary.count} answer${summary.count === 1 ? '' : 's'}`}
+              </p>
+
+              {summary.nps && summary.count > 0 && (
+                <div className="mb-3 flex items-baseline gap-3">
+                  <span className={`text-2xl font-bold ${summary.nps.score >= 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                    NPS {summary.nps.score > 0 ? '+' : ''}{summary.nps.score}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {summary.nps.promoters}% promoters · {summary.nps.passives}% passives · {summary.nps.detractors}% detractors
+                  </span>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                {summary.distribution.map(entry => (
+                  <div key={entry.value} className="flex items-center gap-2 text-xs">
+                    <span className="w-5 text-right text-gray-600 dark:text-gray-300">{entry.value}</span>
+                    <div className="flex-1 h-3 bg-gray-100 dark:bg-gray-700 rounded">
+                      <div
+                        className="h-3 bg-blue-500 rounded"
+                        style={{ width: `${(entry.count / mostChosen) * 100}%` }}
+                      />
+                    </div>
+                    <span className="w-6 text-gray-500 dark:text-gray-400">{entry.count}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { SignatureMethod, SignatureValue } from '@/lib/signatures';
+
+interface SignatureInputProps {
+  value: SignatureValue | null;
+  onChange: (signature: SignatureValue | null) => void;
+}
+
+const CANVAS_WIDTH = 600;
+const CANVAS_HEIGHT = 200;
+const SCRIPT_FONT = '"Brush Script MT", "Segoe Script", "Lucida Handwriting", "Apple Chancery", cursive';
+
+/**
+ * Draws a typed name in a script font and returns it as a PNG data URL
+ */
+const renderTypedSignature = (name: string): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = CANVAS_WIDTH;
+  canvas.height = CANVAS_HEIGHT;
+  const context = canvas.getContext('2d')!;
+
+  // Long names are drawn smaller so they still fit
+  let fontSize = 72;
+  context.font = `${fontSize}px ${SCRIPT_FONT}`;
+  while (fontSize > 24 && context.measureText(name).width > CANVAS_WIDTH - 40) {
+    fontSize -= 4;
+    context.font = `${fontSize}px ${SCRIPT_FONT}`;
+  }
+
+  context.fillStyle = '#111827';
+  context.textBaseline = 'middle';
+  context.textAlign = 'center';
+  context.fillText(name, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+  return canvas.toDataURL('image/png');
+};
+
+/**
+ * Input for signature fields. Respondents draw their signature with the mouse, a pen
+ * or a finger, or type their name, which is shown in a script font. Either way the
+ * answer is a PNG image with the time of signing.
+ */
+export default function SignatureInput({ value, onChange }: SignatureInputProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+  const [method, setMethod] = useState<SignatureMethod>(value?.method || 'drawn');
+  const [typedName, setTypedName] = useState(value?.method === 'typed' ? value.name || '' : '');
+
+  // Shows a signature drawn earlier, e.g. after going back to a previous page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (method !== 'drawn' || !canvas || value?.method !== 'drawn') return;
+
+    const image = new Image();
+    image.onload = () => canvas.getContext('2d')?.drawImage(image, 0, 0);
+    image.src = value.image;
+  }, [method]);
+
+  const pointerPosition = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * CANVAS_WIDTH,
+      y: ((e.clientY - rect.top) / rect.height) * CANVAS_HEIGHT
+    };
+  };
+
+  const startStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = e.currentTarget.getContext('2d');
+    if (!context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drawing.current = true;
+    const { x, y } = pointerPosition(e);
+    context.lineWidth = 3;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const continueStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = e.currentTarget.getContext('2d');
+    const { x, y } = pointerPosition(e);
+    context?.lineTo(x, y);
+    context?.stroke();
+  };
+
+  const endStroke = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange({
+      image: e.currentTarget.toDataURL('image/png'),
+      method: 'drawn',
+      signed_at: new Date().toISOString()
+    });
+  };
+
+  const handleTypedName = (name: string) => {
+    setTypedName(name);
+    onChange(name.trim()
+      ? { image: renderTypedSignature(name.trim()), method: 'typed', name: name.trim(), signed_at: new Date().toISOString() }
+      : null);
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+    setTypedName('');
+    onChange(null);
+  };
+
+  const switchMethod = (next: SignatureMethod) => {
+    if (next === method) return;
+    setMethod(next);
+    setTypedName('');
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <div className="mb-2 flex space-x-2 text-sm">
+        {(['drawn', 'typed'] as SignatureMethod[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => switchMethod(option)}
+            className={`px-3 py-1 rounded-md border ${
+              method === option ? 'bg-blue-50 border-blue-500 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {option === 'drawn' ? 'Draw' : 'Type'}
+          </button>
+        ))}
+      </div>
+
+      {method === 'drawn' ? (
+        <canvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          onPointerDown={startStroke}
+          onPointerMove={continueStroke}
+          onPointerUp={endStroke}
+          onPointerCancel={endStroke}
+          className="w-full max-w-xl border border-gray-300 rounded-md bg-white cursor-crosshair touch-none"
+          style={{ aspectRatio: `${CANVAS_WIDTH} / ${CANVAS_HEIGHT}` }}
+          aria-label="Draw your signature"
+        />
+      ) : (
+        <div className="max-w-xl">
+          <input
+            type="text"
+            value={typedName}
+            onChange={(e) => handleTypedName(e.target.value)}
+            placeholder="Type your full name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md"
+          />
+          {typedName.trim() && (
+            <p className="mt-2 px-3 py-2 border border-gray-200 rounded-md bg-white text-4xl text-gray-900 truncate" style={{ fontFamily: SCRIPT_FONT }}>
+              {typedName}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="mt-1 flex items-center justify-between max-w-xl text-xs text-gray-500">
+        <span>
+          {value
+            ? `Signed ${new Date(value.signed_at).toLocaleString()}`
+            : method === 'drawn' ? 'Sign in the box above' : 'Your typed name is used as your signature'}
+        </span>
+        {value && (
+          <button type="button" onClick={clear} className="text-red-600 hover:underline">
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
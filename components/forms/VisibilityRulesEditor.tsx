@@ -0,0 +1,194 @@
+'use client';
+
+import {
+  VISIBILITY_OPERATORS,
+  VisibilityCondition,
+  VisibilityGroup,
+  VisibilityMatch,
+  VisibilityRules
+} from '@/lib/fieldVisibility';
+
+interface OtherField {
+  id: string;
+  label: string;
+  type?: string;
+  options?: string[];
+}
+
+interface VisibilityRulesEditorProps {
+  value: VisibilityRules | null;
+  onChange: (rules: VisibilityRules | null) => void;
+  /** The fields the conditions can refer to */
+  otherFields: OtherField[];
+}
+
+const controlClassName = 'px-2 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 bg-white dark:bg-gray-800 text-gray-900 dark:text-white';
+
+/**
+ * Editor for the "show this field when ..." rules of a field, with AND/OR groups of conditions
+ */
+export default function VisibilityRulesEditor({ value, onChange, otherFields }: VisibilityRulesEditorProps) {
+  const newCondition = (): VisibilityCondition => ({ field_id: otherFields[0]?.id || '', operator: 'equals', value: '' });
+  const newGroup = (): VisibilityGroup => ({ match: 'all', conditions: [newCondition()] });
+
+  const updateGroup = (groupIndex: number, group: VisibilityGroup | null) => {
+    if (!value) return;
+    const groups = group
+      ? value.groups.map((existing, index) => (index === groupIndex ? group : existing))
+      : value.groups.filter((_, index) => index !== groupIndex);
+    onChange(groups.length > 0 ? { ...value, groups } : null);
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, condition: VisibilityCondition | null) => {
+    if (!value) return;
+    const group = value.groups[groupIndex];
+    const conditions = condition
+      ? group.conditions.map((existing, index) => (index === conditionIndex ? condition : existing))
+      : group.conditions.filter((_, index) => index !== conditionIndex);
+    updateGroup(groupIndex, conditions.length > 0 ? { ...group, conditions } : null);
+  };
+
+  const matchSelect = (match: VisibilityMatch, onMatchChange: (match: VisibilityMatch) => void) => (
+    <select
+      value={match}
+      onChange={(e) => onMatchChange(e.target.value as VisibilityMatch)}
+      className={controlClassName}
+    >
+      <option value="all">all</option>
+      <option value="any">any</option>
+    </select>
+  );
+
+  if (otherFields.length === 0) {
+    return (
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Add more fields to the form to show this field depending on their answers.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <select
+        value={value ? 'conditional' : 'always'}
+        onChange={(e) => onChange(e.target.value === 'always' ? null : { match: 'any', groups: [newGroup()] })}
+        className={`${controlClassName} w-full`}
+      >
+        <option value="always">Always show this field</option>
+        <option value="conditional">Only show this field when...</option>
+      </select>
+
+      {value && (
+        <>
+          {value.groups.length > 1 && (
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              Show when {matchSelect(value.match, match => onChange({ ...value, match }))} of these groups match
+            </div>
+          )}
+
+          {value.groups.map((group, groupIndex) => (
+            <div key={groupIndex} className="p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-750 space-y-2">
+              <div className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                <span className="flex items-center gap-2">
+                  {groupIndex > 0 && (
+                    <span className="text-xs font-semibold uppercase text-blue-600 dark:text-blue-400">
+                      {value.match === 'all' ? 'and' : 'or'}
+                    </span>
+                  )}
+                  Match {matchSelect(group.match, match => updateGroup(groupIndex, { ...group, match }))} of:
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateGroup(groupIndex, null)}
+                  className="text-xs text-red-600 dark:text-red-400 hover:underline"
+                >
+                  Remove group
+                </button>
+              </div>
+
+              {group.conditions.map((condition, conditionIndex) => {
+                const target = otherFields.find(field => field.id === condition.field_id);
+                const operator = VISIBILITY_OPERATORS.find(option => option.value === condition.operator);
+
+                return (
+                  <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+                    <select
+                      value={condition.field_id}
+                      onChange={(e) => updateCondition(groupIndex, conditionIndex, { ...condition, field_id: e.target.value, value: '' })}
+                      className={`${controlClassName} flex-1 min-w-[8rem]`}
+                    >
+                      {!target && <option value={condition.field_id}>(deleted field)</option>}
+                      {otherFields.map(field => (
+                        <option key={field.id} value={field.id}>{field.label || 'Untitled Field'}</option>
+                      ))}
+                    </select>
+
+                    <select
+                      value={condition.operator}
+                      onChange={(e) => updateCondition(groupIndex, conditionIndex, { ...condition, operator: e.target.value as VisibilityCondition['operator'] })}
+                      className={controlClassName}
+                    >
+                      {VISIBILITY_OPERATORS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+
+                    {operator?.needsValue && (
+                      target?.options && target.options.length > 0 ? (
+                        <select
+                          value={condition.value ?? ''}
+                          onChange={(e) => updateCondition(groupIndex, conditionIndex, { ...condition, value: e.target.value })}
+                          className={`${controlClassName} flex-1 min-w-[8rem]`}
+                        >
+                          <option value="">Select a value</option>
+                          {target.options.map(option => (
+                            <option key={option} value={option}>{option}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          type={target?.type === 'date' ? 'date' : target?.type === 'number' ? 'number' : 'text'}
+                          value={condition.value ?? ''}
+                          onChange={(e) => updateCondition(groupIndex, conditionIndex, { ...condition, value: e.target.value })}
+                          placeholder="Value"
+                          className={`${controlClassName} flex-1 min-w-[8rem]`}
+                        />
+                      )
+                    )}
+
+                    <button
+                      type="button"
+                      onClick={() => updateCondition(groupIndex, conditionIndex, null)}
+                      className="p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                      title="Remove condition"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                );
+              })}
+
+              <button
+                type="button"
+                onClick={() => updateGroup(groupIndex, { ...group, conditions: [...group.conditions, newCondition()] })}
+                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                + Add condition
+              </button>
+            </div>
+          ))}
+
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, groups: [...value.groups, newGroup()] })}
+            className="px-2 py-1 text-xs bg-blue-100 dark:bg-blue-900/30 hover:bg-blue-200 dark:hover:bg-blue-800/40 text-blue-700 dark:text-blue-300 rounded-md transition-colors"
+          >
+            + Add group
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
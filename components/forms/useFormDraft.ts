@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import {
+  DRAFT_TOKEN_PARAM,
+  FormDraft,
+  clearLocalDraft,
+  deleteServerDraft,
+  draftExpiry,
+  fetchServerDraft,
+  loadLocalDraft,
+  saveLocalDraft,
+  saveServerDraft
+} from '@/lib/formDrafts';
+
+// Server saves wait until the respondent pauses typing
+const SERVER_SAVE_DELAY_MS = 2000;
+
+/**
+ * Saves drafts of a response while it is filled in (see lib/formDrafts.ts). Drafts are
+ * saved in the browser on every change, and on the server as well for signed in
+ * respondents or once a resume link was created.
+ * @param formId The ID of the form
+ * @param values The answers so far
+ * @param page The index of the page the respondent is on
+ * @param ready Whether the form is loaded and the values are restored; changes before are not saved
+ */
+export default function useFormDraft(formId: string, values: Record<string, any>, page: number, ready: boolean) {
+  const [draftToken, setDraftToken] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [savedOnServer, setSavedOnServer] = useState(false);
+  const [signedIn, setSignedIn] = useState(false);
+  const [resumeUrl, setResumeUrl] = useState('');
+  const [savingForLater, setSavingForLater] = useState(false);
+  const [draftError, setDraftError] = useState('');
+  // The values last saved, so restoring or re-rendering doesn't save again
+  const lastSaved = useRef<string | null>(null);
+  const finished = useRef(false);
+
+  const keepDraft = (draft: FormDraft, onServer: boolean) => {
+    setDraftToken(draft.token || null);
+    setSavedAt(draft.saved_at);
+    setSavedOnServer(onServer);
+    saveLocalDraft(formId, draft);
+  };
+
+  const saveToServer = async () => {
+    const draft = await saveServerDraft(formId, values, page, draftToken);
+    keepDraft(draft, true);
+    return draft;
+  };
+
+  /**
+   * Finds the draft to continue with: the one in the resume link, or else the newest of
+   * the browser's draft and the signed in respondent's draft on the server
+   */
+  const restore = async (): Promise<FormDraft | null> => {
+    const token = new URLSearchParams(window.location.search).get(DRAFT_TOKEN_PARAM);
+    const { data: { user } } = await supabase.auth.getUser();
+    setSignedIn(!!user);
+
+    let serverDraft: FormDraft | null = null;
+    if (token || user) {
+      try {
+        serverDraft = await fetchServerDraft(formId, token);
+      } catch (err: any) {
+        setDraftError(err.message);
+      }
+    }
+
+    const localDraft = loadLocalDraft(formId);
+    const draft = token && serverDraft
+      ? serverDraft
+      : [localDraft, serverDraft]
+        .filter((candidate): candidate is FormDraft => !!candidate)
+        .sort((a, b) => Date.parse(b.saved_at) - Date.parse(a.saved_at))[0] || null;
+
+    if (draft) {
+      setDraftToken(draft.token || null);
+      setSavedAt(draft.saved_at);
+      setSavedOnServer(draft === serverDraft);
+    }
+    return draft;
+  };
+
+  useEffect(() => {
+    if (!ready || finished.current) return;
+
+    const serialized = JSON.stringify({ values, page });
+    if (lastSaved.current === null || lastSaved.current === serialized) {
+      lastSaved.current = serialized;
+      return;
+    }
+    lastSaved.current = serialized;
+
+    const now = new Date();
+    keepDraft({ data: values, page, saved_at: now.toISOString(), expires_at: draftExpiry(now), token: draftToken }, false);
+
+    if (!signedIn && !draftToken) return;
+    const timer = setTimeout(() => {
+      saveToServer().catch(err => setDraftError(err.message));
+    }, SERVER_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [ready, values, page, signedIn, draftToken]);
+
+  /**
+   * Saves the draft on the server and creates a link to continue it later
+   */
+  const saveForLater = async () => {
+    setSavingForLater(true);
+    setDraftError('');
+
+    try {
+      const draft = await saveToServer();
+      const url = new URL(window.location.href);
+      url.searchParams.set(DRAFT_TOKEN_PARAM, draft.token!);
+      setResumeUrl(url.toString());
+    } catch (err: any) {
+      setDraftError(err.message);
+    } finally {
+      setSavingForLater(false);
+    }
+  };
+
+  /**
+   * Stops saving once the response is submitted, and removes the draft from the browser;
+   * the server deletes its copy when it stores the response
+   */
+  const finish = () => {
+    finished.current = true;
+    clearLocalDraft(formId);
+    setSavedAt(null);
+    setResumeUrl('');
+  };
+
+  /**
+   * Throws the draft away, to start over
+   */
+  const discard = async () => {
+    clearLocalDraft(formId);
+    if (draftToken) await deleteServerDraft(formId, draftToken);
+    // The values the page resets to are not a new draft
+    lastSaved.current = null;
+    setDraftToken(null);
+    setSavedAt(null);
+    setSavedOnServer(false);
+    setResumeUrl('');
+  };
+
+  return { restore, saveForLater, finish, discard, draftToken, savedAt, savedOnServer, resumeUrl, savingForLater, draftError };
+}
@@ -1,12 +1,19 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { jsPDF } from 'jspdf';
 import { supabase } from '@/lib/supabase';
+import { renderDocumentText, renderSegments } from '@/lib/templateRenderer';
+import { formatValue, parsePlaceholder } from '@/lib/templateFilters';
+import { normalizeFieldKey } from '@/lib/templateParser';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
+import { generateWordBlob } from '@/lib/wordDocument';
+import { createPdfDocument } from '@/lib/pdfDocument';
+import { splitImages, toPlainText, unescapeMarkup } from '@/lib/documentModel';
 import Select from 'react-select';
 import { 
   FileText, 
   FileDown, 
+  FileType, 
   Edit, 
   Save, 
   X, 
@@ -20,6 +27,9 @@ interface DocumentGeneratorProps {
   templateName: string;
   responseId?: string; // Optional ID of the form response for saving changes
   formFields?: FormField[]; // Add form fields to get field types
+  fieldMapping?: TemplateFieldMapping | null; // Placeholder-to-field bindings stored with the template
+  templateId?: string; // Needed to fill in an uploaded Word template on the server
+  hasWordTemplate?: boolean; // Whether the template has an uploaded .docx document
 }
 
 interface FormField {
@@ -45,7 +55,10 @@ export default function DocumentGenerator({
   formResponses, 
   templateName,
   responseId,
-  formFields = []
+  formFields = [],
+  fieldMapping,
+  templateId,
+  hasWordTemplate = false
 }: DocumentGeneratorProps) {
   const [generating, setGenerating] = useState(false);
   const [error, setError] = useState('');
@@ -61,12 +74,12 @@ export default function DocumentGenerator({
     setEditedResponses({...formResponses});
   }, [formResponses]);
 
-  // Initialize editedText when template content changes
+  // Initialize editedText when template content changes; answers are shown as written, without their escapes
   useEffect(() => {
     if (!isTextEditing) {
-      setEditedText(generateContent() as string);
+      setEditedText(unescapeMarkup(generateContent() as string));
     }
-  }, [templateContent, formResponses, editedResponses]);
+  }, [templateContent, formResponses, editedResponses, fieldMapping]);
 
   // Function to replace template placeholders with form response values
   const generateContent = (forPreview = false): string | ReplacedContent[] => {
@@ -75,130 +88,32 @@ export default function DocumentGenerator({
     // Always use editedResponses to include any user edits to unfilled variables
     const responsesToUse = editedResponses;
     
-    let content = templateContent;
-    const placeholderRegex = /{{([^}]+)}}/g;
-    let match;
+    // Blocks are resolved by the renderer, so only the placeholders of the rendered branches remain
+    const segments = renderSegments(templateContent, responsesToUse, fieldMapping);
     const unresolvedPlaceholders: string[] = [];
     
-    // First pass: collect all placeholders in the template
-    const placeholders = new Set<string>();
-    while ((match = placeholderRegex.exec(templateContent)) !== null) {
-      placeholders.add(match[1].trim());
-    }
+    segments.forEach(segment => {
+      if (segment.type === 'placeholder' && !segment.found && !unresolvedPlaceholders.includes(segment.node.expression)) {
+        unresolvedPlaceholders.push(segment.node.expression);
+      }
+    });
     
     // For preview mode, we'll track replaced content differently
     if (forPreview) {
-      // Create a map of replacements with their positions
-      const replacements: { placeholder: string; start: number; end: number; value: string; found: boolean; key?: string }[] = [];
-      
-      // Find all placeholder positions
-      placeholders.forEach(placeholder => {
-        const placeholderPattern = `{{${placeholder}}}`;
-        let startIndex = 0;
-        let index;
-        
-        while ((index = content.indexOf(placeholderPattern, startIndex)) !== -1) {
-          replacements.push({
-            placeholder,
-            start: index,
-            end: index + placeholderPattern.length,
-            value: '',
-            found: false
-          });
-          startIndex = index + placeholderPattern.length;
+      const result: ReplacedContent[] = segments.map(segment => {
+        if (segment.type === 'text') {
+          return { text: segment.text, isReplaced: false };
         }
-      });
-      
-      // Sort replacements by position
-      replacements.sort((a, b) => a.start - b.start);
-      
-      // Find values for each placeholder
-      for (const replacement of replacements) {
-        const { placeholder } = replacement;
         
-        // Try to find the value in responsesToUse
-        // First check if the exact placeholder exists as a key
-        if (responsesToUse[placeholder] !== undefined) {
-          let value = responsesToUse[placeholder];
-          
-          if (Array.isArray(value)) {
-            replacement.value = value.join(', ');
-          } else if (value !== null && value !== undefined) {
-            replacement.value = String(value);
-          }
-          
-          replacement.found = true;
-          replacement.key = placeholder;
-        } 
-        // If not found, check if there's a case-insensitive match or a match with spaces replaced by underscores
-        else {
-          const normalizedPlaceholder = placeholder.toLowerCase().replace(/\s+/g, '_');
-          
-          // Check all keys in responsesToUse for a match
-          Object.entries(responsesToUse).forEach(([key, value]) => {
-            const normalizedKey = key.toLowerCase().replace(/\s+/g, '_');
-            
-            if (normalizedKey === normalizedPlaceholder || key === placeholder) {
-              if (Array.isArray(value)) {
-                replacement.value = value.join(', ');
-              } else if (value !== null && value !== undefined) {
-                replacement.value = String(value);
-              }
-              
-              replacement.found = true;
-              replacement.key = key;
-            }
-          });
-          
-          // If still not found, set the key to the placeholder name so it can be edited
-          if (!replacement.found) {
-            replacement.key = placeholder;
-            unresolvedPlaceholders.push(placeholder);
-          }
-        }
-      }
-      
-      // Build the result array with segments
-      const result: ReplacedContent[] = [];
-      let lastEnd = 0;
-      
-      for (const replacement of replacements) {
-        // Add text before the placeholder
-        if (replacement.start > lastEnd) {
-          result.push({
-            text: content.substring(lastEnd, replacement.start),
-            isReplaced: false
-          });
-        }
-        
-        // Add the replacement value or keep the placeholder if not found
-        if (replacement.found) {
-          result.push({
-            text: replacement.value,
-            isReplaced: true,
-            originalPlaceholder: replacement.placeholder,
-            key: replacement.key
-          });
-        } else {
-          // For unfilled placeholders, make them editable too
-          result.push({
-            text: '', // Empty string to allow user to fill in
-            isReplaced: true,
-            originalPlaceholder: replacement.placeholder,
-            key: replacement.key
-          });
-        }
-        
-        lastEnd = replacement.end;
-      }
-      
-      // Add any remaining text after the last placeholder
-      if (lastEnd < content.length) {
-        result.push({
-          text: content.substring(lastEnd),
-          isReplaced: false
-        });
-      }
+        // While editing, show the raw value so the inputs edit what is stored.
+        // Unfilled placeholders get an empty value and the field name as key so they can be filled in.
+        return {
+          text: segment.found ? (isEditing ? formatValue(segment.value) : segment.text) : '',
+          isReplaced: true,
+          originalPlaceholder: segment.node.expression,
+          key: segment.key ?? segment.node.name
+        };
+      });
       
       // Add a note about unresolved placeholders if any
       if (unresolvedPlaceholders.length > 0) {
@@ -217,63 +132,8 @@ export default function DocumentGenerator({
       
       return result;
     } else {
-      // Original logic for non-preview mode (PDF/text generation)
-      // Second pass: replace placeholders with values
-      placeholders.forEach(placeholder => {
-        const placeholderPattern = `{{${placeholder}}}`;
-        
-        // Try to find the value in responsesToUse
-        // First check if the exact placeholder exists as a key
-        if (responsesToUse[placeholder] !== undefined) {
-          let value = responsesToUse[placeholder];
-          let replacementValue = '';
-          
-          if (Array.isArray(value)) {
-            replacementValue = value.join(', ');
-          } else if (value !== null && value !== undefined) {
-            replacementValue = String(value);
-          }
-          
-          content = content.split(placeholderPattern).join(replacementValue);
-        } 
-        // If not found, check if there's a case-insensitive match or a match with spaces replaced by underscores
-        else {
-          const normalizedPlaceholder = placeholder.toLowerCase().replace(/\s+/g, '_');
-          let found = false;
-          
-          // Check all keys in responsesToUse for a match
-          Object.entries(responsesToUse).forEach(([key, value]) => {
-            const normalizedKey = key.toLowerCase().replace(/\s+/g, '_');
-            
-            if (normalizedKey === normalizedPlaceholder || key === placeholder) {
-              let replacementValue = '';
-              
-              if (Array.isArray(value)) {
-                replacementValue = value.join(', ');
-              } else if (value !== null && value !== undefined) {
-                replacementValue = String(value);
-              }
-              
-              content = content.split(placeholderPattern).join(replacementValue);
-              found = true;
-            }
-          });
-          
-          if (!found) {
-            unresolvedPlaceholders.push(placeholder);
-          }
-        }
-      });
-      
-      // Add a note about unresolved placeholders if any
-      if (unresolvedPlaceholders.length > 0) {
-        content += '\n\n---\nNote: The following placeholders could not be resolved:\n';
-        unresolvedPlaceholders.forEach(placeholder => {
-          content += `- {{${placeholder}}}\n`;
-        });
-      }
-      
-      return content;
+      // Non-preview mode (PDF/text generation): the same text a server route would generate
+      return renderDocumentText(templateContent, responsesToUse, fieldMapping);
     }
   };
 
@@ -284,11 +144,7 @@ export default function DocumentGenerator({
     
     try {
       const content = generateContent() as string;
-      const doc = new jsPDF();
-      
-      // Add content to PDF
-      const splitText = doc.splitTextToSize(content, 180);
-      doc.text(splitText, 15, 15);
+      const doc = createPdfDocument(content, { title: templateName });
       
       // Save the PDF
       doc.save(`${templateName.replace(/\s+/g, '_')}_document.pdf`);
@@ -301,28 +157,68 @@ export default function DocumentGenerator({
     }
   };
 
+  // Trigger a download of a generated file
+  const downloadBlob = (blob: Blob, extension: string) => {
+    const url = URL.createObjectURL(blob);
+    
+    // Create a link and trigger download
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${templateName.replace(/\s+/g, '_')}_document.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    
+    // Clean up
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  // Generate and download as Word document
+  const generateWordFile = async () => {
+    setGenerating(true);
+    setError('');
+    
+    try {
+      let blob: Blob;
+      
+      if (hasWordTemplate && templateId) {
+        // Uploaded Word templates are filled in on the server
+        const response = await fetch(`/api/templates/${templateId}/docx`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ data: editedResponses }),
+        });
+        
+        if (!response.ok) {
+          const result = await response.json();
+          throw new Error(result.error || 'Failed to generate Word document');
+        }
+        
+        blob = await response.blob();
+      } else {
+        blob = await generateWordBlob(generateContent() as string, templateName);
+      }
+      
+      downloadBlob(blob, 'docx');
+    } catch (err: any) {
+      console.error('Error generating Word document:', err);
+      setError(err.message || 'Failed to generate Word document');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
   // Generate and download as text file
   const generateTextFile = () => {
     setGenerating(true);
     setError('');
     
     try {
-      const content = generateContent() as string;
+      // Images such as signatures can't be shown in plain text, so their description is used
+      const content = toPlainText(generateContent() as string);
       
       // Create a blob with the content
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      
-      // Create a link and trigger download
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${templateName.replace(/\s+/g, '_')}_document.txt`;
-      document.body.appendChild(a);
-      a.click();
-      
-      // Clean up
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
+      downloadBlob(new Blob([content], { type: 'text/plain' }), 'txt');
       
     } catch (err: any) {
       console.error('Error generating text file:', err);
@@ -414,38 +310,42 @@ export default function DocumentGenerator({
     }
   };
 
-  // Function to get field type for a placeholder
-  const getFieldTypeForPlaceholder = (placeholder: string): string => {
+  // Function to find the form field a placeholder refers to. Bound placeholders
+  // use the template's field mapping; others are matched by label.
+  const findFieldForPlaceholder = (expression: string): FormField | undefined => {
+    const placeholder = parsePlaceholder(expression).name;
+
+    const binding = fieldMapping?.[placeholder];
+    const boundField = binding && formFields.find(field => field.id === binding.field_id);
+    if (boundField) return boundField;
+
     // First try exact match
     const exactMatch = formFields.find(field => field.label === placeholder);
-    if (exactMatch) return exactMatch.type;
+    if (exactMatch) return exactMatch;
 
     // Try case-insensitive match
-    const normalizedPlaceholder = placeholder.toLowerCase().replace(/\s+/g, '_');
-    const caseInsensitiveMatch = formFields.find(field => 
-      field.label.toLowerCase().replace(/\s+/g, '_') === normalizedPlaceholder
-    );
-    if (caseInsensitiveMatch) return caseInsensitiveMatch.type;
+    const normalizedPlaceholder = normalizeFieldKey(placeholder);
+    return formFields.find(field => normalizeFieldKey(field.label) === normalizedPlaceholder);
+  };
 
+  // Function to get field type for a placeholder
+  const getFieldTypeForPlaceholder = (expression: string): string => {
     // Default to text if no match found
-    return 'text';
+    return findFieldForPlaceholder(expression)?.type || 'text';
   };
 
   // Function to get field options for a placeholder
-  const getFieldOptionsForPlaceholder = (placeholder: string): string[] | undefined => {
-    // First try exact match
-    const exactMatch = formFields.find(field => field.label === placeholder);
-    if (exactMatch?.options) return exactMatch.options;
+  const getFieldOptionsForPlaceholder = (expression: string): string[] | undefined => {
+    return findFieldForPlaceholder(expression)?.options;
+  };
 
-    // Try case-insensitive match
-    const normalizedPlaceholder = placeholder.toLowerCase().replace(/\s+/g, '_');
-    const caseInsensitiveMatch = formFields.find(field => 
-      field.label.toLowerCase().replace(/\s+/g, '_') === normalizedPlaceholder
+  // Render text that may contain images written by the `image` filter, e.g. signatures
+  const renderTextWithImages = (text: string) =>
+    splitImages(text).map((part, index) =>
+      typeof part === 'string'
+        ? unescapeMarkup(part)
+        : <img key={index} src={part.src} alt={part.alt} className="inline-block h-16 align-middle" />
     );
-    if (caseInsensitiveMatch?.options) return caseInsensitiveMatch.options;
-
-    return undefined;
-  };
 
   // Render the preview content with highlighting and editing
   const renderPreviewContent = () => {
@@ -458,7 +358,9 @@ export default function DocumentGenerator({
         const fieldType = getFieldTypeForPlaceholder(segment.originalPlaceholder || '');
         const fieldOptions = getFieldOptionsForPlaceholder(segment.originalPlaceholder || '');
         
-        if (isEditing) {
+        // Signatures and whole addresses are shown but not edited; parts such as
+        // {{Address.city}} can be edited like any text
+        if (isEditing && fieldType !== 'signature' && fieldType !== 'address') {
           // Render an input field for editable segments based on field type
           switch (fieldType) {
             case 'select':
@@ -672,7 +574,7 @@ export default function DocumentGenerator({
               className={`${isUnfilled ? 'bg-red-200 text-red-800' : 'bg-yellow-200'} px-1 rounded text-black`}
               title={`From: {{${segment.originalPlaceholder}}}${isUnfilled ? ' (unfilled)' : ''}`}
             >
-              {isUnfilled ? `{{${segment.originalPlaceholder}}}` : segment.text}
+              {isUnfilled ? `{{${segment.originalPlaceholder}}}` : renderTextWithImages(segment.text)}
             </span>
           );
         }
@@ -715,6 +617,17 @@ export default function DocumentGenerator({
           <span>{generating ? 'Generating...' : 'Generate PDF'}</span>
         </button>
         
+        <button
+          onClick={generateWordFile}
+          disabled={generating}
+          className={`px-4 py-2 rounded flex items-center space-x-2 ${
+            generating ? 'bg-gray-100 text-gray-400' : 'bg-white text-gray-700 hover:bg-gray-50'
+          } border shadow-sm`}
+        >
+          <FileType className="w-5 h-5" />
+          <span>{generating ? 'Generating...' : 'Download as Word'}</span>
+        </button>
+        
         <button
           onClick={generateTextFile}
           disabled={generating}
@@ -0,0 +1,225 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { toast } from 'sonner';
+import { Link2, AlertTriangle, Save } from 'lucide-react';
+import { extractFieldNames } from '@/lib/templateParser';
+import {
+  MappableField,
+  MappingSuggestion,
+  TemplateFieldMapping,
+  getMappingSuggestions,
+  renamePlaceholder
+} from '@/lib/templateMapping';
+
+interface FieldMappingEditorProps {
+  templateId: string;
+  templateContent: string;
+  fieldMapping?: TemplateFieldMapping | null;
+  formFields: MappableField[];
+  onSaved?: (fieldMapping: TemplateFieldMapping, templateContent: string) => void;
+}
+
+/**
+ * Editor for the placeholder-to-field mapping of a template. Lists every placeholder with
+ * the form field it is bound to, and offers fixes when bindings are missing or stale.
+ */
+export default function FieldMappingEditor({
+  templateId,
+  templateContent,
+  fieldMapping,
+  formFields,
+  onSaved
+}: FieldMappingEditorProps) {
+  const [mapping, setMapping] = useState<TemplateFieldMapping>(fieldMapping || {});
+  const [content, setContent] = useState(templateContent);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setMapping(fieldMapping || {});
+    setContent(templateContent);
+  }, [fieldMapping, templateContent]);
+
+  const placeholders = useMemo(() => extractFieldNames(content), [content]);
+  const suggestions = useMemo(() => getMappingSuggestions(content, formFields, mapping), [content, formFields, mapping]);
+  const isDirty = content !== templateContent || JSON.stringify(mapping) !== JSON.stringify(fieldMapping || {});
+
+  const bind = (placeholder: string, field?: MappableField) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (field) {
+        next[placeholder] = { field_id: field.id, label: field.label };
+      } else {
+        delete next[placeholder];
+      }
+      return next;
+    });
+  };
+
+  // Rewrites the placeholder in the template to the field's current label and moves its binding along
+  const renameToLabel = (placeholder: string, field: MappableField) => {
+    setContent(prev => renamePlaceholder(prev, placeholder, field.label));
+    setMapping(prev => {
+      const { [placeholder]: _, ...rest } = prev;
+      return { ...rest, [field.label]: { field_id: field.id, label: field.label } };
+    });
+  };
+
+  const applySuggestion = (suggestion: MappingSuggestion) => {
+    if (suggestion.field) {
+      bind(suggestion.placeholder, suggestion.field);
+    }
+  };
+
+  const applyAllSuggestions = () => {
+    suggestions.forEach(applySuggestion);
+  };
+
+  const saveMapping = async () => {
+    setIsSaving(true);
+    setError('');
+
+    try {
+      // Only keep bindings for placeholders that are still in the template
+      const savedMapping: TemplateFieldMapping = {};
+      placeholders.forEach(placeholder => {
+        if (mapping[placeholder]) savedMapping[placeholder] = mapping[placeholder];
+      });
+
+      const { error } = await supabase
+        .from('templates')
+        .update({
+          field_mapping: savedMapping,
+          template_content: content
+        })
+        .eq('id', templateId);
+
+      if (error) throw error;
+
+      toast.success('Field mapping saved');
+      onSaved?.(savedMapping, content);
+    } catch (err: any) {
+      console.error('Error saving field mapping:', err);
+      setError(err.message || 'Failed to save field mapping');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (placeholders.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center">
+          <Link2 className="h-5 w-5 mr-2" />
+          Field Mapping
+        </h2>
+        <button
+          onClick={saveMapping}
+          disabled={isSaving || !isDirty}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 flex items-center text-sm"
+        >
+          <Save className="h-4 w-4 mr-1" />
+          {isSaving ? 'Saving...' : 'Save Mapping'}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Bind each placeholder to a form field so documents keep working when field labels are renamed.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-3 mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-md">
+          <div className="flex justify-between items-center mb-2">
+            <h3 className="text-sm font-medium text-amber-800 flex items-center">
+              <AlertTriangle className="h-4 w-4 mr-1" />
+              Suggestions
+            </h3>
+            {suggestions.some(suggestion => suggestion.field && suggestion.kind !== 'label_changed') && (
+              <button onClick={applyAllSuggestions} className="text-sm text-amber-800 hover:underline">
+                Apply all
+              </button>
+            )}
+          </div>
+          <ul className="space-y-2">
+            {suggestions.map(suggestion => (
+              <li key={suggestion.placeholder} className="text-sm text-amber-900 flex justify-between items-start gap-4">
+                <span>{suggestion.message}</span>
+                <span className="flex-shrink-0 space-x-2">
+                  {suggestion.field && suggestion.kind !== 'label_changed' && (
+                    <button onClick={() => applySuggestion(suggestion)} className="text-blue-600 hover:underline">
+                      Bind
+                    </button>
+                  )}
+                  {suggestion.field && suggestion.kind === 'label_changed' && (
+                    <>
+                      <button
+                        onClick={() => renameToLabel(suggestion.placeholder, suggestion.field!)}
+                        className="text-blue-600 hover:underline"
+                      >
+                        Rename placeholder
+                      </button>
+                      <button
+                        onClick={() => applySuggestion(suggestion)}
+                        className="text-gray-600 hover:underline"
+                      >
+                        Keep name
+                      </button>
+                    </>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <table className="min-w-full divide-y divide-gray-200">
+        <thead className="bg-gray-50">
+          <tr>
+            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Placeholder
+            </th>
+            <th scope="col" className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+              Form Field
+            </th>
+          </tr>
+        </thead>
+        <tbody className="bg-white divide-y divide-gray-200">
+          {placeholders.map(placeholder => (
+            <tr key={placeholder}>
+              <td className="px-3 py-2 text-sm">
+                <code className="bg-gray-100 px-1 rounded">{`{{${placeholder}}}`}</code>
+              </td>
+              <td className="px-3 py-2 text-sm">
+                <select
+                  value={mapping[placeholder]?.field_id || ''}
+                  onChange={(e) => bind(placeholder, formFields.find(field => field.id === e.target.value))}
+                  className="w-full px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Not bound (match by name)</option>
+                  {formFields.map(field => (
+                    <option key={field.id} value={field.id}>
+                      {field.label}
+                    </option>
+                  ))}
+                </select>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,46 +1,36 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { extractFieldLabels } from '@/lib/templateParser';
+import { LintFormField, hasLintErrors, lintTemplate } from '@/lib/templateLinter';
+import TemplateLintResults from '@/components/templates/TemplateLintResults';
+import TemplateEditor from '@/components/templates/TemplateEditor';
 
 interface TemplateBuilderProps {
   onSubmit: (templateData: any) => void;
   isSubmitting: boolean;
   initialData?: any;
   isEditMode?: boolean;
+  /** Fields of the linked form, used to report unknown placeholders and unused fields */
+  formFields?: LintFormField[];
 }
 
 /**
  * TemplateBuilder component
  * 
  * This is a simplified version of the template builder that extracts field labels
- * from the template content using regex. It no longer uses the fields property
+ * from the template content using the shared template parser. It no longer uses the fields property
  * and only submits the template_content to the database.
  */
-export default function TemplateBuilder({ onSubmit, isSubmitting, initialData, isEditMode = false }: TemplateBuilderProps) {
+export default function TemplateBuilder({ onSubmit, isSubmitting, initialData, isEditMode = false, formFields }: TemplateBuilderProps) {
   const [name, setName] = useState(initialData?.name || '');
   const [description, setDescription] = useState(initialData?.description || '');
   const [content, setContent] = useState(initialData?.template_content || '');
   const [fieldLabels, setFieldLabels] = useState<Record<string, string>>({});
-
-  // Extract field placeholders from template content
-  const extractFieldLabels = (content: string) => {
-    const regex = /{{([^}]+)}}/g;
-    let match;
-    const fields: Record<string, string> = {};
-    
-    while ((match = regex.exec(content)) !== null) {
-      const fieldName = match[1].trim();
-      // Convert field name to a valid ID (lowercase, no spaces)
-      const fieldId = fieldName.toLowerCase().replace(/\s+/g, '_');
-      fields[fieldId] = fieldName;
-    }
-    
-    return fields;
-  };
+  const lintIssues = useMemo(() => lintTemplate(content, formFields), [content, formFields]);
 
   // Update field labels when content changes
-  const handleContentChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
-    const newContent = e.target.value;
+  const handleContentChange = (newContent: string) => {
     setContent(newContent);
     
     // Extract field labels from the content
@@ -63,6 +53,11 @@ export default function TemplateBuilder({ onSubmit, isSubmitting, initialData, i
       return;
     }
 
+    if (hasLintErrors(lintIssues)) {
+      alert('Template content has errors. Fix the problems listed below the editor before saving.');
+      return;
+    }
+
     onSubmit({
       name,
       description,
@@ -108,18 +103,21 @@ export default function TemplateBuilder({ onSubmit, isSubmitting, initialData, i
             <label htmlFor="content" className="block text-sm font-medium text-gray-700">
               Template Content <span className="text-red-500">*</span>
             </label>
-            <textarea
-              id="content"
-              value={content}
-              onChange={handleContentChange}
-              rows={10}
-              className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-blue-500 focus:ring-blue-500 font-mono"
-              placeholder="Enter your template content here. Use {{field_name}} to insert dynamic fields."
-              required
-            />
+            <div className="mt-1">
+              <TemplateEditor
+                id="content"
+                value={content}
+                onChange={handleContentChange}
+                formId={initialData?.form_id}
+                fieldMapping={initialData?.field_mapping}
+                rows={10}
+                placeholder="Enter your template content here. Use {{field_name}} to insert dynamic fields."
+              />
+            </div>
             <p className="mt-1 text-sm text-gray-500">
               Use double curly braces to insert fields, e.g., {'{{field_name}}'}
             </p>
+            <TemplateLintResults issues={lintIssues} hasContent={content.trim().length > 0} />
           </div>
         </div>
       </div>
@@ -0,0 +1,240 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import { renderTemplateContent } from '@/lib/templateRenderer';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
+import { documentToHtml } from '@/lib/htmlDocument';
+import { responseValuesWithLabels } from '@/lib/responseValues';
+import {
+  Bold,
+  Italic,
+  Heading1,
+  Heading2,
+  Heading3,
+  List,
+  ListOrdered,
+  Table,
+  Minus,
+  SeparatorHorizontal,
+  Columns2
+} from 'lucide-react';
+
+interface SampleResponse {
+  id: string;
+  respondent_email: string | null;
+  created_at: string;
+  data: Record<string, any>;
+}
+
+interface TemplateEditorProps {
+  id?: string;
+  value: string;
+  onChange: (value: string) => void;
+  /** The linked form; its latest responses can be picked to fill in the preview */
+  formId?: string | null;
+  fieldMapping?: TemplateFieldMapping | null;
+  rows?: number;
+  placeholder?: string;
+}
+
+type FormatAction =
+  | { kind: 'wrap'; marker: string; sample: string }
+  | { kind: 'line'; prefix: string }
+  | { kind: 'block'; text: string };
+
+const FORMAT_ACTIONS: Array<{ title: string; icon: typeof Bold; action: FormatAction }> = [
+  { title: 'Bold', icon: Bold, action: { kind: 'wrap', marker: '**', sample: 'bold text' } },
+  { title: 'Italic', icon: Italic, action: { kind: 'wrap', marker: '*', sample: 'italic text' } },
+  { title: 'Heading 1', icon: Heading1, action: { kind: 'line', prefix: '# ' } },
+  { title: 'Heading 2', icon: Heading2, action: { kind: 'line', prefix: '## ' } },
+  { title: 'Heading 3', icon: Heading3, action: { kind: 'line', prefix: '### ' } },
+  { title: 'Bulleted list', icon: List, action: { kind: 'line', prefix: '- ' } },
+  { title: 'Numbered list', icon: ListOrdered, action: { kind: 'line', prefix: '1. ' } },
+  { title: 'Table', icon: Table, action: { kind: 'block', text: '| Column 1 | Column 2 |\n|---|---|\n| {{Field}} | Value |' } },
+  { title: 'Horizontal rule', icon: Minus, action: { kind: 'block', text: '---' } },
+  { title: 'Page break', icon: SeparatorHorizontal, action: { kind: 'block', text: '\\pagebreak' } },
+];
+
+/**
+ * Markdown editor for template content with a formatting toolbar and a side-by-side
+ * preview. The preview is rendered the same way as generated documents, optionally
+ * filled in from one of the linked form's responses.
+ */
+export default function TemplateEditor({
+  id,
+  value,
+  onChange,
+  formId,
+  fieldMapping,
+  rows = 15,
+  placeholder = 'Enter your template content with {{placeholders}}'
+}: TemplateEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [showPreview, setShowPreview] = useState(true);
+  const [sampleResponses, setSampleResponses] = useState<SampleResponse[]>([]);
+  const [formFields, setFormFields] = useState<any[]>([]);
+  const [sampleId, setSampleId] = useState('');
+
+  // Load the latest responses of the linked form to fill in the preview
+  useEffect(() => {
+    if (!formId) {
+      setSampleResponses([]);
+      setSampleId('');
+      return;
+    }
+
+    const fetchSamples = async () => {
+      try {
+        const [{ data: form }, { data: responses, error: responsesError }] = await Promise.all([
+          supabase.from('forms').select('fields').eq('id', formId).single(),
+          supabase
+            .from('form_responses')
+            .select('id, respondent_email, created_at, data')
+            .eq('form_id', formId)
+            .order('created_at', { ascending: false })
+            .limit(20)
+        ]);
+
+        if (responsesError) throw responsesError;
+
+        setFormFields(form?.fields || []);
+        setSampleResponses(responses || []);
+        setSampleId(responses && responses.length > 0 ? responses[0].id : '');
+      } catch (err: any) {
+        console.error('Error loading sample responses:', err);
+      }
+    };
+
+    fetchSamples();
+  }, [formId]);
+
+  const previewHtml = useMemo(() => {
+    const sample = sampleResponses.find(response => response.id === sampleId);
+    const values = sample ? responseValuesWithLabels(sample.data || {}, formFields) : {};
+    return documentToHtml(renderTemplateContent(value, values, fieldMapping));
+  }, [value, sampleResponses, sampleId, formFields, fieldMapping]);
+
+  // Apply a toolbar action to the current selection and keep the selection on the result
+  const applyFormat = (action: FormatAction) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const selected = value.substring(start, end);
+    let replacement: string;
+    let from = start;
+    let selectionStart: number;
+    let selectionEnd: number;
+
+    if (action.kind === 'wrap') {
+      const text = selected || action.sample;
+      replacement = `${action.marker}${text}${action.marker}`;
+      selectionStart = start + action.marker.length;
+      selectionEnd = selectionStart + text.length;
+    } else if (action.kind === 'line') {
+      // Prefix every selected line, starting from the beginning of the first one
+      from = value.lastIndexOf('\n', start - 1) + 1;
+      const lines = value.substring(from, end).split('\n');
+      replacement = lines
+        .map((line, index) => {
+          const stripped = line.replace(/^(#{1,3}\s+|[-*]\s+|\d+[.)]\s+)/, '');
+          const prefix = action.prefix === '1. ' ? `${index + 1}. ` : action.prefix;
+          return `${prefix}${stripped}`;
+        })
+        .join('\n');
+      selectionStart = from;
+      selectionEnd = from + replacement.length;
+    } else {
+      // Blocks go on lines of their own, separated from the surrounding text by blank lines
+      const before = value.substring(0, start);
+      const lead = before === '' || before.endsWith('\n\n') ? '' : before.endsWith('\n') ? '\n' : '\n\n';
+      replacement = `${lead}${action.text}\n\n`;
+      selectionStart = selectionEnd = start + replacement.length;
+    }
+
+    onChange(value.substring(0, from) + replacement + value.substring(end));
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(selectionStart, selectionEnd);
+    });
+  };
+
+  const formatSample = (response: SampleResponse) =>
+    `${response.respondent_email || 'Anonymous'} – ${new Date(response.created_at).toLocaleString()}`;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1 border border-b-0 rounded-t-md bg-gray-50 px-2 py-1">
+        {FORMAT_ACTIONS.map(({ title, icon: Icon, action }) => (
+          <button
+            key={title}
+            type="button"
+            title={title}
+            onClick={() => applyFormat(action)}
+            className="p-1.5 rounded text-gray-600 hover:bg-gray-200 hover:text-gray-900"
+          >
+            <Icon className="h-4 w-4" />
+          </button>
+        ))}
+        <div className="flex-1" />
+        <button
+          type="button"
+          onClick={() => setShowPreview(!showPreview)}
+          className={`flex items-center px-2 py-1 rounded text-sm ${
+            showPreview ? 'bg-blue-100 text-blue-700' : 'text-gray-600 hover:bg-gray-200'
+          }`}
+        >
+          <Columns2 className="h-4 w-4 mr-1" />
+          Preview
+        </button>
+      </div>
+
+      <div className={`grid gap-4 ${showPreview ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'}`}>
+        <textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="w-full px-3 py-2 border rounded-b-md focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono"
+          placeholder={placeholder}
+          rows={rows}
+        />
+
+        {showPreview && (
+          <div className="flex flex-col min-w-0">
+            <div className="flex items-center justify-between mb-1 text-sm text-gray-600">
+              <span>Preview</span>
+              {sampleResponses.length > 0 ? (
+                <select
+                  value={sampleId}
+                  onChange={(e) => setSampleId(e.target.value)}
+                  className="ml-2 px-2 py-1 border rounded-md text-sm max-w-[16rem]"
+                >
+                  <option value="">No response (show placeholders)</option>
+                  {sampleResponses.map(response => (
+                    <option key={response.id} value={response.id}>{formatSample(response)}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="text-xs text-gray-400">
+                  {formId ? 'No responses yet to preview with' : 'Link a form to preview with its responses'}
+                </span>
+              )}
+            </div>
+            <div
+              className="document-preview flex-1 border rounded-md p-4 bg-white overflow-auto text-sm"
+              style={{ maxHeight: `${rows * 1.75}rem` }}
+              dangerouslySetInnerHTML={{ __html: previewHtml }}
+            />
+          </div>
+        )}
+      </div>
+
+      <p className="mt-1 text-xs text-gray-500">
+        Formatting: <code># Heading</code>, <code>**bold**</code>, <code>*italic*</code>, <code>- list</code>,{' '}
+        <code>1. list</code>, <code>| table |</code>, <code>---</code> for a line and <code>\pagebreak</code> for a new page.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react';
+import { TemplateLintIssue } from '@/lib/templateLinter';
+
+interface TemplateLintResultsProps {
+  issues: TemplateLintIssue[];
+  /** Whether the template has any content yet; nothing is shown for an empty template */
+  hasContent: boolean;
+}
+
+/**
+ * Shows the lint issues of a template below its editor, errors first
+ */
+export default function TemplateLintResults({ issues, hasContent }: TemplateLintResultsProps) {
+  if (!hasContent) return null;
+
+  if (issues.length === 0) {
+    return (
+      <div className="mt-2 flex items-center text-sm text-green-700">
+        <CheckCircle className="h-4 w-4 mr-1" />
+        No problems found in the template
+      </div>
+    );
+  }
+
+  const sortedIssues = [
+    ...issues.filter(issue => issue.severity === 'error'),
+    ...issues.filter(issue => issue.severity === 'warning')
+  ];
+
+  return (
+    <ul className="mt-2 space-y-1 text-sm">
+      {sortedIssues.map((issue, index) => (
+        <li
+          key={index}
+          className={`flex items-start ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-700'}`}
+        >
+          {issue.severity === 'error' ? (
+            <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          ) : (
+            <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+          )}
+          <span>
+            {issue.loc && (
+              <span className="font-mono mr-1">
+                {issue.loc.start.line}:{issue.loc.start.column}
+              </span>
+            )}
+            {issue.message}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
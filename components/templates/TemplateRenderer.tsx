@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/lib/supabase';
 import { renderTemplate } from '@/lib/templateRenderer';
+import { documentToHtml } from '@/lib/htmlDocument';
+import { toPlainText } from '@/lib/documentModel';
 
 interface Template {
   id: string;
@@ -109,15 +111,16 @@ export default function TemplateRenderer({ templateId, formResponse }: TemplateR
     <div className="bg-white p-6 rounded-lg shadow-sm border">
       <h2 className="text-xl font-semibold mb-4">Rendered Template: {template.name}</h2>
       
-      <div className="whitespace-pre-wrap border p-4 rounded bg-gray-50 min-h-[200px]">
-        {renderedContent}
-      </div>
+      <div
+        className="document-preview border p-4 rounded bg-gray-50 min-h-[200px]"
+        dangerouslySetInnerHTML={{ __html: documentToHtml(renderedContent) }}
+      />
       
       <div className="mt-4 flex justify-end">
         <button
           onClick={() => {
             // Create a blob with the rendered content
-            const blob = new Blob([renderedContent], { type: 'text/plain' });
+            const blob = new Blob([toPlainText(renderedContent)], { type: 'text/plain' });
             const url = URL.createObjectURL(blob);
             
             // Create a link to download the file
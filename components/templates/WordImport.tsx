@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { FileUp, Wand2 } from 'lucide-react';
+import {
+  PlaceholderCandidate,
+  convertPlaceholderCandidates,
+  detectPlaceholderCandidates
+} from '@/lib/templateImport';
+
+interface WordImportProps {
+  /** Called with the imported content, and again after placeholders are converted */
+  onImport: (content: string, documentName: string) => void;
+}
+
+/**
+ * "Import from .docx" option for new templates. Converts a Word document to template
+ * content and offers to turn placeholder-looking text such as `[Client Name]`,
+ * `<<Date>>` or `____` into {{...}} fields.
+ */
+export default function WordImport({ onImport }: WordImportProps) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState('');
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [content, setContent] = useState('');
+  const [documentName, setDocumentName] = useState('');
+  const [candidates, setCandidates] = useState<PlaceholderCandidate[]>([]);
+  const [selected, setSelected] = useState<boolean[]>([]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    setError('');
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch('/api/templates/import', { method: 'POST', body });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to import Word document');
+      }
+
+      const detected = detectPlaceholderCandidates(result.content);
+      setContent(result.content);
+      setDocumentName(result.name);
+      setWarnings(result.warnings || []);
+      setCandidates(detected);
+      setSelected(detected.map(() => true));
+      onImport(result.content, result.name);
+    } catch (err: any) {
+      console.error('Error importing Word document:', err);
+      setError(err.message || 'Failed to import Word document');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const renameCandidate = (index: number, name: string) => {
+    setCandidates(prev => prev.map((candidate, i) => (i === index ? { ...candidate, name } : candidate)));
+  };
+
+  const convertSelected = () => {
+    const converted = convertPlaceholderCandidates(
+      content,
+      candidates.filter((candidate, index) => selected[index] && candidate.name.trim())
+    );
+    setContent(converted);
+    setCandidates([]);
+    setSelected([]);
+    onImport(converted, documentName);
+  };
+
+  const selectedCount = selected.filter(Boolean).length;
+
+  return (
+    <div className="mb-4">
+      <label className={`inline-flex items-center px-4 py-2 border rounded-md shadow-sm text-sm cursor-pointer ${
+        isImporting ? 'bg-gray-100 text-gray-400' : 'bg-white text-gray-700 hover:bg-gray-50'
+      }`}>
+        <FileUp className="h-4 w-4 mr-2" />
+        {isImporting ? 'Importing...' : 'Import from .docx'}
+        <input
+          type="file"
+          accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          onChange={handleFileChange}
+          disabled={isImporting}
+          className="hidden"
+        />
+      </label>
+
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+
+      {warnings.length > 0 && (
+        <details className="mt-2 text-sm text-amber-700">
+          <summary>Some formatting could not be imported ({warnings.length})</summary>
+          <ul className="list-disc pl-5 mt-1">
+            {warnings.map((warning, index) => (
+              <li key={index}>{warning}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {candidates.length > 0 && (
+        <div className="mt-4 p-4 bg-blue-50 rounded-md border border-blue-100">
+          <h3 className="text-sm font-medium text-blue-800 mb-1">Possible fields found</h3>
+          <p className="text-sm text-blue-700 mb-3">
+            Select the text to turn into template fields and adjust the field names if needed.
+          </p>
+          <ul className="space-y-2 max-h-64 overflow-y-auto">
+            {candidates.map((candidate, index) => (
+              <li key={`${candidate.start}-${candidate.raw}`} className="flex items-center gap-3 text-sm">
+                <input
+                  type="checkbox"
+                  checked={selected[index] || false}
+                  onChange={(e) => setSelected(prev => prev.map((value, i) => (i === index ? e.target.checked : value)))}
+                  className="h-4 w-4 text-blue-600 rounded"
+                />
+                <code className="bg-white px-1 rounded border min-w-[6rem] truncate">{candidate.raw}</code>
+                <span className="text-gray-500">→</span>
+                <input
+                  type="text"
+                  value={candidate.name}
+                  onChange={(e) => renameCandidate(index, e.target.value)}
+                  className="flex-1 px-2 py-1 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex justify-end gap-2">
+            <button
+              type="button"
+              onClick={() => setCandidates([])}
+              className="px-3 py-1.5 text-sm text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
+            >
+              Keep as text
+            </button>
+            <button
+              type="button"
+              onClick={convertSelected}
+              disabled={selectedCount === 0}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+            >
+              <Wand2 className="h-4 w-4 mr-1" />
+              Convert {selectedCount} to {'{{fields}}'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { FileText, Trash2, Upload } from 'lucide-react';
+
+interface WordTemplateProblem {
+  placeholder: string;
+  message: string;
+}
+
+interface WordTemplateUploadProps {
+  templateId: string;
+  docxFilename?: string | null;
+  onChange: (docx: { docx_path: string | null; docx_filename: string | null }) => void;
+}
+
+/**
+ * Upload of a Word (.docx) file to use as the template's document. Its {{placeholders}}
+ * are filled in from form responses when a Word document is downloaded.
+ */
+export default function WordTemplateUpload({ templateId, docxFilename, onChange }: WordTemplateUploadProps) {
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState('');
+  const [problems, setProblems] = useState<WordTemplateProblem[]>([]);
+  const [fields, setFields] = useState<string[]>([]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setError('');
+    setProblems([]);
+
+    try {
+      const body = new FormData();
+      body.append('file', file);
+
+      const response = await fetch(`/api/templates/${templateId}/docx`, { method: 'PUT', body });
+      const result = await response.json();
+
+      if (!response.ok) {
+        if (result.problems) setProblems(result.problems);
+        throw new Error(result.error || 'Failed to upload Word template');
+      }
+
+      setFields(result.fields || []);
+      onChange({ docx_path: result.docx_path, docx_filename: result.docx_filename });
+      toast.success('Word template uploaded');
+    } catch (err: any) {
+      console.error('Error uploading Word template:', err);
+      setError(err.message || 'Failed to upload Word template');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!confirm('Remove the Word template? Documents will be generated from the template text instead.')) {
+      return;
+    }
+
+    setIsUploading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/templates/${templateId}/docx`, { method: 'DELETE' });
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to remove Word template');
+      }
+
+      setFields([]);
+      onChange({ docx_path: null, docx_filename: null });
+    } catch (err: any) {
+      console.error('Error removing Word template:', err);
+      setError(err.message || 'Failed to remove Word template');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border">
+      <h2 className="text-xl font-semibold mb-2">Word Template</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        Upload a .docx file with <code className="bg-gray-100 px-1 rounded">{'{{Field Name}}'}</code> placeholders
+        to generate Word documents in your own layout. Filters such as{' '}
+        <code className="bg-gray-100 px-1 rounded">{'{{Date | date:"MMMM d, yyyy"}}'}</code> work as in the template text.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-3 mb-4">
+          <p className="text-red-700 text-sm">{error}</p>
+          {problems.length > 0 && (
+            <ul className="list-disc pl-5 mt-2 text-sm text-red-700">
+              {problems.map((problem, index) => (
+                <li key={index}>{problem.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {docxFilename ? (
+        <div className="flex items-center justify-between border rounded-md p-3 mb-4">
+          <span className="flex items-center text-sm text-gray-700">
+            <FileText className="h-4 w-4 mr-2" />
+            {docxFilename}
+          </span>
+          <button
+            onClick={handleRemove}
+            disabled={isUploading}
+            className="text-red-600 hover:text-red-800 disabled:opacity-50"
+            title="Remove Word template"
+          >
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </div>
+      ) : null}
+
+      {fields.length > 0 && (
+        <div className="mb-4 text-sm text-gray-600">
+          Placeholders found:{' '}
+          {fields.map(field => (
+            <code key={field} className="bg-gray-100 px-1 rounded mr-1">{`{{${field}}}`}</code>
+          ))}
+        </div>
+      )}
+
+      <label className={`inline-flex items-center px-4 py-2 border rounded shadow-sm text-sm cursor-pointer ${
+        isUploading ? 'bg-gray-100 text-gray-400' : 'bg-white text-gray-700 hover:bg-gray-50'
+      }`}>
+        <Upload className="h-4 w-4 mr-2" />
+        {isUploading ? 'Uploading...' : docxFilename ? 'Replace .docx' : 'Upload .docx'}
+        <input
+          type="file"
+          accept=".docx,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+          onChange={handleFileChange}
+          disabled={isUploading}
+          className="hidden"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,584 @@
+/**
+ * Calculated fields: fields whose answer is computed from other answers with a formula,
+ * e.g. `{Tickets} * 25` or `IF({Member} = "Yes", 0, 10)`. Respondents see the result
+ * update as they fill in the form; the server computes it again when the response is
+ * submitted, so the stored result can't be tampered with. The formula and display
+ * settings are stored on the field as `calculation`.
+ *
+ * Formulas are parsed and evaluated here rather than run as code, so they can only
+ * read answers. They support:
+ * - field references by label or ID in braces: `{Ticket Price}`
+ * - numbers, text in double quotes, TRUE and FALSE
+ * - arithmetic `+ - * / %`, text concatenation `&`, comparisons `= != < > <= >=`
+ * - date differences: subtracting one date from another gives the days in between
+ * - functions: IF, AND, OR, NOT, ROUND, MIN, MAX, SUM, ABS, COUNT, CONCAT, DAYS, TODAY
+ *
+ * A formula that refers to an unanswered field gives no result, unless the blank is
+ * handled, e.g. with IF or COUNT.
+ */
+
+import { normalizeFieldKey } from '@/lib/templateParser';
+import { VisibilityField, VisibilityRules, getHiddenFieldIds } from '@/lib/fieldVisibility';
+import { formatAddress, isAddressValue } from '@/lib/contactFields';
+
+/**
+ * Settings an author can set on a calculated field
+ */
+export interface CalculationSettings {
+  formula: string;
+  /** Number of decimals numeric results are rounded to */
+  decimals?: number | null;
+}
+
+/** Most decimals results are rounded to */
+export const MAX_CALCULATION_DECIMALS = 10;
+
+/**
+ * A field that may be calculated, as stored in `forms.fields`
+ */
+export interface CalculatedField extends VisibilityField {
+  type?: string;
+  label?: string;
+  calculation?: CalculationSettings | null;
+  metadata?: { type?: string; calculation?: CalculationSettings | null; visibility?: VisibilityRules | null } | null;
+}
+
+/** A value while evaluating a formula; lists are answers of checkboxes and groups */
+export type FormulaValue = number | string | boolean | null | any[];
+
+/**
+ * A parsed formula
+ */
+export type FormulaNode =
+  | { kind: 'literal'; value: number | string | boolean }
+  | { kind: 'field'; name: string }
+  | { kind: 'unary'; operator: '-' | '+'; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[] };
+
+/**
+ * Error for a formula that can't be parsed, with the position of the problem
+ */
+export class FormulaError extends Error {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'FormulaError';
+    this.position = position;
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'string'; value: string; position: number }
+  | { type: 'field'; value: string; position: number }
+  | { type: 'name'; value: string; position: number }
+  | { type: 'operator'; value: string; position: number };
+
+/** The functions formulas can call, with their smallest and largest number of arguments */
+export const FORMULA_FUNCTIONS: Record<string, { min: number; max: number; description: string }> = {
+  IF: { min: 2, max: 3, description: 'IF(condition, then, otherwise)' },
+  AND: { min: 1, max: Infinity, description: 'AND(a, b, ...) is true when all are true' },
+  OR: { min: 1, max: Infinity, description: 'OR(a, b, ...) is true when any is true' },
+  NOT: { min: 1, max: 1, description: 'NOT(a)' },
+  ROUND: { min: 1, max: 2, description: 'ROUND(number, decimals)' },
+  MIN: { min: 1, max: Infinity, description: 'MIN(a, b, ...)' },
+  MAX: { min: 1, max: Infinity, description: 'MAX(a, b, ...)' },
+  SUM: { min: 1, max: Infinity, description: 'SUM(a, b, ...), skipping blanks' },
+  ABS: { min: 1, max: 1, description: 'ABS(number)' },
+  COUNT: { min: 1, max: 1, description: 'COUNT({Field}) is the number of choices or entries' },
+  CONCAT: { min: 1, max: Infinity, description: 'CONCAT(a, b, ...) joins text' },
+  DAYS: { min: 2, max: 2, description: 'DAYS(end, start) is the number of days in between' },
+  TODAY: { min: 0, max: 0, description: "TODAY() is today's date" }
+};
+
+const OPERATORS = ['<=', '>=', '!=', '<>', '=', '<', '>', '+', '-', '*', '/', '%', '&', '(', ')', ','];
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a field is calculated
+ */
+export const isCalculatedField = (field: { type?: string; metadata?: { type?: string } | null }) =>
+  (field.type || field.metadata?.type) === 'calculated';
+
+/**
+ * Gets the calculation settings of a field
+ */
+export const getCalculation = (field: CalculatedField): CalculationSettings =>
+  field.calculation || field.metadata?.calculation || { formula: '' };
+
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < formula.length) {
+    const char = formula[index];
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(index).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, index);
+      tokens.push({ type: 'number', value: Number(match[1]), position: index });
+      index += match[1].length;
+    } else if (char === '"') {
+      const end = formula.indexOf('"', index + 1);
+      if (end === -1) throw new FormulaError('Text is missing its closing quote', index);
+      tokens.push({ type: 'string', value: formula.slice(index + 1, end), position: index });
+      index = end + 1;
+    } else if (char === '{') {
+      const end = formula.indexOf('}', index + 1);
+      if (end === -1) throw new FormulaError('Field reference is missing its closing brace', index);
+      const name = formula.slice(index + 1, end).trim();
+      if (!name) throw new FormulaError('Field reference is empty', index);
+      tokens.push({ type: 'field', value: name, position: index });
+      index = end + 1;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = formula.slice(index).match(/^[A-Za-z_][A-Za-z0-9_]*/)![0];
+      tokens.push({ type: 'name', value: name.toUpperCase(), position: index });
+      index += name.length;
+    } else {
+      const operator = OPERATORS.find(candidate => formula.startsWith(candidate, index));
+      if (!operator) throw new FormulaError(`Unexpected "${char}"`, index);
+      tokens.push({ type: 'operator', value: operator === '<>' ? '!=' : operator, position: index });
+      index += operator.length;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses a formula
+ * @param formula The formula as written by the form author
+ * @returns The parsed formula
+ * @throws FormulaError when the formula is not valid
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenize(formula);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const isOperator = (...values: string[]) => {
+    const token = peek();
+    return token?.type === 'operator' && values.includes(token.value);
+  };
+  const takeOperator = () => String(tokens[index++].value);
+  const endPosition = () => (peek() ? peek()!.position : formula.length);
+
+  const expect = (value: string) => {
+    if (!isOperator(value)) throw new FormulaError(`Expected "${value}"`, endPosition());
+    index++;
+  };
+
+  // Lowest to highest precedence: comparison, &, + -, * / %, unary minus
+  const parseComparison = (): FormulaNode => {
+    const left = parseConcatenation();
+    if (!isOperator('=', '!=', '<', '>', '<=', '>=')) return left;
+    const operator = takeOperator();
+    return { kind: 'binary', operator, left, right: parseConcatenation() };
+  };
+
+  const parseBinary = (operators: string[], parseOperand: () => FormulaNode) => (): FormulaNode => {
+    let node = parseOperand();
+    while (isOperator(...operators)) {
+      const operator = takeOperator();
+      node = { kind: 'binary', operator, left: node, right: parseOperand() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-', '+')) {
+      const operator = takeOperator() as '-' | '+';
+      return { kind: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseTerm = parseBinary(['*', '/', '%'], parseUnary);
+  const parseSum = parseBinary(['+', '-'], parseTerm);
+  const parseConcatenation = parseBinary(['&'], parseSum);
+
+  const parsePrimary = (): FormulaNode => {
+    const token = peek();
+    if (!token) throw new FormulaError('Formula ends unexpectedly', formula.length);
+    index++;
+
+    if (token.type === 'number' || token.type === 'string') return { kind: 'literal', value: token.value };
+    if (token.type === 'field') return { kind: 'field', name: token.value };
+
+    if (token.type === 'operator') {
+      if (token.value !== '(') throw new FormulaError(`Unexpected "${token.value}"`, token.position);
+      const node = parseComparison();
+      expect(')');
+      return node;
+    }
+
+    if (token.value === 'TRUE' || token.value === 'FALSE') return { kind: 'literal', value: token.value === 'TRUE' };
+
+    const definition = FORMULA_FUNCTIONS[token.value];
+    if (!definition) {
+      throw new FormulaError(`Unknown function "${token.value}"; refer to fields in braces, e.g. {${token.value}}`, token.position);
+    }
+
+    expect('(');
+    const args: FormulaNode[] = [];
+    if (!isOperator(')')) {
+      args.push(parseComparison());
+      while (isOperator(',')) {
+        index++;
+        args.push(parseComparison());
+      }
+    }
+    expect(')');
+
+    if (args.length < definition.min || args.length > definition.max) {
+      throw new FormulaError(`Wrong number of arguments: ${definition.description}`, token.position);
+    }
+    return { kind: 'call', name: token.value, args };
+  };
+
+  const node = parseComparison();
+  if (peek()) throw new FormulaError(`Unexpected "${peek()!.value}"`, peek()!.position);
+  return node;
+}
+
+/**
+ * Lists the field names a formula refers to
+ * @param node The parsed formula
+ * @returns The names as written in the braces
+ */
+export function formulaReferences(node: FormulaNode): string[] {
+  switch (node.kind) {
+    case 'field':
+      return [node.name];
+    case 'unary':
+      return formulaReferences(node.operand);
+    case 'binary':
+      return [...formulaReferences(node.left), ...formulaReferences(node.right)];
+    case 'call':
+      return node.args.flatMap(formulaReferences);
+    default:
+      return [];
+  }
+}
+
+const isBlank = (value: FormulaValue) =>
+  value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const toNumber = (value: FormulaValue): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return null;
+};
+
+const toText = (value: FormulaValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.filter(item => typeof item !== 'object').join(', ');
+  return String(value);
+};
+
+const isTruthy = (value: FormulaValue): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return !isBlank(value);
+};
+
+const toDay = (value: FormulaValue): number | null =>
+  typeof value === 'string' && DATE_REGEX.test(value) && !isNaN(Date.parse(value)) ? Date.parse(value) / DAY_MS : null;
+
+const compare = (operator: string, left: FormulaValue, right: FormulaValue): boolean => {
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  const [a, b] = leftNumber !== null && rightNumber !== null
+    ? [leftNumber, rightNumber]
+    : [toText(left).toLowerCase(), toText(right).toLowerCase()];
+
+  switch (operator) {
+    case '=': return a === b;
+    case '!=': return a !== b;
+    case '<': return a < b;
+    case '>': return a > b;
+    case '<=': return a <= b;
+    default: return a >= b;
+  }
+};
+
+const arithmetic = (operator: string, left: FormulaValue, right: FormulaValue): FormulaValue => {
+  // One date minus another is the number of days in between
+  if (operator === '-' && toDay(left) !== null && toDay(right) !== null) return toDay(left)! - toDay(right)!;
+
+  const a = toNumber(left);
+  const b = toNumber(right);
+  if (a === null || b === null) return null;
+
+  switch (operator) {
+    case '+': return a + b;
+    case '-': return a - b;
+    case '*': return a * b;
+    case '/': return b === 0 ? null : a / b;
+    default: return b === 0 ? null : a % b;
+  }
+};
+
+/**
+ * Gets a number of decimals that can be used, a whole number from 0 to MAX_CALCULATION_DECIMALS
+ * @param decimals The number of decimals asked for
+ * @returns The number of decimals, or null when it is not set or not a number
+ */
+export const calculationDecimals = (decimals?: number | null): number | null =>
+  typeof decimals === 'number' && Number.isFinite(decimals)
+    ? Math.min(Math.max(Math.round(decimals), 0), MAX_CALCULATION_DECIMALS)
+    : null;
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = Math.pow(10, calculationDecimals(decimals) ?? 0);
+  return Math.round(value * factor) / factor;
+};
+
+// The numbers of a list of arguments, with lists spread out and blanks left out
+const numbersOf = (values: FormulaValue[]): number[] =>
+  values
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .map(toNumber)
+    .filter((value): value is number => value !== null);
+
+/**
+ * Evaluates a parsed formula
+ * @param node The parsed formula
+ * @param resolve Gets the value of a field reference by the name written in the braces
+ * @returns The result, or null when it can't be computed, e.g. because of a blank answer
+ */
+export function evaluateFormula(node: FormulaNode, resolve: (name: string) => FormulaValue): FormulaValue {
+  const evaluate = (child: FormulaNode) => evaluateFormula(child, resolve);
+
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'field': {
+      const value = resolve(node.name);
+      return value === undefined || isBlank(value) ? null : value;
+    }
+    case 'unary': {
+      const value = toNumber(evaluate(node.operand));
+      return value === null ? null : node.operator === '-' ? -value : value;
+    }
+    case 'binary': {
+      const left = evaluate(node.left);
+      const right = evaluate(node.right);
+      if (node.operator === '&') return toText(left) + toText(right);
+      if (['=', '!=', '<', '>', '<=', '>='].includes(node.operator)) return compare(node.operator, left, right);
+      return arithmetic(node.operator, left, right);
+    }
+  }
+
+  const args = node.args;
+  switch (node.name) {
+    case 'IF':
+      // Only the branch that applies is evaluated
+      return isTruthy(evaluate(args[0])) ? evaluate(args[1]) : args[2] ? evaluate(args[2]) : null;
+    case 'AND':
+      return args.every(arg => isTruthy(evaluate(arg)));
+    case 'OR':
+      return args.some(arg => isTruthy(evaluate(arg)));
+    case 'NOT':
+      return !isTruthy(evaluate(args[0]));
+    case 'ROUND': {
+      const value = toNumber(evaluate(args[0]));
+      const decimals = args[1] ? toNumber(evaluate(args[1])) ?? 0 : 0;
+      return value === null ? null : roundTo(value, decimals);
+    }
+    case 'MIN':
+    case 'MAX':
+    case 'SUM': {
+      const numbers = numbersOf(args.map(evaluate));
+      if (node.name === 'SUM') return numbers.reduce((total, value) => total + value, 0);
+      if (numbers.length === 0) return null;
+      return node.name === 'MIN' ? Math.min(...numbers) : Math.max(...numbers);
+    }
+    case 'ABS': {
+      const value = toNumber(evaluate(args[0]));
+      return value === null ? null : Math.abs(value);
+    }
+    case 'COUNT': {
+      const value = evaluate(args[0]);
+      return Array.isArray(value) ? value.length : isBlank(value) ? 0 : 1;
+    }
+    case 'CONCAT':
+      return args.map(arg => toText(evaluate(arg))).join('');
+    case 'DAYS': {
+      const end = toDay(evaluate(args[0]));
+      const start = toDay(evaluate(args[1]));
+      return end === null || start === null ? null : end - start;
+    }
+    case 'TODAY':
+      // UTC, so the server computes the same day wherever it runs
+      return new Date().toISOString().slice(0, 10);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Checks a formula for problems an author should fix
+ * @param formula The formula
+ * @param fields The fields of the form, for checking field references and the formulas
+ *   of other calculated fields
+ * @param fieldId The ID of the calculated field itself, which a formula can't refer to
+ * @returns A description of the first problem, or null when the formula is fine
+ */
+export function checkFormula(formula: string, fields: Array<CalculatedField & { id: string; label?: string }>, fieldId?: string): string | null {
+  if (!formula.trim()) return 'Enter a formula';
+
+  let node: FormulaNode;
+  try {
+    node = parseFormula(formula);
+  } catch (err: any) {
+    return err.message;
+  }
+
+  for (const name of formulaReferences(node)) {
+    const field = findReferencedField(fields, name);
+    if (!field) return `There is no field called "${name}"`;
+    if (field.id === fieldId) return 'A formula can\'t refer to its own field';
+  }
+
+  if (fieldId) {
+    const withFormula = fields.map(field => (field.id === fieldId ? { ...field, type: 'calculated', calculation: { formula } } : field));
+    if (findCalculationCycles(withFormula).has(fieldId)) {
+      return 'The formula refers back to its own field through other calculated fields';
+    }
+  }
+  return null;
+}
+
+const findReferencedField = <T extends { id: string; label?: string }>(fields: T[], name: string): T | undefined =>
+  fields.find(field => field.id === name) ||
+  fields.find(field => !!field.label && normalizeFieldKey(field.label) === normalizeFieldKey(name));
+
+/**
+ * Finds the calculated fields that refer back to themselves through other calculated
+ * fields, e.g. when A uses B and B uses A
+ * @param fields The fields of the form
+ * @returns The IDs of the calculated fields in a cycle
+ */
+export function findCalculationCycles<T extends CalculatedField & { id: string; label?: string }>(fields: T[]): Set<string> {
+  // The calculated fields each calculated field refers to
+  const references = new Map<string, string[]>();
+  fields.filter(isCalculatedField).forEach(field => {
+    let names: string[] = [];
+    try {
+      names = formulaReferences(parseFormula(getCalculation(field).formula));
+    } catch {
+      // Invalid formulas get no result, so they refer to nothing
+    }
+    const referenced = names.map(name => findReferencedField(fields, name)).filter((other): other is T => !!other && isCalculatedField(other));
+    references.set(field.id, referenced.map(other => other.id));
+  });
+
+  const reaches = (from: string, target: string, seen: Set<string>): boolean =>
+    (references.get(from) || []).some(id => {
+      if (id === target) return true;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return reaches(id, target, seen);
+    });
+
+  return new Set(Array.from(references.keys()).filter(id => reaches(id, id, new Set())));
+}
+
+/**
+ * Formats the result of a formula for storage: numbers are rounded, true and false
+ * become Yes and No, and lists become text
+ * @param value The result
+ * @param decimals The number of decimals to round numbers to, if set
+ * @returns The answer to store, or null when there is no result
+ */
+export function formulaResult(value: FormulaValue, decimals?: number | null): number | string | null {
+  if (value === null) return null;
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return null;
+    // Rounds away floating point noise, e.g. 0.1 + 0.2
+    return roundTo(value, calculationDecimals(decimals) ?? MAX_CALCULATION_DECIMALS);
+  }
+  return toText(value) || null;
+}
+
+/**
+ * Computes the calculated fields of a response from the other answers. Calculated
+ * fields can use each other's results; a field that refers to itself through others
+ * (see findCalculationCycles), has an invalid formula or is hidden gets no result.
+ * @param fields The fields of the form
+ * @param answers The answers, keyed by field ID
+ * @returns The answers with the results of the calculated fields, which replace any given
+ */
+export function computeCalculatedAnswers<T extends CalculatedField>(fields: T[], answers: Record<string, any>): Record<string, any> {
+  const calculatedFields = fields.filter(isCalculatedField);
+  if (calculatedFields.length === 0) return answers;
+
+  const computed = { ...answers };
+  calculatedFields.forEach(field => delete computed[field.id]);
+
+  // Fields in a cycle are left blank up front, so the results don't depend on field order
+  const results = new Map<string, number | string | null>();
+  findCalculationCycles(fields).forEach(fieldId => results.set(fieldId, null));
+
+  const compute = (field: T): number | string | null => {
+    if (results.has(field.id)) return results.get(field.id)!;
+
+    const { formula, decimals } = getCalculation(field);
+    let result: number | string | null = null;
+    try {
+      const value = evaluateFormula(parseFormula(formula), name => {
+        const referenced = findReferencedField(fields, name);
+        if (!referenced) return null;
+        if (isCalculatedField(referenced)) return compute(referenced);
+        const value = computed[referenced.id];
+        return isAddressValue(value) ? formatAddress(value) : value ?? null;
+      });
+      result = formulaResult(value, decimals);
+    } catch {
+      result = null;
+    }
+    results.set(field.id, result);
+    return result;
+  };
+
+  calculatedFields.forEach(field => compute(field));
+
+  // Hidden calculated fields are left out like other hidden answers
+  const withResults = { ...computed };
+  results.forEach((result, fieldId) => {
+    if (result !== null) withResults[fieldId] = result;
+  });
+  const hidden = getHiddenFieldIds(fields, withResults);
+  hidden.forEach(fieldId => {
+    if (results.has(fieldId)) delete withResults[fieldId];
+  });
+
+  return withResults;
+}
+
+/**
+ * Formats the result of a calculated field for display
+ * @param value The result
+ * @param decimals The number of decimals to show numbers with, if set
+ * @returns The result as text, or an empty string when there is none
+ */
+export function formatCalculatedValue(value: any, decimals?: number | null): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'number') {
+    const digits = calculationDecimals(decimals);
+    return digits !== null
+      ? value.toLocaleString(undefined, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+      : value.toLocaleString(undefined, { maximumFractionDigits: MAX_CALCULATION_DECIMALS });
+  }
+  return String(value);
+}
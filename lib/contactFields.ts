@@ -0,0 +1,215 @@
+/**
+ * Phone, URL and address fields. Phone numbers are stored in E.164 format
+ * (`+14155552671`) and web addresses as full URLs; both are normalized on the server
+ * before a response is stored. Addresses are stored as structured objects, so
+ * templates can refer to their parts, e.g. `{{Address.city}}`.
+ */
+
+/**
+ * Interface for a country a phone number can belong to
+ */
+export interface PhoneCountry {
+  /** ISO 3166 country code */
+  code: string;
+  name: string;
+  /** Country calling code, without the plus */
+  dialCode: string;
+}
+
+/**
+ * Interface for the answer of an address field, as kept in `form_responses.data`
+ */
+export interface AddressValue {
+  street: string;
+  city: string;
+  /** State, province or county */
+  region: string;
+  postal_code: string;
+  country: string;
+}
+
+export type AddressPart = keyof AddressValue;
+
+/** The parts of an address, in the order they are asked and shown */
+export const ADDRESS_PARTS: { key: AddressPart; label: string }[] = [
+  { key: 'street', label: 'Street address' },
+  { key: 'city', label: 'City' },
+  { key: 'region', label: 'State / Province' },
+  { key: 'postal_code', label: 'Postal code' },
+  { key: 'country', label: 'Country' }
+];
+
+/** Parts an address needs once any of it is filled in */
+export const REQUIRED_ADDRESS_PARTS: AddressPart[] = ['street', 'city', 'country'];
+
+/** Countries offered by phone fields; the first is the default */
+export const PHONE_COUNTRIES: PhoneCountry[] = [
+  { code: 'US', name: 'United States', dialCode: '1' },
+  { code: 'CA', name: 'Canada', dialCode: '1' },
+  { code: 'GB', name: 'United Kingdom', dialCode: '44' },
+  { code: 'IE', name: 'Ireland', dialCode: '353' },
+  { code: 'AU', name: 'Australia', dialCode: '61' },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64' },
+  { code: 'DE', name: 'Germany', dialCode: '49' },
+  { code: 'FR', name: 'France', dialCode: '33' },
+  { code: 'ES', name: 'Spain', dialCode: '34' },
+  { code: 'IT', name: 'Italy', dialCode: '39' },
+  { code: 'NL', name: 'Netherlands', dialCode: '31' },
+  { code: 'BE', name: 'Belgium', dialCode: '32' },
+  { code: 'CH', name: 'Switzerland', dialCode: '41' },
+  { code: 'AT', name: 'Austria', dialCode: '43' },
+  { code: 'SE', name: 'Sweden', dialCode: '46' },
+  { code: 'NO', name: 'Norway', dialCode: '47' },
+  { code: 'DK', name: 'Denmark', dialCode: '45' },
+  { code: 'FI', name: 'Finland', dialCode: '358' },
+  { code: 'PL', name: 'Poland', dialCode: '48' },
+  { code: 'PT', name: 'Portugal', dialCode: '351' },
+  { code: 'MX', name: 'Mexico', dialCode: '52' },
+  { code: 'BR', name: 'Brazil', dialCode: '55' },
+  { code: 'AR', name: 'Argentina', dialCode: '54' },
+  { code: 'IN', name: 'India', dialCode: '91' },
+  { code: 'CN', name: 'China', dialCode: '86' },
+  { code: 'JP', name: 'Japan', dialCode: '81' },
+  { code: 'KR', name: 'South Korea', dialCode: '82' },
+  { code: 'SG', name: 'Singapore', dialCode: '65' },
+  { code: 'ZA', name: 'South Africa', dialCode: '27' },
+  { code: 'NG', name: 'Nigeria', dialCode: '234' },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971' },
+  { code: 'IL', name: 'Israel', dialCode: '972' }
+];
+
+// E.164 allows up to 15 digits including the country code; shorter than 8 is not a full number
+const E164_REGEX = /^\+[1-9]\d{7,14}$/;
+
+// Countries whose numbers keep their leading zero after the country code
+const KEEPS_LEADING_ZERO = ['39'];
+
+/**
+ * Normalizes a phone number written with its country code to E.164, e.g.
+ * "+1 (415) 555-2671" or "001 415 555 2671" to "+14155552671"
+ * @param value The phone number as entered
+ * @returns The number in E.164 format, or null if it is not a valid international number
+ */
+export function normalizePhone(value: string): string | null {
+  const compact = value
+    .trim()
+    .replace(/\(0\)/g, '')
+    .replace(/[\s().\-/]/g, '')
+    .replace(/^00/, '+');
+  return E164_REGEX.test(compact) ? compact : null;
+}
+
+/**
+ * Combines a country calling code and a national number into an E.164 number. The
+ * trunk prefix 0 used when dialling within a country is dropped, e.g. UK 020 becomes +4420.
+ * @param dialCode The country calling code, without the plus
+ * @param nationalNumber The number as entered, with any spacing
+ * @returns The E.164 number, or an empty string when no number was entered
+ */
+export function toE164(dialCode: string, nationalNumber: string): string {
+  let digits = nationalNumber.replace(/\D/g, '');
+  if (!KEEPS_LEADING_ZERO.includes(dialCode)) digits = digits.replace(/^0+/, '');
+  return digits ? `+${dialCode}${digits}` : '';
+}
+
+/**
+ * Splits an E.164 number into its country and national number, for editing
+ * @param value The stored phone number
+ * @param fallback The country to use when the number doesn't start with a known calling code
+ * @returns The country and the rest of the number
+ */
+export function splitPhoneNumber(value: string, fallback: PhoneCountry = PHONE_COUNTRIES[0]): { country: PhoneCountry; nationalNumber: string } {
+  const digits = value.startsWith('+') ? value.slice(1).replace(/\D/g, '') : '';
+  const country = PHONE_COUNTRIES
+    .filter(candidate => digits.startsWith(candidate.dialCode))
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)[0];
+
+  // Numbers shared by several countries, like +1, keep the country already chosen
+  if (country && fallback.dialCode === country.dialCode) {
+    return { country: fallback, nationalNumber: digits.slice(country.dialCode.length) };
+  }
+  return country
+    ? { country, nationalNumber: digits.slice(country.dialCode.length) }
+    : { country: fallback, nationalNumber: value };
+}
+
+/**
+ * Normalizes a web address to a full http(s) URL, adding `https://` when no scheme is given
+ * @param value The web address as entered, e.g. "example.com/about"
+ * @returns The full URL, or null if it is not a valid web address
+ */
+export function normalizeUrl(value: string): string | null {
+  const trimmed = value.trim();
+  if (!trimmed || /\s/.test(trimmed)) return null;
+
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    // A host name needs a domain ending, e.g. example.com, unless it is localhost
+    if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+    return url.href;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a value is an address answer: an object with only address parts as text
+ */
+export const isAddressValue = (value: any): value is AddressValue =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  Object.keys(value).length > 0 &&
+  Object.entries(value).every(([key, part]) =>
+    ADDRESS_PARTS.some(candidate => candidate.key === key) && (part === undefined || part === null || typeof part === 'string'));
+
+/**
+ * Checks whether none of the parts of an address are filled in
+ */
+export const isBlankAddress = (address: Partial<AddressValue>) =>
+  ADDRESS_PARTS.every(({ key }) => !address[key]?.trim());
+
+/**
+ * Lists the required parts missing from an address that is partly filled in
+ */
+export const missingAddressParts = (address: Partial<AddressValue>) =>
+  ADDRESS_PARTS.filter(({ key }) => REQUIRED_ADDRESS_PARTS.includes(key) && !address[key]?.trim());
+
+/**
+ * Formats an address as text, leaving out parts that are not filled in
+ * @param address The address
+ * @param separator Placed between the lines of the address
+ * @returns E.g. "1 Main St, Springfield, IL 62701, United States"
+ */
+export function formatAddress(address: Partial<AddressValue>, separator = ', '): string {
+  const part = (key: AddressPart) => address[key]?.trim() || '';
+  const regionLine = [part('region'), part('postal_code')].filter(Boolean).join(' ');
+  return [part('street'), part('city'), regionLine, part('country')].filter(Boolean).join(separator);
+}
+
+/**
+ * Normalizes the phone, URL and address answers of a response for storage. Answers
+ * that can't be normalized are kept as given; validation reports them.
+ * @param fields The fields of the form
+ * @param answers The answers, keyed by field ID
+ * @returns The answers with phone numbers in E.164, full URLs and trimmed addresses
+ */
+export function normalizeContactAnswers(fields: Array<{ id: string; type?: string }>, answers: Record<string, any>): Record<string, any> {
+  const normalized = { ...answers };
+
+  fields.forEach(field => {
+    const value = normalized[field.id];
+
+    if (field.type === 'phone' && typeof value === 'string') {
+      normalized[field.id] = normalizePhone(value) ?? value;
+    } else if (field.type === 'url' && typeof value === 'string') {
+      normalized[field.id] = normalizeUrl(value) ?? value;
+    } else if (field.type === 'address' && isAddressValue(value)) {
+      normalized[field.id] = ADDRESS_PARTS.reduce((address, { key }) => ({ ...address, [key]: value[key]?.trim() || '' }), {} as AddressValue);
+    }
+  });
+
+  return normalized;
+}
@@ -0,0 +1,330 @@
+/**
+ * Structure of a rendered document, shared by the Word and PDF output so both
+ * lay out the same headings, paragraphs, lists and tables.
+ *
+ * Rendered template text is read with a small set of line-based conventions:
+ * - `# `, `## `, `### ` at the start of a line make a heading
+ * - `- ` or `* ` make a bulleted list item, `1. ` a numbered one
+ * - lines of the form `| a | b |` make a table; a `|---|---|` line after the
+ *   first row marks it as the header row
+ * - a line with only `---` draws a horizontal rule, and a line with only
+ *   `\pagebreak` starts a new page
+ * - blank lines separate paragraphs; other line breaks are kept within a paragraph
+ * - within any text, `**bold**`, `*italic*` and `***bold italic***` mark emphasis
+ * - `![alt](data:image/png;base64,...)`, as written by the `image` filter, inserts a
+ *   PNG image on a line of its own. In headings, list items and tables only the
+ *   alt text is shown.
+ *
+ * Answers put into a template are escaped with escapeMarkup, so they are shown as
+ * written: only the template itself and the `image` filter can add markup.
+ */
+
+/**
+ * A run of text with the same emphasis
+ */
+export interface InlineRun {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+}
+
+export interface HeadingBlock {
+  type: 'heading';
+  level: 1 | 2 | 3;
+  text: string;
+}
+
+export interface ParagraphBlock {
+  type: 'paragraph';
+  lines: string[];
+}
+
+export interface ListBlock {
+  type: 'list';
+  ordered: boolean;
+  items: string[];
+}
+
+export interface TableBlock {
+  type: 'table';
+  /** Whether the first row is a header row */
+  header: boolean;
+  rows: string[][];
+}
+
+export interface RuleBlock {
+  type: 'rule';
+}
+
+export interface PageBreakBlock {
+  type: 'page_break';
+}
+
+export interface ImageBlock {
+  type: 'image';
+  /** PNG data URL */
+  src: string;
+  alt: string;
+  /** Size of the image in pixels */
+  width: number;
+  height: number;
+}
+
+export type DocumentBlock = HeadingBlock | ParagraphBlock | ListBlock | TableBlock | RuleBlock | PageBreakBlock | ImageBlock;
+
+/** The largest size an image is shown at, in millimetres */
+export const IMAGE_MAX_SIZE_MM = { width: 70, height: 30 };
+
+/**
+ * Marks the character after it as literal text rather than markup. It is a Unicode
+ * private use character, so it doesn't clash with text typed into a form.
+ */
+export const MARKUP_ESCAPE = '\uE000';
+
+const MARKUP_CHARACTERS_REGEX = /[\\*#\-|![\].)]/g;
+const ESCAPED_CHARACTER = `${MARKUP_ESCAPE}[\\s\\S]`;
+// Emphasis markers must hug the text they mark, so a lone `*` (e.g. "5 * 3") stays literal
+const EMPHASIS_EDGE = `(?:[^\\s*${MARKUP_ESCAPE}]|${ESCAPED_CHARACTER})`;
+const EMPHASIS_TEXT = `(${EMPHASIS_EDGE}(?:(?:[^*${MARKUP_ESCAPE}]|${ESCAPED_CHARACTER})*${EMPHASIS_EDGE})?)`;
+
+const HEADING_REGEX = /^(#{1,3})\s+(.*)$/;
+const BULLET_REGEX = /^\s*[-*]\s+(.*)$/;
+const NUMBERED_REGEX = /^\s*\d+[.)]\s+(.*)$/;
+const TABLE_ROW_REGEX = /^\s*\|((?:.*[^\uE000])?)\|\s*$/;
+const TABLE_SEPARATOR_REGEX = /^\s*\|(\s*:?-+:?\s*\|)+\s*$/;
+const RULE_REGEX = /^\s*-{3,}\s*$/;
+const PAGE_BREAK_REGEX = /^\s*\\pagebreak\s*$/;
+const IMAGE_REGEX = /!\[([^\]\n]*)\]\((data:image\/png;base64,[A-Za-z0-9+/]+={0,2})\)/g;
+// Escaped characters are matched first, so an escaped `*` can't open emphasis
+const EMPHASIS_REGEX = new RegExp(
+  `${ESCAPED_CHARACTER}|\\*\\*\\*${EMPHASIS_TEXT}\\*\\*\\*|\\*\\*${EMPHASIS_TEXT}\\*\\*|\\*${EMPHASIS_TEXT}\\*`,
+  'g'
+);
+
+/**
+ * Removes the escapes added by escapeMarkup
+ */
+export const unescapeMarkup = (text: string) => text.split(MARKUP_ESCAPE).join('');
+
+/**
+ * Escapes the markup in text, so it is shown as written, e.g. an answer starting with
+ * `# ` stays text instead of becoming a heading
+ * @param text Text to put into a document
+ * @returns The text, with MARKUP_ESCAPE before each character that could be markup
+ */
+export const escapeMarkup = (text: string) =>
+  unescapeMarkup(text).replace(MARKUP_CHARACTERS_REGEX, char => MARKUP_ESCAPE + char);
+
+/**
+ * Writes an image in the document text
+ * @param src A PNG data URL
+ * @param alt Text describing the image
+ * @returns The image, as a line of document text
+ */
+export const imageMarkdown = (src: string, alt: string) =>
+  `![${escapeMarkup(alt.replace(/[\]\r\n]+/g, ' ').trim())}](${src})`;
+
+/**
+ * Replaces the images in text with their alt text, e.g. for plain text output
+ */
+export const replaceImagesWithAltText = (text: string) =>
+  text.replace(new RegExp(IMAGE_REGEX.source, 'g'), (_, alt) => alt);
+
+/**
+ * Converts document text to plain text, with images replaced by their alt text and
+ * escaped markup shown as written
+ */
+export const toPlainText = (text: string) => unescapeMarkup(replaceImagesWithAltText(text));
+
+/**
+ * Reads the size of a PNG image from its header
+ * @param src A PNG data URL
+ * @returns The width and height in pixels, or null if the image is not a valid PNG
+ */
+export function pngSize(src: string): { width: number; height: number } | null {
+  // The IHDR chunk holds the width and height at bytes 16-23, i.e. within the first 32 base64 characters
+  const header = src.slice(src.indexOf(',') + 1, src.indexOf(',') + 33);
+  let bytes: number[];
+  try {
+    bytes = Array.from(atob(header), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+  if (bytes.length < 24 || bytes[1] !== 0x50 || bytes[2] !== 0x4e || bytes[3] !== 0x47) return null;
+
+  const readInt = (offset: number) =>
+    ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+  const width = readInt(16);
+  const height = readInt(20);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
+
+/**
+ * Scales an image down to fit within `IMAGE_MAX_SIZE_MM`, keeping its aspect ratio.
+ * Images are taken to be 96 dpi and are not scaled up.
+ * @returns The width and height to show the image at, in millimetres
+ */
+export function imageSizeMm(image: { width: number; height: number }): { width: number; height: number } {
+  const width = (image.width * 25.4) / 96;
+  const height = (image.height * 25.4) / 96;
+  const scale = Math.min(1, IMAGE_MAX_SIZE_MM.width / width, IMAGE_MAX_SIZE_MM.height / height);
+  return { width: width * scale, height: height * scale };
+}
+
+/**
+ * Splits text into the text around its images and the images themselves
+ * @param line The text, usually a single line
+ * @returns The pieces of text and the images, in order; just the text if there are no images
+ */
+export const splitImages = (line: string): (string | ImageBlock)[] => {
+  const parts: (string | ImageBlock)[] = [];
+  const regex = new RegExp(IMAGE_REGEX.source, 'g');
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(line)) !== null) {
+    const size = pngSize(match[2]);
+    if (!size) continue;
+    parts.push(line.substring(lastIndex, match.index));
+    parts.push({ type: 'image', src: match[2], alt: unescapeMarkup(match[1]), ...size });
+    lastIndex = regex.lastIndex;
+  }
+
+  parts.push(line.substring(lastIndex));
+  return parts;
+};
+
+/**
+ * Splits text into runs of bold, italic and plain text
+ * @param source Text with `**bold**`, `*italic*` and `***bold italic***` markers
+ * @returns The runs, without the markers
+ */
+export function parseInline(source: string): InlineRun[] {
+  const text = replaceImagesWithAltText(source);
+  const runs: InlineRun[] = [];
+  const regex = new RegExp(EMPHASIS_REGEX.source, 'g');
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(text)) !== null) {
+    if (match[1] === undefined && match[2] === undefined && match[3] === undefined) continue;
+    if (match.index > lastIndex) {
+      runs.push({ text: unescapeMarkup(text.substring(lastIndex, match.index)), bold: false, italic: false });
+    }
+    if (match[1] !== undefined) runs.push({ text: unescapeMarkup(match[1]), bold: true, italic: true });
+    else if (match[2] !== undefined) runs.push({ text: unescapeMarkup(match[2]), bold: true, italic: false });
+    else runs.push({ text: unescapeMarkup(match[3]), bold: false, italic: true });
+    lastIndex = regex.lastIndex;
+  }
+
+  if (lastIndex < text.length) {
+    runs.push({ text: unescapeMarkup(text.substring(lastIndex)), bold: false, italic: false });
+  }
+
+  return runs;
+}
+
+/**
+ * Removes emphasis markers from text
+ */
+export const stripInline = (text: string) => parseInline(text).map(run => run.text).join('');
+
+/**
+ * Splits a table row into its trimmed cells. Escaped `|` characters stay in their cell.
+ */
+const splitTableRow = (line: string): string[] => {
+  const match = line.match(TABLE_ROW_REGEX);
+  if (!match) return [line.trim()];
+
+  const cells = [''];
+  match[1].split('|').forEach((piece, index) => {
+    if (index > 0) {
+      if (cells[cells.length - 1].endsWith(MARKUP_ESCAPE)) cells[cells.length - 1] += '|';
+      else cells.push('');
+    }
+    cells[cells.length - 1] += piece;
+  });
+  return cells.map(cell => cell.trim());
+};
+
+/**
+ * Parses rendered document text into blocks
+ * @param text The rendered template text
+ * @returns The blocks of the document, in order
+ */
+export function parseDocument(text: string): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  const lines = (text || '').replace(/\r\n?/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', lines: paragraph });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const heading = line.match(HEADING_REGEX);
+    const bullet = line.match(BULLET_REGEX);
+    const numbered = line.match(NUMBERED_REGEX);
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else if (PAGE_BREAK_REGEX.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'page_break' });
+    } else if (RULE_REGEX.test(line)) {
+      flushParagraph();
+      blocks.push({ type: 'rule' });
+    } else if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length as 1 | 2 | 3, text: heading[2].trim() });
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !bullet;
+      const previous = blocks[blocks.length - 1];
+      const item = (bullet || numbered)![1];
+
+      if (previous && previous.type === 'list' && previous.ordered === ordered) {
+        previous.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+    } else if (TABLE_ROW_REGEX.test(line)) {
+      flushParagraph();
+      const table: TableBlock = { type: 'table', header: false, rows: [splitTableRow(line)] };
+
+      while (i + 1 < lines.length && TABLE_ROW_REGEX.test(lines[i + 1])) {
+        i++;
+        if (TABLE_SEPARATOR_REGEX.test(lines[i])) {
+          table.header = table.header || table.rows.length === 1;
+        } else {
+          table.rows.push(splitTableRow(lines[i]));
+        }
+      }
+
+      blocks.push(table);
+    } else {
+      const parts = splitImages(line);
+      if (parts.length === 1) {
+        paragraph.push(line);
+        continue;
+      }
+
+      // Text before an image ends its paragraph; text after it starts a new one
+      parts.forEach(part => {
+        if (typeof part !== 'string') {
+          flushParagraph();
+          blocks.push(part);
+        } else if (part.trim() !== '') {
+          paragraph.push(part.trim());
+        }
+      });
+    }
+  }
+
+  flushParagraph();
+  return blocks;
+}
@@ -0,0 +1,170 @@
+/**
+ * Conditional visibility of form fields. A field with visibility rules is only shown
+ * when its conditions hold for the answers given so far, e.g. "Dietary Requirements"
+ * only when "Attending Dinner" is "Yes".
+ *
+ * Conditions are collected in groups. A group holds when all (AND) or any (OR) of its
+ * conditions hold, and the field is shown when all or any of its groups hold.
+ * Hidden fields are not validated and their answers are not stored.
+ */
+
+export type VisibilityOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'empty'
+  | 'not_empty'
+  | 'greater_than'
+  | 'less_than';
+
+export type VisibilityMatch = 'all' | 'any';
+
+/**
+ * Interface for a condition on the answer of another field
+ */
+export interface VisibilityCondition {
+  field_id: string;
+  operator: VisibilityOperator;
+  value?: string;
+}
+
+export interface VisibilityGroup {
+  match: VisibilityMatch;
+  conditions: VisibilityCondition[];
+}
+
+/**
+ * Interface for the visibility rules of a field
+ */
+export interface VisibilityRules {
+  match: VisibilityMatch;
+  groups: VisibilityGroup[];
+}
+
+/**
+ * Interface for the parts of a form field that visibility is evaluated with
+ */
+export interface VisibilityField {
+  id: string;
+  visibility?: VisibilityRules | null;
+  metadata?: { visibility?: VisibilityRules | null } | null;
+}
+
+export const VISIBILITY_OPERATORS: Array<{ value: VisibilityOperator; label: string; needsValue: boolean }> = [
+  { value: 'equals', label: 'is', needsValue: true },
+  { value: 'not_equals', label: 'is not', needsValue: true },
+  { value: 'contains', label: 'contains', needsValue: true },
+  { value: 'not_contains', label: 'does not contain', needsValue: true },
+  { value: 'empty', label: 'is empty', needsValue: false },
+  { value: 'not_empty', label: 'is not empty', needsValue: false },
+  { value: 'greater_than', label: 'is greater than', needsValue: true },
+  { value: 'less_than', label: 'is less than', needsValue: true },
+];
+
+const fieldVisibility = (field: VisibilityField) => field.visibility || field.metadata?.visibility || null;
+
+/**
+ * Checks whether a field has visibility rules with at least one condition
+ */
+export const hasVisibilityRules = (field: VisibilityField) =>
+  !!fieldVisibility(field)?.groups.some(group => group.conditions.length > 0);
+
+const isEmpty = (value: any) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '') || (Array.isArray(value) && value.length === 0);
+
+const asText = (value: any) => (Array.isArray(value) ? value.join(', ') : isEmpty(value) ? '' : String(value).trim());
+
+/**
+ * Compares numerically when both sides are numbers, and as text otherwise (which orders YYYY-MM-DD dates)
+ */
+const compare = (value: any, expected: string) => {
+  const actual = asText(value);
+  const a = Number(actual);
+  const b = Number(expected);
+  if (actual !== '' && expected.trim() !== '' && !isNaN(a) && !isNaN(b)) {
+    return a - b;
+  }
+  return actual < expected ? -1 : actual > expected ? 1 : 0;
+};
+
+/**
+ * Evaluates a single condition against an answer
+ * @param condition The condition
+ * @param value The answer of the field the condition refers to
+ * @returns Whether the condition holds
+ */
+export function evaluateVisibilityCondition(condition: VisibilityCondition, value: any): boolean {
+  const expected = (condition.value ?? '').trim();
+
+  switch (condition.operator) {
+    case 'empty':
+      return isEmpty(value);
+    case 'not_empty':
+      return !isEmpty(value);
+    case 'contains':
+    case 'not_contains': {
+      const contains = Array.isArray(value)
+        ? value.map(String).includes(expected)
+        : asText(value).toLowerCase().includes(expected.toLowerCase());
+      return condition.operator === 'contains' ? contains : !contains;
+    }
+    case 'greater_than':
+      return !isEmpty(value) && compare(value, expected) > 0;
+    case 'less_than':
+      return !isEmpty(value) && compare(value, expected) < 0;
+    case 'not_equals':
+      return asText(value) !== expected;
+    default:
+      return asText(value) === expected;
+  }
+}
+
+/**
+ * Works out which fields are hidden for the given answers. A condition on a hidden
+ * field sees an empty answer, so fields that depend on hidden fields are evaluated
+ * as if those were never answered. Circular rules are cut where they loop back, by
+ * treating the field being evaluated as visible there.
+ * @param fields The fields of the form
+ * @param data The answers, keyed by field ID
+ * @returns The IDs of the hidden fields
+ */
+export function getHiddenFieldIds(fields: VisibilityField[], data: Record<string, any>): Set<string> {
+  const byId = new Map(fields.map(field => [field.id, field]));
+  const visible = new Map<string, boolean>();
+  const evaluating = new Set<string>();
+
+  const isVisible = (fieldId: string): boolean => {
+    if (visible.has(fieldId)) return visible.get(fieldId)!;
+    const field = byId.get(fieldId);
+    if (!field || !hasVisibilityRules(field) || evaluating.has(fieldId)) return true;
+
+    evaluating.add(fieldId);
+    const rules = fieldVisibility(field)!;
+    const groups = rules.groups.filter(group => group.conditions.length > 0);
+    const groupHolds = (group: VisibilityGroup) => {
+      const results = group.conditions.map(condition =>
+        evaluateVisibilityCondition(condition, isVisible(condition.field_id) ? data[condition.field_id] : undefined)
+      );
+      return group.match === 'any' ? results.some(Boolean) : results.every(Boolean);
+    };
+    const result = rules.match === 'any' ? groups.some(groupHolds) : groups.every(groupHolds);
+    evaluating.delete(fieldId);
+
+    visible.set(fieldId, result);
+    return result;
+  };
+
+  return new Set(fields.filter(field => !isVisible(field.id)).map(field => field.id));
+}
+
+/**
+ * Removes the answers of hidden fields, so they are not stored with the response
+ * @param fields The fields of the form
+ * @param data The answers, keyed by field ID
+ * @returns The answers of the visible fields
+ */
+export function omitHiddenAnswers(fields: VisibilityField[], data: Record<string, any>): Record<string, any> {
+  const hidden = getHiddenFieldIds(fields, data);
+  return Object.fromEntries(Object.entries(data).filter(([fieldId]) => !hidden.has(fieldId)));
+}
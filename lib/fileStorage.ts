@@ -0,0 +1,114 @@
+/**
+ * Storage for files uploaded with form responses. Files go to a Supabase Storage
+ * bucket; for development without a storage bucket, setting FILE_STORAGE=local keeps
+ * them on disk in LOCAL_STORAGE_DIR (default `.local-storage`) instead.
+ * Server-only: the local adapter uses the file system.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RESPONSE_FILES_BUCKET } from '@/lib/fileUploads';
+
+/**
+ * Interface for a place to keep uploaded files
+ */
+export interface FileStorage {
+  upload(filePath: string, contents: ArrayBuffer, contentType: string): Promise<void>;
+  /** Returns null when there is no file at the path */
+  download(filePath: string): Promise<{ contents: ArrayBuffer; contentType: string } | null>;
+  /** Returns the size in bytes and content type of the file, or null when there is no file at the path */
+  stat(filePath: string): Promise<{ size: number; contentType: string } | null>;
+}
+
+/**
+ * Keeps files in a Supabase Storage bucket
+ * @param supabase The client to access storage with
+ * @param bucket The name of the bucket
+ */
+export function createSupabaseStorage(supabase: SupabaseClient, bucket: string): FileStorage {
+  return {
+    async upload(filePath, contents, contentType) {
+      const { error } = await supabase.storage.from(bucket).upload(filePath, contents, { contentType });
+      if (error) throw new Error(error.message);
+    },
+
+    async download(filePath) {
+      const { data, error } = await supabase.storage.from(bucket).download(filePath);
+      if (error || !data) return null;
+      return { contents: await data.arrayBuffer(), contentType: data.type || 'application/octet-stream' };
+    },
+
+    async stat(filePath) {
+      const directory = filePath.split('/').slice(0, -1).join('/');
+      const name = filePath.split('/').pop();
+      const { data } = await supabase.storage.from(bucket).list(directory, { search: name });
+      const file = data?.find(candidate => candidate.name === name);
+      if (!file) return null;
+      return { size: Number(file.metadata?.size) || 0, contentType: file.metadata?.mimetype || 'application/octet-stream' };
+    },
+  };
+}
+
+/**
+ * Keeps files in a directory on disk, for development. The content type of each file
+ * is kept next to it in a `.meta.json` file.
+ * @param rootDir The directory to keep the files in
+ */
+export function createLocalStorage(rootDir: string): FileStorage {
+  const root = path.resolve(rootDir);
+
+  // Refuses paths that would end up outside the storage directory
+  const resolve = (filePath: string) => {
+    const resolved = path.resolve(root, filePath);
+    if (!resolved.startsWith(root + path.sep)) {
+      throw new Error(`Invalid file path: ${filePath}`);
+    }
+    return resolved;
+  };
+
+  return {
+    async upload(filePath, contents, contentType) {
+      const target = resolve(filePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, Buffer.from(contents));
+      await fs.writeFile(`${target}.meta.json`, JSON.stringify({ contentType }));
+    },
+
+    async download(filePath) {
+      const target = resolve(filePath);
+      try {
+        const contents = await fs.readFile(target);
+        const meta = JSON.parse(await fs.readFile(`${target}.meta.json`, 'utf8').catch(() => '{}'));
+        const buffer = contents.buffer.slice(contents.byteOffset, contents.byteOffset + contents.byteLength) as ArrayBuffer;
+        return { contents: buffer, contentType: meta.contentType || 'application/octet-stream' };
+      } catch {
+        return null;
+      }
+    },
+
+    async stat(filePath) {
+      const target = resolve(filePath);
+      try {
+        const stats = await fs.stat(target);
+        if (!stats.isFile()) return null;
+        const meta = JSON.parse(await fs.readFile(`${target}.meta.json`, 'utf8').catch(() => '{}'));
+        return { size: stats.size, contentType: meta.contentType || 'application/octet-stream' };
+      } catch {
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Picks the storage for response files from the environment
+ * @param supabase The client to access Supabase Storage with
+ * @returns The local storage when FILE_STORAGE=local, the response files bucket otherwise
+ */
+export function getResponseFileStorage(supabase: SupabaseClient): FileStorage {
+  if (process.env.FILE_STORAGE === 'local') {
+    return createLocalStorage(process.env.LOCAL_STORAGE_DIR || '.local-storage');
+  }
+  return createSupabaseStorage(supabase, RESPONSE_FILES_BUCKET);
+}
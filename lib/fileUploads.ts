@@ -0,0 +1,111 @@
+/**
+ * Files uploaded to file fields. Respondents upload each file as soon as they pick it;
+ * the answer of a file field is the list of stored files, which is submitted with the
+ * rest of the response. The files themselves are kept in storage (see fileStorage.ts).
+ */
+
+export const RESPONSE_FILES_BUCKET = 'response-files';
+
+/** Upper limit for a single file, whatever a field allows */
+export const MAX_UPLOAD_SIZE_MB = 25;
+
+/**
+ * Interface for a stored file, as kept in `form_responses.data`
+ */
+export interface StoredFile {
+  /** Path of the file in storage: `<form ID>/<field ID>/<unique name>` */
+  path: string;
+  /** Original file name */
+  name: string;
+  size: number;
+  type: string;
+  uploaded_at: string;
+}
+
+/**
+ * Checks whether a value is a stored file reference
+ */
+export const isStoredFile = (value: any): value is StoredFile =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof value.path === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.size === 'number' &&
+  typeof value.type === 'string';
+
+/**
+ * Checks a MIME type against a list of accepted types, which may use wildcards such as `image/*`
+ * @param type The MIME type of the file
+ * @param accepted The accepted types; an empty list accepts any type
+ * @returns Whether the type is accepted
+ */
+export function isAcceptedFileType(type: string, accepted: string[] = []): boolean {
+  if (accepted.length === 0) return true;
+  const actual = type.toLowerCase();
+
+  return accepted.some(pattern => {
+    const expected = pattern.trim().toLowerCase();
+    return expected.endsWith('/*') ? actual.startsWith(expected.slice(0, -1)) : actual === expected;
+  });
+}
+
+/**
+ * Formats a file size for display, e.g. "2.4 MB"
+ */
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Builds a unique storage path for a file uploaded to a field. The original name is
+ * kept for readability, reduced to characters that are safe in any storage backend.
+ * @param formId The ID of the form
+ * @param fieldId The ID of the file field
+ * @param fileName The original file name
+ * @param uniqueId A unique ID for the upload
+ * @returns The storage path
+ */
+export function responseFilePath(formId: string, fieldId: string, fileName: string, uniqueId: string): string {
+  const safeName = fileName.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^[._]+/, '').slice(-100) || 'file';
+  return `${formId}/${fieldId}/${uniqueId}-${safeName}`;
+}
+
+/**
+ * Checks that a stored path belongs to a field of a form, so responses can't refer to
+ * files uploaded elsewhere
+ */
+export const isResponseFilePath = (path: string, formId: string, fieldId: string) =>
+  path.startsWith(`${formId}/${fieldId}/`) && !path.split('/').some(segment => segment === '..' || segment === '');
+
+/**
+ * URL that downloads a stored file; only the owner of the form can use it
+ */
+export const responseFileUrl = (formId: string, file: StoredFile) =>
+  `/api/forms/${formId}/uploads?path=${encodeURIComponent(file.path)}&name=${encodeURIComponent(file.name)}`;
+
+/**
+ * Uploads a file picked for a file field
+ * @param formId The ID of the form
+ * @param fieldId The ID of the file field
+ * @param file The picked file
+ * @param editToken The edit token when changing a submitted response
+ * @returns The stored file, to be added to the field's answer
+ * @throws Error when the upload is rejected, e.g. because of its type or size
+ */
+export async function uploadResponseFile(formId: string, fieldId: string, file: File, editToken?: string): Promise<StoredFile> {
+  const body = new FormData();
+  body.append('fieldId', fieldId);
+  body.append('file', file);
+  if (editToken) body.append('editToken', editToken);
+
+  const response = await fetch(`/api/forms/${formId}/uploads`, { method: 'POST', body });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to upload file');
+  }
+
+  return result.file;
+}
@@ -0,0 +1,91 @@
+/**
+ * Access checks for route handlers that respondents use, such as submitting a
+ * response or uploading a file. Public forms are open to anyone; private forms
+ * only to their owner. New responses are only taken while the form is open (see
+ * lib/formSchedule.ts).
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createRouteClient } from '@/utils/supabase/route';
+import { createAdminClient } from '@/utils/supabase/admin';
+import { FormSchedule, FormStatus, formClosedMessage, getFormStatus, hasResponseLimit } from '@/lib/formSchedule';
+
+/**
+ * Error code of the database when a response would go over the form's maximum. Counting
+ * the responses before storing one lets responses submitted at the same moment go over
+ * it, so a trigger checks again while the form is locked (see
+ * supabase/migrations/20250606000000_form_schedule.sql).
+ */
+export const FORM_FULL_ERROR_CODE = 'FFULL';
+
+/**
+ * Works out whether a form takes new responses, counting its responses if it has a maximum
+ * @param db The client to count responses with
+ * @param form The form, with its ID and schedule settings
+ * @returns The status of the form, and the message for respondents when it is not open
+ */
+export async function getFormAvailability(
+  db: SupabaseClient,
+  form: FormSchedule & { id: string }
+): Promise<{ status: FormStatus; message: string | null }> {
+  let responseCount = 0;
+  if (hasResponseLimit(form)) {
+    const { count } = await db
+      .from('form_responses')
+      .select('id', { count: 'exact', head: true })
+      .eq('form_id', form.id);
+    responseCount = count || 0;
+  }
+
+  const status = getFormStatus(form, responseCount);
+  // The server doesn't know the respondent's time zone, so times are given in UTC
+  return { status, message: status === 'open' ? null : formClosedMessage(form, status, 'UTC') };
+}
+
+/**
+ * Loads a form for a respondent and checks that they may respond to it
+ * @param request The incoming request, for the respondent's session
+ * @param id The ID of the form
+ * @param options `newResponse` when a new response is submitted, which only open forms take
+ * @returns The form with the clients to use, or an error response to return as is
+ */
+export async function getRespondableForm(request: NextRequest, id: string, { newResponse = false } = {}) {
+  const supabase = createRouteClient(request);
+  // Anonymous respondents can't read or write through row-level security, so the access
+  // checks are done here and the database is used with the service role. Without a
+  // service role key, the row-level security policies must allow access.
+  const db = createAdminClient() || supabase;
+
+  const { data: form, error: formError } = await db
+    .from('forms')
+    .select('id, user_id, public, fields, allow_response_edits, edit_link_days, responses_locked, opens_at, closes_at, max_responses, closed_message')
+    .eq('id', id)
+    .single();
+
+  if (formError || !form) {
+    return { error: NextResponse.json({ error: 'Form not found' }, { status: 404 }) };
+  }
+
+  if (!form.public) {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return { error: NextResponse.json({ error: 'This form is private. Please log in to respond.' }, { status: 401 }) };
+    }
+    if (user.id !== form.user_id) {
+      return { error: NextResponse.json({ error: 'You do not have permission to respond to this form' }, { status: 403 }) };
+    }
+  }
+
+  // Responses submitted at the same moment can pass this check; the database stops
+  // them going over the maximum (see FORM_FULL_ERROR_CODE)
+  if (newResponse) {
+    const { status, message } = await getFormAvailability(db, form);
+    if (status !== 'open') {
+      return { error: NextResponse.json({ error: message, status }, { status: 403 }) };
+    }
+  }
+
+  return { supabase, db, form };
+}
@@ -0,0 +1,148 @@
+/**
+ * Drafts of responses that are not submitted yet, so respondents can leave a long form
+ * and come back to it. Drafts are saved in the browser as the respondent types; signed
+ * in respondents' drafts are saved on the server as well, so they can continue on
+ * another device. Anyone can save a draft on the server with "save and continue
+ * later", which gives a resume link with the draft's token: `/forms/<id>?draft=<token>`.
+ *
+ * Drafts expire DRAFT_EXPIRY_DAYS after they were last saved. Submitting the response
+ * deletes the draft.
+ *
+ * Server drafts are kept in the `form_drafts` table: `id`, `form_id`, `user_id` (null for
+ * anonymous respondents), `resume_token` (unique), `data` (jsonb), `page`, `expires_at`,
+ * `created_at` and `updated_at`. It is only accessed with the service role.
+ */
+
+/** The query parameter that holds the token of a draft to resume */
+export const DRAFT_TOKEN_PARAM = 'draft';
+
+/** Days a draft is kept after it was last saved */
+export const DRAFT_EXPIRY_DAYS = 30;
+
+/** Largest draft the server keeps */
+export const MAX_DRAFT_SIZE_KB = 2048;
+
+/**
+ * Interface for a saved draft
+ */
+export interface FormDraft {
+  /** The answers so far, keyed by field ID */
+  data: Record<string, any>;
+  /** The index of the page the respondent was on */
+  page: number;
+  saved_at: string;
+  expires_at: string;
+  /** The resume token, when the draft is saved on the server too */
+  token?: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const storageKey = (formId: string) => `form-draft:${formId}`;
+
+/**
+ * Gets the time a draft saved now expires
+ */
+export const draftExpiry = (savedAt = new Date()) => new Date(savedAt.getTime() + DRAFT_EXPIRY_DAYS * DAY_MS).toISOString();
+
+/**
+ * Checks whether a draft has expired
+ */
+export const isDraftExpired = (draft: { expires_at: string }, now = Date.now()) => Date.parse(draft.expires_at) < now;
+
+/**
+ * Loads the draft saved in this browser, removing it if it has expired
+ * @param formId The ID of the form
+ * @returns The draft, or null if there is none
+ */
+export function loadLocalDraft(formId: string): FormDraft | null {
+  try {
+    const stored = localStorage.getItem(storageKey(formId));
+    const draft: FormDraft | null = stored ? JSON.parse(stored) : null;
+    if (!draft || typeof draft.data !== 'object' || !draft.expires_at) return null;
+
+    if (isDraftExpired(draft)) {
+      localStorage.removeItem(storageKey(formId));
+      return null;
+    }
+    return draft;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Saves a draft in this browser
+ * @param formId The ID of the form
+ * @param draft The draft
+ * @returns Whether it was saved; browsers limit how much a site can store
+ */
+export function saveLocalDraft(formId: string, draft: FormDraft): boolean {
+  try {
+    localStorage.setItem(storageKey(formId), JSON.stringify(draft));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Removes the draft saved in this browser
+ */
+export function clearLocalDraft(formId: string) {
+  try {
+    localStorage.removeItem(storageKey(formId));
+  } catch {
+    // Storage may be unavailable, e.g. in private browsing; then there is nothing to remove
+  }
+}
+
+/**
+ * Loads a draft from the server
+ * @param formId The ID of the form
+ * @param token The resume token; without it, the signed in respondent's latest draft is loaded
+ * @returns The draft, or null if there is none
+ * @throws Error when the draft has expired or the server fails
+ */
+export async function fetchServerDraft(formId: string, token?: string | null): Promise<FormDraft | null> {
+  const query = token ? `?${DRAFT_TOKEN_PARAM}=${encodeURIComponent(token)}` : '';
+  const response = await fetch(`/api/forms/${formId}/drafts${query}`);
+  if (response.status === 404) return null;
+
+  const result = await response.json();
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load your draft');
+  }
+  return result.draft;
+}
+
+/**
+ * Saves a draft on the server
+ * @param formId The ID of the form
+ * @param data The answers so far, keyed by field ID
+ * @param page The index of the page the respondent is on
+ * @param token The resume token of the draft to update; without it, a new draft is created
+ * @returns The saved draft with its resume token
+ */
+export async function saveServerDraft(formId: string, data: Record<string, any>, page: number, token?: string | null): Promise<FormDraft> {
+  const response = await fetch(`/api/forms/${formId}/drafts`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data, page, token: token || null }),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to save your draft');
+  }
+  return result.draft;
+}
+
+/**
+ * Deletes a draft from the server
+ * @param formId The ID of the form
+ * @param token The resume token of the draft
+ */
+export async function deleteServerDraft(formId: string, token: string): Promise<void> {
+  await fetch(`/api/forms/${formId}/drafts?${DRAFT_TOKEN_PARAM}=${encodeURIComponent(token)}`, { method: 'DELETE' });
+}
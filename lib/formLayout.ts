@@ -0,0 +1,82 @@
+/**
+ * Layout items of multi-page forms. Besides answerable fields, the fields of a form
+ * can hold "section" items, which show a title and description between the fields,
+ * and "page_break" items, which split the form into pages that respondents step
+ * through one at a time. Layout items are never answered.
+ */
+
+export const LAYOUT_FIELD_TYPES = ['section', 'page_break'];
+
+/**
+ * Interface for the parts of a form field that the layout is worked out from
+ */
+export interface LayoutField {
+  id: string;
+  type?: string;
+  label?: string;
+  description?: string;
+  metadata?: { type?: string; label?: string; description?: string | null } | null;
+}
+
+/**
+ * Interface for one page of a form
+ */
+export interface FormPage<T extends LayoutField> {
+  /** The title of the page break that starts the page; null for the first page */
+  title: string | null;
+  description: string | null;
+  /** The fields and sections on the page, without page breaks */
+  fields: T[];
+}
+
+/**
+ * Checks whether a field is a section or page break rather than a question
+ */
+export const isLayoutField = (field: LayoutField) =>
+  LAYOUT_FIELD_TYPES.includes(field.type || field.metadata?.type || '');
+
+/**
+ * Leaves out sections and page breaks, e.g. for response tables and template mapping
+ */
+export const answerableFields = <T extends LayoutField>(fields: T[]): T[] =>
+  fields.filter(field => !isLayoutField(field));
+
+/**
+ * Splits the fields of a form into pages at its page breaks. Pages without any
+ * fields or sections, e.g. from a page break at the end, are left out.
+ * @param fields The fields of the form
+ * @returns The pages; a form without page breaks has a single page
+ */
+export function splitIntoPages<T extends LayoutField>(fields: T[]): FormPage<T>[] {
+  const pages: FormPage<T>[] = [{ title: null, description: null, fields: [] }];
+
+  fields.forEach(field => {
+    if ((field.type || field.metadata?.type) === 'page_break') {
+      const title = field.label || field.metadata?.label || null;
+      const description = field.description || field.metadata?.description || null;
+      const last = pages[pages.length - 1];
+
+      // Page breaks in a row start a single page, with the first title given
+      if (pages.length > 1 && last.fields.length === 0) {
+        last.title = last.title || title;
+        last.description = last.description || description;
+      } else {
+        pages.push({ title, description, fields: [] });
+      }
+    } else {
+      pages[pages.length - 1].fields.push(field);
+    }
+  });
+
+  const nonEmpty = pages.filter(page => page.fields.length > 0);
+  return nonEmpty.length > 0 ? nonEmpty : [pages[0]];
+}
+
+/**
+ * Finds the page a field is on, e.g. to go back to a field the server rejected
+ * @param pages The pages of the form
+ * @param fieldId The ID of the field
+ * @returns The index of the page, or -1 if no page holds the field
+ */
+export const findFieldPage = <T extends LayoutField>(pages: FormPage<T>[], fieldId: string) =>
+  pages.findIndex(page => page.fields.some(field => field.id === fieldId));
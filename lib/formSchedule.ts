@@ -0,0 +1,125 @@
+/**
+ * When a form takes responses. A form can open and close at set times (`opens_at` and
+ * `closes_at`) and stop after a number of responses (`max_responses`). Outside of
+ * that, respondents see the form's `closed_message`, or a message for the reason it
+ * is closed. The server checks this before storing a response (see lib/formAccess.ts).
+ */
+
+/**
+ * Interface for the schedule settings of a form
+ */
+export interface FormSchedule {
+  opens_at?: string | null;
+  closes_at?: string | null;
+  max_responses?: number | null;
+  closed_message?: string | null;
+}
+
+/**
+ * Whether a form takes responses: `scheduled` before it opens, `closed` after it
+ * closes and `full` when it has the maximum number of responses
+ */
+export type FormStatus = 'open' | 'scheduled' | 'closed' | 'full';
+
+/** Longest closed message */
+export const MAX_CLOSED_MESSAGE_LENGTH = 1000;
+
+/** Labels for the status badges of forms */
+export const FORM_STATUS_LABELS: Record<FormStatus, string> = {
+  open: 'Open',
+  scheduled: 'Scheduled',
+  closed: 'Closed',
+  full: 'Full'
+};
+
+/**
+ * Works out whether a form takes responses
+ * @param form The schedule settings of the form
+ * @param responseCount The number of responses the form has; only needed with a maximum
+ * @param now The current time
+ * @returns The status of the form
+ */
+export function getFormStatus(form: FormSchedule, responseCount = 0, now = Date.now()): FormStatus {
+  if (form.closes_at && Date.parse(form.closes_at) <= now) return 'closed';
+  if (form.opens_at && Date.parse(form.opens_at) > now) return 'scheduled';
+  if (hasResponseLimit(form) && responseCount >= form.max_responses!) return 'full';
+  return 'open';
+}
+
+/**
+ * Checks whether a form stops after a number of responses
+ */
+export const hasResponseLimit = (form: FormSchedule) => Number.isInteger(form.max_responses) && form.max_responses! > 0;
+
+/**
+ * Gets the message respondents see when a form doesn't take responses
+ * @param form The schedule settings of the form
+ * @param status The status of the form
+ * @param timeZone The time zone to show the opening time in, with its name; the
+ *   respondent's own when not given, so the server has to give one
+ * @returns The form's closed message, or one for the status
+ */
+export function formClosedMessage(form: FormSchedule, status: FormStatus, timeZone?: string): string {
+  if (form.closed_message?.trim()) return form.closed_message.trim();
+
+  switch (status) {
+    case 'scheduled':
+      return `This form opens on ${new Date(form.opens_at!).toLocaleString(undefined, timeZone ? { timeZone, timeZoneName: 'short' } : undefined)}.`;
+    case 'full':
+      return 'This form has reached its maximum number of responses.';
+    default:
+      return 'This form is no longer accepting responses.';
+  }
+}
+
+/**
+ * Describes the schedule of a form for its owner, e.g. "Closes on 3/1/2026, 5:00 PM"
+ * @param form The schedule settings of the form
+ * @param status The status of the form
+ * @param responseCount The number of responses the form has
+ */
+export function describeFormSchedule(form: FormSchedule, status: FormStatus, responseCount = 0): string {
+  const parts: string[] = [];
+  if (status === 'scheduled') parts.push(`Opens on ${new Date(form.opens_at!).toLocaleString()}`);
+  if (status === 'closed') parts.push(`Closed on ${new Date(form.closes_at!).toLocaleString()}`);
+  if (status !== 'closed' && form.closes_at) parts.push(`Closes on ${new Date(form.closes_at).toLocaleString()}`);
+  if (hasResponseLimit(form)) parts.push(`${responseCount} of ${form.max_responses} responses`);
+  return parts.join(' · ');
+}
+
+/**
+ * Converts a stored time to the value of a `datetime-local` input, in local time
+ */
+export function toDateTimeInput(value?: string | null): string {
+  if (!value) return '';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Converts the value of a `datetime-local` input to a time to store
+ */
+export function fromDateTimeInput(value: string): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Asks the server whether a form takes responses
+ * @param form The form, with its ID and schedule settings
+ * @returns The status of the form, and the message for respondents when it is not open,
+ *   with times in the respondent's time zone
+ * @throws Error when the form can't be loaded
+ */
+export async function fetchFormAvailability(form: FormSchedule & { id: string }): Promise<{ status: FormStatus; message: string | null }> {
+  const response = await fetch(`/api/forms/${form.id}/status`);
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load form');
+  }
+  return { status: result.status, message: result.status === 'open' ? null : formClosedMessage(form, result.status) };
+}
@@ -0,0 +1,84 @@
+/**
+ * Submission of form responses through the responses API, shared by the public form
+ * page and the new-response page, and of edits through edit links (see lib/responseEdits.ts).
+ * Works without a login for public forms.
+ */
+
+import type { ResponseFieldError } from '@/lib/responseValidation';
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Error for a submission that was rejected, with the problems of the individual answers if any
+ */
+export class FormSubmissionError extends Error {
+  readonly fieldErrors: ResponseFieldError[];
+
+  constructor(message: string, fieldErrors: ResponseFieldError[] = []) {
+    super(message);
+    this.name = 'FormSubmissionError';
+    this.fieldErrors = fieldErrors;
+  }
+}
+
+/**
+ * Submits a response to a form
+ * @param formId The ID of the form
+ * @param data The answers, keyed by field ID
+ * @param respondentEmail The respondent's email address, if given
+ * @param tokens The signed prefill token of the link the form was opened with, and the
+ * resume token of the draft the response finalizes, if any
+ * @returns The ID of the stored response, and its edit token when the form allows edits
+ * @throws FormSubmissionError when the response is rejected, with per-field errors if answers are invalid
+ */
+export async function submitFormResponse(
+  formId: string,
+  data: Record<string, any>,
+  respondentEmail?: string,
+  tokens: { prefillToken?: string | null; draftToken?: string | null } = {}
+): Promise<{ id: string; edit_token?: string; edit_expires_at?: string }> {
+  const response = await fetch(`/api/forms/${formId}/responses`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      data,
+      respondent_email: respondentEmail || null,
+      prefill_token: tokens.prefillToken || null,
+      draft_token: tokens.draftToken || null
+    }),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new FormSubmissionError(result.error || 'Failed to submit form', result.errors);
+  }
+
+  return result.response;
+}
+
+/**
+ * Saves the edited answers of a response, through its edit link
+ * @param formId The ID of the form
+ * @param editToken The edit token of the response
+ * @param data The answers, keyed by field ID
+ * @returns The ID of the response and when it was updated
+ * @throws FormSubmissionError when the edit is rejected, with per-field errors if answers are invalid
+ */
+export async function updateFormResponse(
+  formId: string,
+  editToken: string,
+  data: Record<string, any>
+): Promise<{ id: string; updated_at: string }> {
+  const response = await fetch(`/api/forms/${formId}/responses/edit`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ data, edit_token: editToken }),
+  });
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new FormSubmissionError(result.error || 'Failed to save your changes', result.errors);
+  }
+
+  return result.response;
+}
@@ -0,0 +1,74 @@
+/**
+ * HTML output of rendered templates, used for on-screen previews. Follows the
+ * document model so headings, emphasis, lists, tables, images, rules and page breaks look
+ * the same as in the PDF and Word output.
+ */
+
+import { DocumentBlock, imageSizeMm, parseDocument, parseInline } from '@/lib/documentModel';
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Converts text with emphasis markers to escaped HTML
+ */
+const inlineHtml = (text: string): string =>
+  parseInline(text)
+    .map(run => {
+      let html = escapeHtml(run.text);
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      return html;
+    })
+    .join('');
+
+const blockHtml = (block: DocumentBlock): string => {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${inlineHtml(block.text)}</h${block.level}>`;
+
+    case 'paragraph':
+      return `<p>${block.lines.map(inlineHtml).join('<br>')}</p>`;
+
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${inlineHtml(item)}</li>`).join('')}</${tag}>`;
+    }
+
+    case 'table': {
+      const rows = block.rows.map((row, index) => {
+        const cellTag = block.header && index === 0 ? 'th' : 'td';
+        return `<tr>${row.map(cell => `<${cellTag}>${inlineHtml(cell)}</${cellTag}>`).join('')}</tr>`;
+      });
+      const head = block.header ? `<thead>${rows.shift()}</thead>` : '';
+      return `<table>${head}<tbody>${rows.join('')}</tbody></table>`;
+    }
+
+    case 'image': {
+      // The source is a base64 data URL, checked by the document model, so it needs no escaping
+      const { width } = imageSizeMm(block);
+      return `<p><img src="${block.src}" alt="${escapeHtml(block.alt)}" style="width: ${width.toFixed(1)}mm; max-width: 100%"></p>`;
+    }
+
+    case 'rule':
+      return '<hr>';
+
+    case 'page_break':
+      return '<hr class="page-break">';
+  }
+};
+
+/**
+ * Converts rendered template text to HTML. All text is escaped, so the result
+ * can be inserted into the page as is.
+ * @param content The rendered template text, using the document model conventions
+ * @returns The HTML of the document body
+ */
+export function documentToHtml(content: string): string {
+  return parseDocument(content).map(blockHtml).join('\n');
+}
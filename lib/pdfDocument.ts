@@ -0,0 +1,366 @@
+/**
+ * PDF output of rendered templates. Lays out the blocks of the document model
+ * (headings, paragraphs with emphasis, lists, tables, images, rules and page breaks) on
+ * A4 pages with a running header and a "Page X of Y" footer.
+ *
+ * Only jsPDF and the built-in fonts are used, so the same content and options give
+ * the same file in the browser and in a server route.
+ */
+
+import { jsPDF } from 'jspdf';
+import { DocumentBlock, InlineRun, imageSizeMm, parseDocument, parseInline, stripInline } from '@/lib/documentModel';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+
+/**
+ * Interface for PDF generation options
+ */
+export interface PdfDocumentOptions {
+  /** Shown in the running header and stored as the document title */
+  title?: string;
+  /** Creation date stored in the file. Pass the same date to get byte-identical output. */
+  createdAt?: Date;
+}
+
+const PAGE = { width: 210, height: 297 };
+const MARGIN = { top: 25, right: 20, bottom: 25, left: 20 };
+const CONTENT_WIDTH = PAGE.width - MARGIN.left - MARGIN.right;
+const HEADER_Y = 14;
+const FOOTER_Y = PAGE.height - 12;
+
+const FONT_FAMILY = 'helvetica';
+const BODY_SIZE = 11;
+const SMALL_SIZE = 9;
+const HEADING_SIZES: Record<1 | 2 | 3, number> = { 1: 18, 2: 15, 3: 13 };
+const LINE_HEIGHT_FACTOR = 1.4;
+const PT_TO_MM = 25.4 / 72;
+
+const PARAGRAPH_SPACING = 3;
+const LIST_INDENT = 7;
+const CELL_PADDING = 2;
+const TEXT_COLOR = 30;
+const MUTED_COLOR = 110;
+const BORDER_COLOR = 180;
+const HEADER_FILL = '#F2F2F2';
+
+// A fixed id keeps the output identical between runs; jsPDF would otherwise generate a random one
+const FILE_ID = '466F726D2054656D706C617465720000';
+
+/**
+ * A piece of a laid-out line, drawn in one font style
+ */
+interface LineSegment {
+  text: string;
+  bold: boolean;
+  italic: boolean;
+  width: number;
+}
+
+interface LayoutLine {
+  segments: LineSegment[];
+}
+
+const lineHeight = (fontSize: number) => fontSize * PT_TO_MM * LINE_HEIGHT_FACTOR;
+
+const fontStyle = (bold: boolean, italic: boolean) =>
+  bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal';
+
+/**
+ * Lays out PDF pages for a document, keeping track of the current position
+ */
+class PdfLayout {
+  readonly doc: jsPDF;
+  private y = MARGIN.top;
+
+  constructor(doc: jsPDF) {
+    this.doc = doc;
+  }
+
+  private setFont(fontSize: number, bold = false, italic = false) {
+    this.doc.setFont(FONT_FAMILY, fontStyle(bold, italic));
+    this.doc.setFontSize(fontSize);
+  }
+
+  private measure(text: string, fontSize: number, bold: boolean, italic: boolean): number {
+    this.setFont(fontSize, bold, italic);
+    return this.doc.getTextWidth(text);
+  }
+
+  /**
+   * Starts a new page
+   */
+  newPage() {
+    this.doc.addPage();
+    this.y = MARGIN.top;
+  }
+
+  /**
+   * Starts a new page unless the given height still fits on the current one
+   */
+  private ensureSpace(height: number) {
+    if (this.y + height > PAGE.height - MARGIN.bottom && this.y > MARGIN.top) {
+      this.newPage();
+    }
+  }
+
+  /**
+   * Word-wraps runs of text to a width. Words longer than the width are split.
+   */
+  wrap(runs: InlineRun[], width: number, fontSize: number): LayoutLine[] {
+    const lines: LayoutLine[] = [];
+    let segments: LineSegment[] = [];
+    let lineWidth = 0;
+
+    const pushLine = () => {
+      // Trailing spaces don't count towards the line
+      const last = segments[segments.length - 1];
+      if (last && /^\s+$/.test(last.text)) segments.pop();
+      lines.push({ segments });
+      segments = [];
+      lineWidth = 0;
+    };
+
+    const addPiece = (text: string, run: InlineRun) => {
+      const isSpace = /^\s+$/.test(text);
+      if (isSpace && segments.length === 0) return;
+
+      let pieceWidth = this.measure(text, fontSize, run.bold, run.italic);
+      if (!isSpace && lineWidth + pieceWidth > width && segments.length > 0) {
+        pushLine();
+      }
+
+      // Split words that don't fit on a line of their own
+      let remaining = text;
+      while (!isSpace && pieceWidth > width && remaining.length > 1) {
+        let end = remaining.length - 1;
+        while (end > 1 && this.measure(remaining.substring(0, end), fontSize, run.bold, run.italic) > width) {
+          end--;
+        }
+        const part = remaining.substring(0, end);
+        segments.push({ text: part, bold: run.bold, italic: run.italic, width: this.measure(part, fontSize, run.bold, run.italic) });
+        pushLine();
+        remaining = remaining.substring(end);
+        pieceWidth = this.measure(remaining, fontSize, run.bold, run.italic);
+      }
+
+      segments.push({ text: remaining, bold: run.bold, italic: run.italic, width: pieceWidth });
+      lineWidth += pieceWidth;
+    };
+
+    runs.forEach(run => {
+      run.text.split(/(\s+)/).filter(Boolean).forEach(piece => addPiece(piece, run));
+    });
+
+    if (segments.length > 0 || lines.length === 0) {
+      pushLine();
+    }
+    return lines;
+  }
+
+  /**
+   * Draws one laid-out line with its top at `top`
+   */
+  private drawLine(line: LayoutLine, x: number, top: number, fontSize: number) {
+    let cursor = x;
+    line.segments.forEach(segment => {
+      this.setFont(fontSize, segment.bold, segment.italic);
+      this.doc.text(segment.text, cursor, top, { baseline: 'top' });
+      cursor += segment.width;
+    });
+  }
+
+  /**
+   * Writes wrapped text, breaking to a new page between lines where needed
+   */
+  writeText(text: string | string[], options: { fontSize?: number; bold?: boolean; x?: number; width?: number } = {}) {
+    const fontSize = options.fontSize || BODY_SIZE;
+    const x = options.x ?? MARGIN.left;
+    const width = options.width ?? CONTENT_WIDTH;
+    const height = lineHeight(fontSize);
+
+    (Array.isArray(text) ? text : [text]).forEach(source => {
+      const runs = parseInline(source).map(run => ({ ...run, bold: run.bold || !!options.bold }));
+      this.wrap(runs, width, fontSize).forEach(line => {
+        this.ensureSpace(height);
+        this.drawLine(line, x, this.y, fontSize);
+        this.y += height;
+      });
+    });
+  }
+
+  addHeading(level: 1 | 2 | 3, text: string) {
+    const fontSize = HEADING_SIZES[level];
+    // Keep a heading together with at least one line of the text below it
+    this.ensureSpace(lineHeight(fontSize) + lineHeight(BODY_SIZE) + PARAGRAPH_SPACING);
+    this.y += level === 1 ? 2 : 1;
+    this.writeText(text, { fontSize, bold: true });
+    this.y += PARAGRAPH_SPACING;
+  }
+
+  addParagraph(lines: string[]) {
+    this.writeText(lines);
+    this.y += PARAGRAPH_SPACING;
+  }
+
+  addList(ordered: boolean, items: string[]) {
+    const height = lineHeight(BODY_SIZE);
+
+    items.forEach((item, index) => {
+      this.ensureSpace(height);
+      if (ordered) {
+        this.setFont(BODY_SIZE);
+        this.doc.text(`${index + 1}.`, MARGIN.left + 1, this.y, { baseline: 'top' });
+      } else {
+        // The built-in fonts have no bullet character, so the bullet is drawn
+        this.doc.setFillColor(TEXT_COLOR, TEXT_COLOR, TEXT_COLOR);
+        this.doc.circle(MARGIN.left + 2.5, this.y + height / 2 - 0.6, 0.7, 'F');
+      }
+      this.writeText(item, { x: MARGIN.left + LIST_INDENT, width: CONTENT_WIDTH - LIST_INDENT });
+      this.y += 1;
+    });
+
+    this.y += PARAGRAPH_SPACING - 1;
+  }
+
+  addImage(src: string, size: { width: number; height: number }) {
+    const { width, height } = imageSizeMm(size);
+    this.ensureSpace(height);
+    this.doc.addImage(src, 'PNG', MARGIN.left, this.y, width, height);
+    this.y += height + PARAGRAPH_SPACING;
+  }
+
+  addRule() {
+    this.ensureSpace(PARAGRAPH_SPACING * 2);
+    this.y += PARAGRAPH_SPACING;
+    this.doc.setDrawColor(BORDER_COLOR);
+    this.doc.setLineWidth(0.3);
+    this.doc.line(MARGIN.left, this.y, PAGE.width - MARGIN.right, this.y);
+    this.y += PARAGRAPH_SPACING + 1;
+  }
+
+  /**
+   * Draws a table with equal column widths. Rows are kept whole and the header
+   * row is repeated at the top of each page the table continues on.
+   */
+  addTable(header: boolean, rows: string[][]) {
+    const columns = Math.max(...rows.map(row => row.length));
+    const columnWidth = CONTENT_WIDTH / columns;
+    const height = lineHeight(BODY_SIZE);
+
+    const layoutRow = (row: string[], bold: boolean) => {
+      const cells = Array.from({ length: columns }, (_, index) =>
+        this.wrap(
+          parseInline(row[index] || '').map(run => ({ ...run, bold: run.bold || bold })),
+          columnWidth - CELL_PADDING * 2,
+          BODY_SIZE
+        )
+      );
+      return { cells, height: Math.max(...cells.map(lines => lines.length)) * height + CELL_PADDING * 2, bold };
+    };
+
+    const drawRow = (row: ReturnType<typeof layoutRow>) => {
+      this.doc.setDrawColor(BORDER_COLOR);
+      this.doc.setLineWidth(0.2);
+      if (row.bold) this.doc.setFillColor(HEADER_FILL);
+
+      row.cells.forEach((lines, index) => {
+        const x = MARGIN.left + index * columnWidth;
+        this.doc.rect(x, this.y, columnWidth, row.height, row.bold ? 'FD' : 'S');
+        lines.forEach((line, lineIndex) => {
+          this.drawLine(line, x + CELL_PADDING, this.y + CELL_PADDING + lineIndex * height, BODY_SIZE);
+        });
+      });
+
+      this.y += row.height;
+    };
+
+    const laidOut = rows.map((row, index) => layoutRow(row, header && index === 0));
+    const headerRow = header ? laidOut[0] : null;
+
+    laidOut.forEach((row, index) => {
+      if (this.y + row.height > PAGE.height - MARGIN.bottom && this.y > MARGIN.top) {
+        this.newPage();
+        if (headerRow && index > 0) drawRow(headerRow);
+      }
+      drawRow(row);
+    });
+
+    this.y += PARAGRAPH_SPACING + 1;
+  }
+
+  addBlock(block: DocumentBlock) {
+    switch (block.type) {
+      case 'heading':
+        return this.addHeading(block.level, block.text);
+      case 'paragraph':
+        return this.addParagraph(block.lines);
+      case 'list':
+        return this.addList(block.ordered, block.items);
+      case 'table':
+        return this.addTable(block.header, block.rows);
+      case 'image':
+        return this.addImage(block.src, block);
+      case 'rule':
+        return this.addRule();
+      case 'page_break':
+        return this.newPage();
+    }
+  }
+
+  /**
+   * Draws the running header and the "Page X of Y" footer on every page
+   */
+  addHeadersAndFooters(title: string) {
+    const pageCount = this.doc.getNumberOfPages();
+
+    for (let page = 1; page <= pageCount; page++) {
+      this.doc.setPage(page);
+      this.setFont(SMALL_SIZE);
+      this.doc.setTextColor(MUTED_COLOR);
+
+      if (title) {
+        const [headerText] = this.doc.splitTextToSize(title, CONTENT_WIDTH);
+        this.doc.text(headerText, MARGIN.left, HEADER_Y);
+        this.doc.setDrawColor(BORDER_COLOR);
+        this.doc.setLineWidth(0.2);
+        this.doc.line(MARGIN.left, HEADER_Y + 2, PAGE.width - MARGIN.right, HEADER_Y + 2);
+      }
+
+      this.doc.text(`Page ${page} of ${pageCount}`, PAGE.width / 2, FOOTER_Y, { align: 'center' });
+      this.doc.setTextColor(TEXT_COLOR);
+    }
+  }
+}
+
+/**
+ * Creates a PDF document from rendered template text
+ * @param content The rendered template text, using the document model conventions
+ * @param options The title and creation date of the document
+ * @returns The jsPDF document, ready to be saved or output
+ */
+export function createPdfDocument(content: string, options: PdfDocumentOptions = {}): jsPDF {
+  const title = stripInline(options.title || '');
+  const doc = new jsPDF({ unit: 'mm', format: 'a4', compress: true });
+
+  doc.setCreationDate(options.createdAt || new Date());
+  doc.setFileId(FILE_ID);
+  doc.setDocumentProperties({ title, creator: 'Form Templater' });
+  doc.setLineHeightFactor(LINE_HEIGHT_FACTOR);
+  doc.setTextColor(TEXT_COLOR);
+
+  const layout = new PdfLayout(doc);
+  parseDocument(content).forEach(block => layout.addBlock(block));
+  layout.addHeadersAndFooters(title);
+
+  return doc;
+}
+
+/**
+ * Generates a PDF file from rendered template text
+ * @param content The rendered template text
+ * @param options The title and creation date of the document
+ * @returns The PDF file contents
+ */
+export function generatePdfBuffer(content: string, options: PdfDocumentOptions = {}): ArrayBuffer {
+  return createPdfDocument(content, options).output('arraybuffer');
+}
@@ -0,0 +1,219 @@
+/**
+ * Prefilling forms from their link, and hidden fields. A link can carry answers in its
+ * query string, keyed by field ID or by field label in lower case with underscores,
+ * e.g. `/forms/<id>?full_name=Ada&email=ada@example.com`. Respondents can change
+ * prefilled answers like any other.
+ *
+ * A link can also carry a signed token in `?prefill=`, created by the form's owner (see
+ * lib/prefillTokens.ts). Its answers can't be changed by the respondent: the server
+ * checks the signature and stores the signed answers whatever else is submitted.
+ *
+ * Hidden fields (type `hidden`) are never shown to respondents. They capture values
+ * like a campaign source or an account ID from the link, or their default value, and
+ * are stored and available to templates like other answers. A hidden field can be set
+ * to only take its value from a signed link (`prefill.signedOnly`).
+ */
+
+import { normalizeFieldKey } from '@/lib/templateParser';
+import { DRAFT_TOKEN_PARAM } from '@/lib/formDrafts';
+import { EDIT_TOKEN_PARAM } from '@/lib/responseEdits';
+
+/** The query parameter that holds a signed prefill token */
+export const PREFILL_TOKEN_PARAM = 'prefill';
+
+/** Longest prefilled answer that is accepted */
+export const MAX_PREFILL_LENGTH = 1000;
+
+/** Field types that can be prefilled from a link */
+export const PREFILLABLE_TYPES = [
+  'text', 'textarea', 'number', 'email', 'phone', 'url', 'date',
+  'select', 'radio', 'checkbox', 'multiselect', 'rating', 'scale', 'nps', 'hidden'
+];
+
+/**
+ * Settings an author can set on a hidden field
+ */
+export interface PrefillSettings {
+  /** Only accept a value from a signed link, so respondents can't set it themselves */
+  signedOnly?: boolean;
+}
+
+/**
+ * A field that may be prefilled, as stored in `forms.fields`
+ */
+export interface PrefillField {
+  id: string;
+  type?: string;
+  label?: string;
+  options?: string[] | null;
+  defaultValue?: string | string[] | null;
+  prefill?: PrefillSettings | null;
+  metadata?: { type?: string; options?: string[] | null; default_value?: string | string[] | null; prefill?: PrefillSettings | null } | null;
+}
+
+/**
+ * The contents of a signed prefill token
+ */
+export interface PrefillTokenPayload {
+  form_id: string;
+  /** The answers, keyed by field ID */
+  values: Record<string, any>;
+  /** When the token expires, in seconds since 1970; tokens without it don't expire */
+  exp?: number;
+}
+
+const fieldType = (field: PrefillField) => field.type || field.metadata?.type || 'text';
+
+/**
+ * Checks whether a field is a hidden field. These are fields of type `hidden`, not
+ * fields hidden by visibility rules.
+ */
+export const isHiddenField = (field: { type?: string; metadata?: { type?: string } | null }) =>
+  (field.type || field.metadata?.type) === 'hidden';
+
+/**
+ * Checks whether a hidden field only takes its value from a signed link
+ */
+export const isSignedOnly = (field: PrefillField) =>
+  isHiddenField(field) && !!(field.prefill || field.metadata?.prefill)?.signedOnly;
+
+/**
+ * Gets the query parameter name a field is prefilled with when it has a label,
+ * e.g. "full_name" for "Full Name"
+ */
+export const prefillParamName = (field: PrefillField) => (field.label ? normalizeFieldKey(field.label) : field.id);
+
+/**
+ * Finds the field a prefill key refers to, by field ID or by label
+ */
+export const findPrefillField = <T extends PrefillField>(fields: T[], key: string): T | undefined =>
+  fields.find(field => field.id === key) ||
+  fields.find(field => !!field.label && normalizeFieldKey(field.label) === normalizeFieldKey(key));
+
+/**
+ * Converts prefilled values to an answer for a field
+ * @param field The field
+ * @param values The values given for the field; several for checkboxes
+ * @returns The answer, or undefined when the field can't be prefilled with the values
+ */
+export function prefillAnswer(field: PrefillField, values: string[]): string | string[] | number | undefined {
+  const type = fieldType(field);
+  const options = field.options || field.metadata?.options || [];
+  const given = values.map(value => String(value).trim()).filter(value => value && value.length <= MAX_PREFILL_LENGTH);
+  if (!PREFILLABLE_TYPES.includes(type) || given.length === 0) return undefined;
+
+  switch (type) {
+    case 'checkbox':
+    case 'multiselect': {
+      // Several values can be given as a repeated parameter or separated by commas
+      const choices = given.flatMap(value => value.split(',').map(choice => choice.trim()));
+      const chosen = options.filter(option => choices.includes(option));
+      return chosen.length > 0 ? chosen : undefined;
+    }
+    case 'select':
+    case 'radio':
+      return options.includes(given[0]) ? given[0] : undefined;
+    case 'rating':
+    case 'scale':
+    case 'nps':
+      return Number.isInteger(Number(given[0])) ? Number(given[0]) : undefined;
+    case 'number':
+      return isNaN(Number(given[0])) ? undefined : given[0];
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}$/.test(given[0]) ? given[0] : undefined;
+    default:
+      return given[0];
+  }
+}
+
+/**
+ * Gets the answers a link prefills from its query string. Unknown parameters, values
+ * that don't fit their field and hidden fields that only take signed values are ignored.
+ * @param fields The fields of the form
+ * @param params The query string of the link
+ * @returns The prefilled answers, keyed by field ID
+ */
+export function prefillFromSearchParams(fields: PrefillField[], params: URLSearchParams): Record<string, any> {
+  const answers: Record<string, any> = {};
+
+  Array.from(new Set(params.keys())).forEach(key => {
+    if ([PREFILL_TOKEN_PARAM, DRAFT_TOKEN_PARAM, EDIT_TOKEN_PARAM].includes(key)) return;
+    const field = findPrefillField(fields, key);
+    if (!field || isSignedOnly(field)) return;
+
+    const answer = prefillAnswer(field, params.getAll(key));
+    if (answer !== undefined) answers[field.id] = answer;
+  });
+
+  return answers;
+}
+
+/**
+ * Converts the values of a signed token to answers, as prefillFromSearchParams does for
+ * the query string
+ * @param fields The fields of the form
+ * @param values The values, keyed by field ID or label
+ * @returns The answers, keyed by field ID
+ */
+export function prefillFromValues(fields: PrefillField[], values: Record<string, any>): Record<string, any> {
+  const answers: Record<string, any> = {};
+
+  Object.entries(values).forEach(([key, value]) => {
+    const field = findPrefillField(fields, key);
+    if (!field) return;
+
+    const answer = prefillAnswer(field, Array.isArray(value) ? value : [value]);
+    if (answer !== undefined) answers[field.id] = answer;
+  });
+
+  return answers;
+}
+
+/**
+ * Reads the contents of a signed prefill token without checking its signature, so the
+ * form can show the signed answers. Only the server can tell whether a token is genuine.
+ * @param token The token from the link
+ * @returns The contents, or null if the token can't be read
+ */
+export function readPrefillToken(token: string): PrefillTokenPayload | null {
+  const [encoded] = token.split('.');
+  if (!encoded) return null;
+
+  try {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    const payload = JSON.parse(new TextDecoder().decode(bytes));
+    if (!payload || typeof payload.form_id !== 'string' || !payload.values || typeof payload.values !== 'object') return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checks whether a prefill token has expired
+ */
+export const isPrefillTokenExpired = (payload: PrefillTokenPayload, now = Date.now()) =>
+  typeof payload.exp === 'number' && payload.exp * 1000 < now;
+
+/**
+ * Applies the answers of a signed link to a submitted response: they replace the
+ * submitted answers, and hidden fields that only take signed values get their default
+ * value unless the link sets them
+ * @param fields The fields of the form
+ * @param answers The submitted answers, keyed by field ID
+ * @param signedAnswers The answers of the signed link, keyed by field ID; empty without one
+ * @returns The answers to store
+ */
+export function applySignedPrefill(fields: PrefillField[], answers: Record<string, any>, signedAnswers: Record<string, any>): Record<string, any> {
+  const result = { ...answers };
+  fields.filter(isSignedOnly).forEach(field => {
+    const defaultValue = field.metadata?.default_value ?? field.defaultValue;
+    if (defaultValue) {
+      result[field.id] = defaultValue;
+    } else {
+      delete result[field.id];
+    }
+  });
+  return { ...result, ...signedAnswers };
+}
@@ -0,0 +1,67 @@
+/**
+ * Signing and checking of prefill tokens, on the server only. A token is the JSON of
+ * its contents in base64url, a dot and an HMAC-SHA256 signature of the first part,
+ * made with the PREFILL_TOKEN_SECRET environment variable. See lib/prefill.ts.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { PrefillTokenPayload, isPrefillTokenExpired, readPrefillToken } from '@/lib/prefill';
+
+/** Longest time a signed link can be valid for */
+export const MAX_PREFILL_TOKEN_DAYS = 365;
+
+const getSecret = () => process.env.PREFILL_TOKEN_SECRET || null;
+
+const sign = (encoded: string, secret: string) => createHmac('sha256', secret).update(encoded).digest('base64url');
+
+/**
+ * Checks whether signed links can be created, which needs PREFILL_TOKEN_SECRET
+ */
+export const canSignPrefillTokens = () => !!getSecret();
+
+/**
+ * Creates a signed prefill token
+ * @param formId The ID of the form the token is for
+ * @param values The answers to prefill, keyed by field ID
+ * @param expiresInDays The number of days the token is valid, if it should expire
+ * @returns The token, or null when PREFILL_TOKEN_SECRET is not configured
+ */
+export function createPrefillToken(formId: string, values: Record<string, any>, expiresInDays?: number): string | null {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const payload: PrefillTokenPayload = { form_id: formId, values };
+  if (expiresInDays) {
+    payload.exp = Math.floor(Date.now() / 1000) + Math.round(Math.min(expiresInDays, MAX_PREFILL_TOKEN_DAYS) * 24 * 60 * 60);
+  }
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded, secret)}`;
+}
+
+/**
+ * Checks a prefill token from a link
+ * @param token The token
+ * @param formId The ID of the form it was submitted to
+ * @returns The signed values, keyed by field ID, or an error message when the token is not valid for the form
+ */
+export function verifyPrefillToken(token: string, formId: string): { values: Record<string, any> } | { error: string } {
+  const secret = getSecret();
+  const [encoded, signature] = token.split('.');
+  const payload = readPrefillToken(token);
+
+  if (!secret || !encoded || !signature || !payload) {
+    return { error: 'This link is not valid' };
+  }
+
+  const expected = Buffer.from(sign(encoded, secret));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given) || payload.form_id !== formId) {
+    return { error: 'This link is not valid' };
+  }
+  if (isPrefillTokenExpired(payload)) {
+    return { error: 'This link has expired. Please ask for a new one.' };
+  }
+
+  return { values: payload.values };
+}
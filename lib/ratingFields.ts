@@ -0,0 +1,149 @@
+/**
+ * Rating fields: star ratings, linear scales and Net Promoter Score (NPS) questions.
+ * Their answers are whole numbers within the field's scale. The scale of a field is
+ * set in the form builder and stored as `scale`; missing settings use the defaults
+ * of the field type.
+ */
+
+export const RATING_FIELD_TYPES = ['rating', 'scale', 'nps'];
+
+/** Largest number of stars or points a scale can have */
+export const MAX_SCALE_POINTS = 10;
+
+/**
+ * Scale settings an author can set on a rating field
+ */
+export interface ScaleSettings {
+  /** Lowest value of a linear scale, 0 or 1 */
+  min?: number;
+  /** Number of stars of a rating, or highest value of a linear scale */
+  max?: number;
+  /** Shown at the low end of a linear scale or NPS question */
+  minLabel?: string;
+  /** Shown at the high end of a linear scale or NPS question */
+  maxLabel?: string;
+}
+
+/**
+ * The complete scale of a rating field
+ */
+export interface FieldScale {
+  min: number;
+  max: number;
+  minLabel: string;
+  maxLabel: string;
+}
+
+/**
+ * A field that may be a rating field, as stored in `forms.fields`
+ */
+export interface RatingField {
+  type: string;
+  scale?: ScaleSettings | null;
+  metadata?: { scale?: ScaleSettings | null };
+}
+
+/**
+ * Interface for the combined answers of a rating field
+ */
+export interface RatingSummary {
+  /** Number of answers */
+  count: number;
+  /** Average answer, or null without answers */
+  average: number | null;
+  /** Number of answers for each value of the scale, from low to high */
+  distribution: { value: number; count: number }[];
+  /** For NPS questions: the share of each group in percent and the score (-100 to 100) */
+  nps?: { promoters: number; passives: number; detractors: number; score: number };
+}
+
+const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high);
+
+/**
+ * Checks whether a field is a rating, linear scale or NPS field
+ */
+export const isRatingField = (field: { type: string }) => RATING_FIELD_TYPES.includes(field.type);
+
+/**
+ * Gets the scale of a rating field, filling in the defaults of its type
+ * @param field The rating field
+ * @returns The lowest and highest value and the labels of the ends
+ */
+export function getFieldScale(field: RatingField): FieldScale {
+  const settings = field.scale || field.metadata?.scale || {};
+  const maxSetting = Number(settings.max);
+
+  switch (field.type) {
+    case 'nps':
+      return {
+        min: 0,
+        max: 10,
+        minLabel: settings.minLabel ?? 'Not at all likely',
+        maxLabel: settings.maxLabel ?? 'Extremely likely'
+      };
+
+    case 'scale': {
+      const min = settings.min === 0 ? 0 : 1;
+      return {
+        min,
+        max: Number.isInteger(maxSetting) ? clamp(maxSetting, min + 1, MAX_SCALE_POINTS) : 5,
+        minLabel: settings.minLabel ?? '',
+        maxLabel: settings.maxLabel ?? ''
+      };
+    }
+
+    default:
+      return {
+        min: 1,
+        max: Number.isInteger(maxSetting) ? clamp(maxSetting, 3, MAX_SCALE_POINTS) : 5,
+        minLabel: '',
+        maxLabel: ''
+      };
+  }
+}
+
+/**
+ * Reads a rating answer as a number, or null if it is not a whole number
+ */
+export function ratingValue(value: any): number | null {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isInteger(number) ? number : null;
+}
+
+/**
+ * Combines the answers of a rating field into an average and a distribution.
+ * Answers outside the field's scale are left out.
+ * @param field The rating field
+ * @param answers The answers of all responses, including unanswered ones
+ * @returns The summary of the answers
+ */
+export function summarizeRatings(field: RatingField, answers: any[]): RatingSummary {
+  const { min, max } = getFieldScale(field);
+  const values = answers
+    .map(ratingValue)
+    .filter((value): value is number => value !== null && value >= min && value <= max);
+
+  const distribution = Array.from({ length: max - min + 1 }, (_, index) => ({
+    value: min + index,
+    count: values.filter(value => value === min + index).length
+  }));
+  const summary: RatingSummary = {
+    count: values.length,
+    average: values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null,
+    distribution
+  };
+
+  if (field.type === 'nps') {
+    const share = (count: number) => (values.length > 0 ? Math.round((count / values.length) * 100) : 0);
+    const promoters = values.filter(value => value >= 9).length;
+    const detractors = values.filter(value => value <= 6).length;
+    summary.nps = {
+      promoters: share(promoters),
+      passives: share(values.length - promoters - detractors),
+      detractors: share(detractors),
+      score: share(promoters - detractors)
+    };
+  }
+
+  return summary;
+}
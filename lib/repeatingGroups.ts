@@ -0,0 +1,155 @@
+/**
+ * Repeating groups: a field with child fields that respondents fill in once per entry
+ * and can repeat, e.g. one entry per reference, line item or attendee. The answer is
+ * a list of entries, each an object with the answers of the child fields keyed by
+ * child field ID. The child fields are stored on the group as `fields`, its settings
+ * as `repeat`.
+ *
+ * Templates iterate over the entries with {{#each}}, where the child answers are
+ * available by label, e.g. {{#each References}}{{this.Name}}{{/each}}.
+ */
+
+import { normalizeContactAnswers } from '@/lib/contactFields';
+
+/** Field types that can be used inside a group */
+export const GROUP_CHILD_TYPES = ['text', 'textarea', 'number', 'email', 'phone', 'url', 'date', 'select'];
+
+/** Upper limit for the number of entries, whatever a group allows */
+export const MAX_GROUP_ENTRIES = 50;
+
+/**
+ * Interface for a field inside a group
+ */
+export interface GroupChildField {
+  id: string;
+  type: string;
+  label: string;
+  required?: boolean;
+  options?: string[] | null;
+  placeholder?: string | null;
+}
+
+/**
+ * Settings an author can set on a group
+ */
+export interface RepeatSettings {
+  /** Smallest number of entries */
+  min?: number;
+  /** Largest number of entries, up to MAX_GROUP_ENTRIES */
+  max?: number;
+  /** What one entry is called, e.g. "Reference"; used for headings and the add button */
+  entryLabel?: string;
+}
+
+/**
+ * A field that may be a group, as stored in `forms.fields`
+ */
+export interface GroupField {
+  id: string;
+  type?: string;
+  label?: string;
+  fields?: GroupChildField[] | null;
+  repeat?: RepeatSettings | null;
+  metadata?: { type?: string; fields?: GroupChildField[] | null; repeat?: RepeatSettings | null } | null;
+}
+
+const clamp = (value: number, low: number, high: number) => Math.min(Math.max(value, low), high);
+
+const isBlankValue = (value: any) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Checks whether a field is a repeating group
+ */
+export const isGroupField = (field: { type?: string; metadata?: { type?: string } | null }) =>
+  (field.type || field.metadata?.type) === 'group';
+
+/**
+ * Gets the child fields of a group
+ */
+export const getGroupFields = (field: GroupField): GroupChildField[] => field.fields || field.metadata?.fields || [];
+
+/**
+ * Gets the entry limits of a group, filling in the defaults
+ * @param field The group
+ * @returns The smallest and largest number of entries and what an entry is called
+ */
+export function getRepeatLimits(field: GroupField): { min: number; max: number; entryLabel: string } {
+  const settings = field.repeat || field.metadata?.repeat || {};
+  const min = Number.isInteger(settings.min) ? clamp(settings.min!, 0, MAX_GROUP_ENTRIES) : 0;
+  const max = Number.isInteger(settings.max) ? clamp(settings.max!, Math.max(min, 1), MAX_GROUP_ENTRIES) : MAX_GROUP_ENTRIES;
+  return { min, max, entryLabel: settings.entryLabel?.trim() || 'Entry' };
+}
+
+/**
+ * Checks whether none of the child fields of an entry are answered
+ */
+export const isBlankEntry = (entry: any) =>
+  !entry || typeof entry !== 'object' || Object.values(entry).every(isBlankValue);
+
+/**
+ * Creates an entry with all child fields unanswered
+ */
+export const emptyEntry = (field: GroupField): Record<string, any> =>
+  getGroupFields(field).reduce((entry, child) => ({ ...entry, [child.id]: '' }), {});
+
+/**
+ * Leaves out the entries of a group answer that are not filled in at all, so an
+ * entry that was added by mistake doesn't count. Other values are returned as given.
+ */
+export const compactEntries = (value: any) => (Array.isArray(value) ? value.filter(entry => !isBlankEntry(entry)) : value);
+
+/**
+ * Picks the answers of the child fields from an entry. Entries of stored responses also
+ * hold the answers under the child labels (see entriesWithLabels), which are left out.
+ */
+export const entryAnswers = (entry: Record<string, any>, field: GroupField): Record<string, any> =>
+  getGroupFields(field).reduce<Record<string, any>>((answers, child) => {
+    if (entry[child.id] !== undefined) answers[child.id] = entry[child.id];
+    return answers;
+  }, {});
+
+/**
+ * Prepares the group answers of a response for storage: blank entries are left out,
+ * entries keep only the answers of the child fields, and their phone numbers and web
+ * addresses are normalized like other answers
+ * @param fields The fields of the form
+ * @param answers The answers, keyed by field ID
+ * @returns The answers with cleaned-up group entries
+ */
+export function normalizeGroupAnswers(fields: GroupField[], answers: Record<string, any>): Record<string, any> {
+  const normalized = { ...answers };
+
+  fields.filter(isGroupField).forEach(field => {
+    const entries = compactEntries(normalized[field.id]);
+    if (!Array.isArray(entries)) return;
+
+    const children = getGroupFields(field);
+    normalized[field.id] = entries.map(entry => normalizeContactAnswers(children, entryAnswers(entry, field)));
+  });
+
+  return normalized;
+}
+
+/**
+ * Adds the answers of each entry under the labels of the child fields as well, so
+ * templates can refer to them by label
+ * @param entries The entries of a group answer
+ * @param field The group
+ * @returns The entries, keyed by child field ID and label
+ */
+export function entriesWithLabels(entries: any[], field: GroupField): any[] {
+  const children = getGroupFields(field);
+
+  return entries.map(entry => {
+    if (!entry || typeof entry !== 'object') return entry;
+    const labeled: Record<string, any> = { ...entry };
+    children.forEach(child => {
+      if (child.label && entry[child.id] !== undefined) labeled[child.label] = entry[child.id];
+    });
+    return labeled;
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Edit links, which let respondents see and correct a response after submitting it.
+ * Forms opt in with `allow_response_edits`; each response then gets an `edit_token`
+ * that expires `edit_link_days` (default DEFAULT_EDIT_LINK_DAYS) after submitting. The
+ * link is `/forms/<id>?edit=<token>`. Owners can stop all edits with `responses_locked`.
+ * Answers set by a signed prefill link are kept in `prefilled_field_ids` and can't be
+ * changed with the edit link.
+ *
+ * Each edit keeps the previous answers in the `form_response_revisions` table: `id`,
+ * `response_id`, `form_id`, `data`, `respondent_email`, `submitted_at` (when the
+ * replaced answers were submitted) and `revised_at`. It is only written with the
+ * service role; owners read the revisions of their forms' responses.
+ */
+
+import { entryAnswers, isGroupField } from '@/lib/repeatingGroups';
+import { isLayoutField } from '@/lib/formLayout';
+import { isSignatureValue } from '@/lib/signatures';
+
+/** The query parameter that holds the token of a response to edit */
+export const EDIT_TOKEN_PARAM = 'edit';
+
+/** Days an edit link works when the form doesn't say */
+export const DEFAULT_EDIT_LINK_DAYS = 30;
+
+/** Longest time an edit link can work for */
+export const MAX_EDIT_LINK_DAYS = 365;
+
+/**
+ * Interface for the edit settings of a form
+ */
+export interface ResponseEditSettings {
+  allow_response_edits?: boolean | null;
+  edit_link_days?: number | null;
+  responses_locked?: boolean | null;
+}
+
+/**
+ * Interface for a response opened with an edit link
+ */
+export interface EditableResponse {
+  id: string;
+  /** The answers, keyed by field ID */
+  data: Record<string, any>;
+  respondent_email: string | null;
+  submitted_at: string;
+  updated_at: string | null;
+  edit_expires_at: string;
+  /** The fields answered by the signed link the response was submitted with, which can't be changed */
+  prefilled_field_ids: string[];
+}
+
+/**
+ * Interface for a revision of a response
+ */
+export interface ResponseRevision {
+  id: string;
+  response_id: string;
+  data: Record<string, any>;
+  respondent_email: string | null;
+  submitted_at: string;
+  revised_at: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether respondents of a form get edit links and can use them
+ */
+export const canEditResponses = (form: ResponseEditSettings) => !!form.allow_response_edits && !form.responses_locked;
+
+/**
+ * Gets the time an edit link created now expires
+ * @param form The edit settings of the form
+ * @param from When the response was submitted
+ */
+export function editLinkExpiry(form: ResponseEditSettings, from = new Date()): string {
+  const days = Number.isInteger(form.edit_link_days) && form.edit_link_days! > 0
+    ? Math.min(form.edit_link_days!, MAX_EDIT_LINK_DAYS)
+    : DEFAULT_EDIT_LINK_DAYS;
+  return new Date(from.getTime() + days * DAY_MS).toISOString();
+}
+
+/**
+ * Picks the answers that can be edited from stored response data, which also holds the
+ * answers under field labels. Calculated fields are left out, since they are computed
+ * again from the edited answers.
+ * @param fields The fields of the form
+ * @param data The stored response data
+ * @returns The answers, keyed by field ID
+ */
+export function editableAnswers(fields: any[], data: Record<string, any>): Record<string, any> {
+  const answers: Record<string, any> = {};
+
+  fields.filter(field => !isLayoutField(field) && field.type !== 'calculated').forEach(field => {
+    const value = data[field.id];
+    if (value === undefined) return;
+
+    answers[field.id] = isGroupField(field) && Array.isArray(value)
+      ? value.map(entry => entryAnswers(entry || {}, field))
+      : value;
+  });
+
+  return answers;
+}
+
+// Signatures record who signed each time the response is saved, which is not a change of the answer
+const comparableAnswer = (value: any) =>
+  JSON.stringify(isSignatureValue(value) ? { ...value, respondent: undefined } : value ?? null);
+
+/**
+ * Finds the fields whose answers differ between two versions of a response
+ * @param fields The fields of the form
+ * @param before The earlier response data
+ * @param after The later response data
+ * @returns The fields with changed answers
+ */
+export const changedFields = <T extends { id: string; type: string }>(fields: T[], before: Record<string, any>, after: Record<string, any>): T[] =>
+  fields.filter(field => !isLayoutField(field) && comparableAnswer(before[field.id]) !== comparableAnswer(after[field.id]));
+
+/**
+ * Loads a response to edit with an edit link
+ * @param formId The ID of the form
+ * @param token The edit token
+ * @returns The response
+ * @throws Error when the link is not valid, has expired or the form no longer allows edits
+ */
+export async function fetchEditableResponse(formId: string, token: string): Promise<EditableResponse> {
+  const response = await fetch(`/api/forms/${formId}/responses/edit?${EDIT_TOKEN_PARAM}=${encodeURIComponent(token)}`);
+  const result = await response.json();
+
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load your response');
+  }
+  return result.response;
+}
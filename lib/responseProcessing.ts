@@ -0,0 +1,106 @@
+/**
+ * Checks and prepares the answers of a response for storage, for route handlers that
+ * store responses: new ones and edits through an edit link. Server-only: uploaded
+ * files are checked in file storage.
+ */
+
+import type { NextRequest } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { responseValuesWithLabels } from '@/lib/responseValues';
+import { ResponseFieldError, validateResponse } from '@/lib/responseValidation';
+import { omitHiddenAnswers } from '@/lib/fieldVisibility';
+import { getResponseFileStorage } from '@/lib/fileStorage';
+import { StoredFile, isResponseFilePath, isStoredFile } from '@/lib/fileUploads';
+import { SignatureRespondent, recordSignatureRespondent } from '@/lib/signatures';
+import { normalizeContactAnswers } from '@/lib/contactFields';
+import { normalizeGroupAnswers } from '@/lib/repeatingGroups';
+import { computeCalculatedAnswers } from '@/lib/calculatedFields';
+import { applySignedPrefill } from '@/lib/prefill';
+
+/**
+ * Gets the details recorded with the signatures of a response
+ * @param request The incoming request
+ * @param email The respondent's email address, if given
+ * @param recordedAt When the response was submitted
+ */
+export const respondentDetails = (request: NextRequest, email: string | null, recordedAt: string): SignatureRespondent => ({
+  email,
+  ip_address: request.headers.get('x-forwarded-for')?.split(',')[0].trim() || request.headers.get('x-real-ip'),
+  user_agent: request.headers.get('user-agent'),
+  recorded_at: recordedAt
+});
+
+/**
+ * Checks that the files of a response were uploaded to their field of the form, and
+ * takes their size and type from file storage rather than from what was submitted
+ * @returns The answers with the stored details of the files, and the fields with files that were not uploaded
+ */
+async function checkUploadedFiles(db: SupabaseClient, formId: string, fields: any[], data: Record<string, any>) {
+  const storage = getResponseFileStorage(db);
+  const answers = { ...data };
+  const errors: ResponseFieldError[] = [];
+
+  for (const field of fields) {
+    if (field.type !== 'file' || !Array.isArray(data[field.id])) continue;
+
+    const files: StoredFile[] = [];
+    for (const file of data[field.id]) {
+      // Answers that are not stored files are reported by validation
+      if (!isStoredFile(file)) {
+        files.push(file);
+        continue;
+      }
+      const stored = isResponseFilePath(file.path, formId, field.id) ? await storage.stat(file.path) : null;
+      if (!stored) {
+        errors.push({ field_id: field.id, code: 'invalid_file', message: `${field.label || 'This field'}: "${file.name}" was not uploaded to this form` });
+        break;
+      }
+      files.push({ ...file, size: stored.size, type: stored.contentType });
+    }
+    answers[field.id] = files;
+  }
+
+  return { answers, errors };
+}
+
+/**
+ * Validates the answers of a response against the stored form definition and prepares
+ * them for storage
+ * @param db The client to check uploaded files with
+ * @param form The form, with its ID and fields
+ * @param data The submitted answers, keyed by field ID
+ * @param signedAnswers Answers the respondent can't change, e.g. from a signed prefill link
+ * @param respondent The details recorded with signatures
+ * @returns The errors of invalid answers, or the data to store
+ */
+export async function prepareResponseData(
+  db: SupabaseClient,
+  form: { id: string; fields: any[] | null },
+  data: Record<string, any>,
+  signedAnswers: Record<string, any>,
+  respondent: SignatureRespondent
+): Promise<{ errors: ResponseFieldError[] } | { data: Record<string, any> }> {
+  const fields = form.fields || [];
+
+  // Uploaded files are checked first, so the size and type rules apply to the stored files.
+  // Results sent for calculated fields are replaced before visibility rules look at them.
+  const uploaded = await checkUploadedFiles(db, form.id, fields, applySignedPrefill(fields, data, signedAnswers));
+  const calculatedData = computeCalculatedAnswers(fields, uploaded.answers);
+  const answers = omitHiddenAnswers(fields, calculatedData);
+  // Files of hidden fields are not stored, so they don't need to have been uploaded
+  const fileErrors = uploaded.errors.filter(error => answers[error.field_id] !== undefined);
+  const errors = [...fileErrors, ...validateResponse(fields, calculatedData).filter(error => !fileErrors.some(other => other.field_id === error.field_id))];
+
+  if (errors.length > 0) {
+    return { errors };
+  }
+
+  // Phone numbers are stored in E.164 and web addresses as full URLs, and blank entries of
+  // repeating groups are dropped. Calculated fields are computed again from the normalized
+  // answers. Signatures record who signed, as far as the server can tell.
+  const normalizedAnswers = computeCalculatedAnswers(fields, normalizeGroupAnswers(fields, normalizeContactAnswers(fields, answers)));
+
+  // Answers of hidden fields are left out, so templates see them as not answered. Answers are
+  // also stored under their field labels, so templates can refer to them either way.
+  return { data: responseValuesWithLabels(recordSignatureRespondent(fields, normalizedAnswers, respondent), fields) };
+}
@@ -0,0 +1,439 @@
+/**
+ * Validation of form responses against the stored form definition. Runs in the
+ * browser for immediate feedback and again in the responses API before a response
+ * is stored, so both report the same errors.
+ */
+
+import { RE2JS } from 're2js';
+import { EMAIL_REGEX } from '@/lib/formSubmission';
+import { VisibilityField, getHiddenFieldIds } from '@/lib/fieldVisibility';
+import { isLayoutField } from '@/lib/formLayout';
+import { MAX_UPLOAD_SIZE_MB, isAcceptedFileType, isStoredFile } from '@/lib/fileUploads';
+import { MAX_SIGNATURE_SIZE_KB, isSignatureValue, isValidSignatureImage } from '@/lib/signatures';
+import { ScaleSettings, getFieldScale, ratingValue } from '@/lib/ratingFields';
+import { isAddressValue, isBlankAddress, missingAddressParts, normalizePhone, normalizeUrl } from '@/lib/contactFields';
+import { GroupChildField, RepeatSettings, compactEntries, entryAnswers, getRepeatLimits } from '@/lib/repeatingGroups';
+import { isCalculatedField } from '@/lib/calculatedFields';
+import { MAX_PREFILL_LENGTH } from '@/lib/prefill';
+
+export type ResponseErrorCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_option'
+  | 'unknown_field'
+  | 'out_of_range'
+  | 'too_short'
+  | 'too_long'
+  | 'too_few'
+  | 'too_many'
+  | 'pattern_mismatch'
+  | 'mismatch'
+  | 'invalid_file'
+  | 'invalid_signature';
+
+/**
+ * Validation rules an author can set on a field in the form builder. Which rules
+ * apply depends on the field type; rules that don't apply are ignored.
+ */
+export interface FieldValidationRules {
+  /** Smallest number, or earliest date as YYYY-MM-DD */
+  min?: number | string;
+  /** Largest number, or latest date as YYYY-MM-DD */
+  max?: number | string;
+  /** Text length limits for text and textarea fields */
+  minLength?: number;
+  maxLength?: number;
+  /** Number of options to choose for checkbox and multiselect fields */
+  minSelections?: number;
+  maxSelections?: number;
+  /** Regular expression the whole answer must match */
+  pattern?: string;
+  /** Shown instead of the default message when the pattern doesn't match */
+  patternMessage?: string;
+  /** ID of another field whose answer this one must equal, e.g. to confirm an email address */
+  matchField?: string;
+  /** MIME types a file field accepts, e.g. `application/pdf` or `image/*`; any type when empty */
+  acceptedTypes?: string[];
+  /** Largest size of each file in MB, up to MAX_UPLOAD_SIZE_MB */
+  maxFileSize?: number;
+  /** Number of files a file field takes */
+  maxFiles?: number;
+}
+
+/**
+ * Interface for a problem with one answer of a response
+ */
+export interface ResponseFieldError {
+  /** The ID of the field, or the unknown key that was submitted */
+  field_id: string;
+  code: ResponseErrorCode;
+  message: string;
+}
+
+/**
+ * Interface for the parts of a form field that responses are validated against
+ */
+export interface ValidatableField extends VisibilityField {
+  id: string;
+  type?: string;
+  label?: string;
+  required?: boolean;
+  options?: string[] | null;
+  validation?: FieldValidationRules | null;
+  scale?: ScaleSettings | null;
+  fields?: GroupChildField[] | null;
+  repeat?: RepeatSettings | null;
+  metadata?: {
+    label?: string;
+    type?: string;
+    required?: boolean;
+    options?: string[] | null;
+    validation?: FieldValidationRules | null;
+    visibility?: VisibilityField['visibility'];
+    scale?: ScaleSettings | null;
+    fields?: GroupChildField[] | null;
+    repeat?: RepeatSettings | null;
+  } | null;
+}
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+// Fields store their settings at the top level and, for newer forms, in metadata as well
+const fieldLabel = (field: ValidatableField) => field.label || field.metadata?.label || 'This field';
+const fieldType = (field: ValidatableField) => field.type || field.metadata?.type || 'text';
+const fieldRequired = (field: ValidatableField) => !!(field.required ?? field.metadata?.required);
+const fieldOptions = (field: ValidatableField) => field.options || field.metadata?.options || [];
+const fieldRules = (field: ValidatableField): FieldValidationRules => field.validation || field.metadata?.validation || {};
+
+const TEXT_TYPES = ['text', 'textarea', 'email'];
+const SELECTION_TYPES = ['checkbox', 'multiselect'];
+// Answers that are not text, so text rules such as patterns don't apply to them
+const NON_TEXT_TYPES = ['file', 'signature', 'rating', 'scale', 'nps', 'address', 'group', 'hidden'];
+
+/**
+ * Checks whether an answer counts as not given
+ */
+export const isBlankAnswer = (value: any) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0) ||
+  (isAddressValue(value) && isBlankAddress(value));
+
+const isValidDate = (value: string) => {
+  if (!DATE_REGEX.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+};
+
+/**
+ * Checks the type and options of a given answer
+ */
+const validateAnswer = (field: ValidatableField, value: any): ResponseFieldError | null => {
+  const label = fieldLabel(field);
+  const type = fieldType(field);
+  const options = fieldOptions(field);
+  const error = (code: ResponseErrorCode, message: string): ResponseFieldError => ({ field_id: field.id, code, message });
+
+  switch (type) {
+    case 'email':
+      return typeof value === 'string' && EMAIL_REGEX.test(value.trim())
+        ? null
+        : error('invalid_type', `${label} must be a valid email address`);
+
+    case 'phone':
+      return typeof value === 'string' && normalizePhone(value)
+        ? null
+        : error('invalid_type', `${label} must be a phone number with country code, e.g. +1 415 555 2671`);
+
+    case 'hidden':
+      return (typeof value === 'string' && value.length <= MAX_PREFILL_LENGTH) || typeof value === 'number'
+        ? null
+        : error('invalid_type', `${label} must be text of at most ${MAX_PREFILL_LENGTH} characters`);
+
+    case 'url':
+      return typeof value === 'string' && normalizeUrl(value)
+        ? null
+        : error('invalid_type', `${label} must be a web address, e.g. https://example.com`);
+
+    case 'address': {
+      if (!isAddressValue(value)) {
+        return error('invalid_type', `${label} must be an address`);
+      }
+      const missing = missingAddressParts(value).map(part => part.label.toLowerCase());
+      return missing.length === 0
+        ? null
+        : error('required', `${label}: please enter the ${missing.length > 1 ? `${missing.slice(0, -1).join(', ')} and ${missing[missing.length - 1]}` : missing[0]}`);
+    }
+
+    case 'number': {
+      const isNumber = typeof value === 'number' ? isFinite(value) : typeof value === 'string' && value.trim() !== '' && isFinite(Number(value));
+      return isNumber ? null : error('invalid_type', `${label} must be a number`);
+    }
+
+    case 'date':
+      return typeof value === 'string' && isValidDate(value)
+        ? null
+        : error('invalid_type', `${label} must be a valid date (YYYY-MM-DD)`);
+
+    case 'select':
+    case 'radio':
+      if (typeof value !== 'string') {
+        return error('invalid_type', `${label} must be a single option`);
+      }
+      return options.length === 0 || options.includes(value)
+        ? null
+        : error('invalid_option', `"${value}" is not an option of ${label}`);
+
+    case 'checkbox':
+    case 'multiselect': {
+      // A checkbox without options is a single yes/no box
+      if (type === 'checkbox' && options.length === 0 && typeof value === 'boolean') {
+        return null;
+      }
+      if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+        return error('invalid_type', `${label} must be a list of options`);
+      }
+      const invalid = value.filter(item => options.length > 0 && !options.includes(item));
+      return invalid.length === 0
+        ? null
+        : error('invalid_option', `${invalid.map(item => `"${item}"`).join(', ')} ${invalid.length === 1 ? 'is not an option' : 'are not options'} of ${label}`);
+    }
+
+    case 'file':
+      return Array.isArray(value) && value.every(isStoredFile)
+        ? null
+        : error('invalid_type', `${label} must be a list of uploaded files`);
+
+    case 'rating':
+    case 'scale':
+    case 'nps': {
+      const number = ratingValue(value);
+      if (number === null) {
+        return error('invalid_type', `${label} must be a whole number`);
+      }
+      const { min, max } = getFieldScale({ type, scale: field.scale || field.metadata?.scale });
+      return number >= min && number <= max
+        ? null
+        : error('out_of_range', `${label} must be between ${min} and ${max}`);
+    }
+
+    case 'signature':
+      if (!isSignatureValue(value) || isNaN(new Date(value.signed_at).getTime())) {
+        return error('invalid_type', `${label} must be a signature`);
+      }
+      if (!isValidSignatureImage(value.image)) {
+        return error('invalid_signature', `${label} must be a PNG image of at most ${MAX_SIGNATURE_SIZE_KB} KB`);
+      }
+      return value.method === 'typed' && !(typeof value.name === 'string' && value.name.trim())
+        ? error('invalid_signature', `${label}: please type your name to sign`)
+        : null;
+
+    case 'group': {
+      if (!Array.isArray(value) || value.some(entry => !entry || typeof entry !== 'object' || Array.isArray(entry))) {
+        return error('invalid_type', `${label} must be a list of entries`);
+      }
+      const { min, max, entryLabel } = getRepeatLimits(field);
+      if (value.length < min) {
+        return error('too_few', `Add at least ${plural(min, entryLabel.toLowerCase())} for ${label}`);
+      }
+      if (value.length > max) {
+        return error('too_many', `Add at most ${plural(max, entryLabel.toLowerCase())} for ${label}`);
+      }
+      // Each entry is validated like a small form of the group's child fields
+      for (let index = 0; index < value.length; index++) {
+        const [entryError] = validateResponse(field.fields || field.metadata?.fields || [], entryAnswers(value[index], field));
+        if (entryError) {
+          return error(entryError.code, `${entryLabel} ${index + 1}: ${entryError.message}`);
+        }
+      }
+      return null;
+    }
+
+    default:
+      return typeof value === 'string' || typeof value === 'number'
+        ? null
+        : error('invalid_type', `${label} must be text`);
+  }
+};
+
+/** Longest pattern a validation rule can have */
+export const MAX_PATTERN_LENGTH = 200;
+
+/**
+ * Compiles a rule's pattern so that it has to match the whole answer, like the HTML
+ * `pattern` attribute. Patterns are run with RE2, which takes time linear in the length
+ * of the answer whatever the pattern, since the server checks them for every response.
+ * RE2 has no lookarounds or backreferences.
+ * @param pattern The pattern of the rule
+ * @returns The compiled pattern, or null for patterns that can't be used (see patternProblem)
+ */
+export function compilePattern(pattern: string): RE2JS | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) return null;
+  try {
+    return RE2JS.compile(`(?:${pattern})`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Finds the problem with a rule's pattern, for the form editor
+ * @param pattern The pattern of the rule
+ * @returns A message describing the problem, or null if the pattern can be used
+ */
+export function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `The pattern can be at most ${MAX_PATTERN_LENGTH} characters`;
+  }
+  if (!compilePattern(pattern)) {
+    return 'The pattern is not a valid regular expression, or uses lookarounds or backreferences';
+  }
+  return null;
+}
+
+const isSet = (value: any) => value !== undefined && value !== null && value !== '';
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Checks a given, well-typed answer against the author's validation rules
+ */
+const validateRules = (field: ValidatableField, value: any, data: Record<string, any>, fields: ValidatableField[]): ResponseFieldError | null => {
+  const label = fieldLabel(field);
+  const type = fieldType(field);
+  const rules = fieldRules(field);
+  const error = (code: ResponseErrorCode, message: string): ResponseFieldError => ({ field_id: field.id, code, message });
+
+  if (type === 'number') {
+    const number = Number(value);
+    if (isSet(rules.min) && number < Number(rules.min)) {
+      return error('out_of_range', `${label} must be at least ${rules.min}`);
+    }
+    if (isSet(rules.max) && number > Number(rules.max)) {
+      return error('out_of_range', `${label} must be at most ${rules.max}`);
+    }
+  }
+
+  // Dates are YYYY-MM-DD, so they compare correctly as strings
+  if (type === 'date') {
+    if (isSet(rules.min) && value < String(rules.min)) {
+      return error('out_of_range', `${label} must be on or after ${rules.min}`);
+    }
+    if (isSet(rules.max) && value > String(rules.max)) {
+      return error('out_of_range', `${label} must be on or before ${rules.max}`);
+    }
+  }
+
+  if (TEXT_TYPES.includes(type) && typeof value === 'string') {
+    if (isSet(rules.minLength) && value.length < Number(rules.minLength)) {
+      return error('too_short', `${label} must be at least ${plural(Number(rules.minLength), 'character')}`);
+    }
+    if (isSet(rules.maxLength) && value.length > Number(rules.maxLength)) {
+      return error('too_long', `${label} must be at most ${plural(Number(rules.maxLength), 'character')}`);
+    }
+  }
+
+  if (SELECTION_TYPES.includes(type) && Array.isArray(value)) {
+    if (isSet(rules.minSelections) && value.length < Number(rules.minSelections)) {
+      return error('too_few', `Choose at least ${plural(Number(rules.minSelections), 'option')} for ${label}`);
+    }
+    if (isSet(rules.maxSelections) && value.length > Number(rules.maxSelections)) {
+      return error('too_many', `Choose at most ${plural(Number(rules.maxSelections), 'option')} for ${label}`);
+    }
+  }
+
+  if (type === 'file' && Array.isArray(value)) {
+    if (isSet(rules.maxFiles) && value.length > Number(rules.maxFiles)) {
+      return error('too_many', `Upload at most ${plural(Number(rules.maxFiles), 'file')} for ${label}`);
+    }
+    const maxSize = Math.min(isSet(rules.maxFileSize) ? Number(rules.maxFileSize) : MAX_UPLOAD_SIZE_MB, MAX_UPLOAD_SIZE_MB);
+    for (const file of value) {
+      if (!isAcceptedFileType(file.type, rules.acceptedTypes)) {
+        return error('invalid_file', `${label}: "${file.name}" is not an accepted file type`);
+      }
+      if (file.size > maxSize * 1024 * 1024) {
+        return error('invalid_file', `${label}: "${file.name}" is larger than ${maxSize} MB`);
+      }
+    }
+  }
+
+  if (rules.pattern && !SELECTION_TYPES.includes(type) && !NON_TEXT_TYPES.includes(type)) {
+    const regex = compilePattern(rules.pattern);
+    if (regex && !regex.matches(String(value))) {
+      return error('pattern_mismatch', rules.patternMessage || `${label} is not in the expected format`);
+    }
+  }
+
+  if (rules.matchField && !NON_TEXT_TYPES.includes(type)) {
+    const other = fields.find(candidate => candidate.id === rules.matchField);
+    if (other && String(data[other.id] ?? '') !== String(value)) {
+      return error('mismatch', `${label} must match ${fieldLabel(other)}`);
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Validates the answers of a response against the form's fields: required answers,
+ * answer types and options, and the validation rules set on each field. Fields hidden
+ * by their visibility rules are skipped, as are sections and page breaks. Calculated
+ * fields are skipped too; their results are computed again before storing.
+ * @param fields The fields of the form
+ * @param data The answers, keyed by field ID
+ * @returns The problems found, in field order followed by unknown keys; empty if the response is valid
+ */
+export function validateResponse(fields: ValidatableField[], data: Record<string, any>): ResponseFieldError[] {
+  const errors: ResponseFieldError[] = [];
+  const hidden = getHiddenFieldIds(fields, data);
+
+  fields.forEach(field => {
+    // Hidden fields are not answered, and their answers are dropped before storing
+    if (hidden.has(field.id) || isLayoutField(field) || isCalculatedField(field)) return;
+
+    // Entries of a repeating group that were left blank don't count
+    const value = fieldType(field) === 'group' ? compactEntries(data[field.id]) : data[field.id];
+
+    if (isBlankAnswer(value)) {
+      if (fieldRequired(field)) {
+        errors.push({ field_id: field.id, code: 'required', message: `${fieldLabel(field)} is required` });
+      }
+      return;
+    }
+
+    const error = validateAnswer(field, value) || validateRules(field, value, data, fields);
+    if (error) errors.push(error);
+  });
+
+  const fieldIds = new Set(fields.map(field => field.id));
+  Object.keys(data)
+    .filter(key => !fieldIds.has(key))
+    .forEach(key => {
+      errors.push({ field_id: key, code: 'unknown_field', message: `"${key}" is not a field of this form` });
+    });
+
+  return errors;
+}
+
+/**
+ * Validates some of the fields of a form, e.g. those on the current page of a multi-page
+ * form. Rules that refer to other fields still see their answers.
+ * @param fields All fields of the form
+ * @param data The answers given so far, keyed by field ID
+ * @param fieldIds The IDs of the fields to validate
+ * @returns The problems with the given fields
+ */
+export function validateFields(fields: ValidatableField[], data: Record<string, any>, fieldIds: string[]): ResponseFieldError[] {
+  return validateResponse(fields, data).filter(error => fieldIds.includes(error.field_id));
+}
+
+/**
+ * Indexes errors by field ID for display next to the fields; the first error of a field wins
+ */
+export function errorsByField(errors: ResponseFieldError[]): Record<string, string> {
+  return errors.reduce<Record<string, string>>((result, error) => {
+    if (!result[error.field_id]) result[error.field_id] = error.message;
+    return result;
+  }, {});
+}
@@ -0,0 +1,56 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { entriesWithLabels, isGroupField } from '@/lib/repeatingGroups';
+
+/**
+ * Makes the answers of a form response reachable by field label as well as by field ID,
+ * so placeholders can use either. The entries of repeating groups get the answers of
+ * their child fields by label too.
+ * @param data The response data, keyed by field ID
+ * @param fields The fields of the form
+ * @returns The values for rendering a template
+ */
+export function responseValuesWithLabels(data: Record<string, any>, fields: any[] = []): Record<string, any> {
+  const values: Record<string, any> = { ...data };
+
+  fields.forEach((field: any) => {
+    if (isGroupField(field) && Array.isArray(data[field.id])) {
+      values[field.id] = entriesWithLabels(data[field.id], field);
+    }
+
+    const label = field.label || field.metadata?.label;
+    if (label && data[field.id] !== undefined) {
+      values[label] = values[field.id];
+    }
+  });
+
+  return values;
+}
+
+/**
+ * Loads the answers of a stored form response for document generation
+ * @param supabase The Supabase client of the request
+ * @param responseId The ID of the form response
+ * @returns The values, keyed by field ID and label, or null if the response was not found
+ */
+export async function loadResponseValues(
+  supabase: SupabaseClient,
+  responseId: string
+): Promise<Record<string, any> | null> {
+  const { data: response, error: responseError } = await supabase
+    .from('form_responses')
+    .select('data, form_id')
+    .eq('id', responseId)
+    .single();
+
+  if (responseError || !response) {
+    return null;
+  }
+
+  const { data: form } = await supabase
+    .from('forms')
+    .select('fields')
+    .eq('id', response.form_id)
+    .single();
+
+  return responseValuesWithLabels(response.data || {}, form?.fields);
+}
@@ -0,0 +1,87 @@
+/**
+ * Signatures given in signature fields. A respondent either draws a signature or
+ * types their name, which is drawn in a script font; both are stored as a PNG image
+ * together with when and how the response was signed. The server adds details about
+ * the respondent when the response is stored.
+ */
+
+export type SignatureMethod = 'drawn' | 'typed';
+
+/** Upper limit for the size of a signature image, as a data URL */
+export const MAX_SIGNATURE_SIZE_KB = 300;
+
+/**
+ * Interface for a signature, as kept in `form_responses.data`
+ */
+export interface SignatureValue {
+  /** The signature as a PNG data URL */
+  image: string;
+  method: SignatureMethod;
+  /** The typed name, for typed signatures */
+  name?: string;
+  /** When the respondent signed, as an ISO timestamp */
+  signed_at: string;
+  /** Added by the server when the response is stored */
+  respondent?: SignatureRespondent;
+}
+
+/**
+ * Interface for the details about the respondent recorded with a signature
+ */
+export interface SignatureRespondent {
+  email: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  recorded_at: string;
+}
+
+const PNG_DATA_URL_REGEX = /^data:image\/png;base64,[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Checks whether a value is a signature
+ */
+export const isSignatureValue = (value: any): value is SignatureValue =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  typeof value.image === 'string' &&
+  (value.method === 'drawn' || value.method === 'typed') &&
+  typeof value.signed_at === 'string';
+
+/**
+ * Checks that a signature image is a PNG data URL within the size limit
+ */
+export const isValidSignatureImage = (image: string) =>
+  image.length <= MAX_SIGNATURE_SIZE_KB * 1024 && PNG_DATA_URL_REGEX.test(image);
+
+/**
+ * Describes a signature in text, e.g. "Signed by Jane Doe on 2025-03-01"
+ */
+export function describeSignature(signature: SignatureValue): string {
+  const signer = signature.method === 'typed' && signature.name ? ` by ${signature.name}` : '';
+  const date = signature.signed_at.slice(0, 10);
+  return `Signed${signer}${date ? ` on ${date}` : ''}`;
+}
+
+/**
+ * Adds the respondent details to the signatures of a response
+ * @param fields The fields of the form
+ * @param answers The answers, keyed by field ID
+ * @param respondent The details recorded for the respondent
+ * @returns The answers with the details added to each signature
+ */
+export function recordSignatureRespondent(
+  fields: { id: string; type: string }[],
+  answers: Record<string, any>,
+  respondent: SignatureRespondent
+): Record<string, any> {
+  const recorded = { ...answers };
+
+  fields.forEach(field => {
+    if (field.type === 'signature' && isSignatureValue(recorded[field.id])) {
+      recorded[field.id] = { ...recorded[field.id], respondent };
+    }
+  });
+
+  return recorded;
+}
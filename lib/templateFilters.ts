@@ -0,0 +1,337 @@
+/**
+ * Formatting filters for template placeholders, e.g.
+ * {{Purchase Date | date:"MMMM d, yyyy"}}, {{Salary | currency:"USD"}},
+ * {{Full Name | upper}} or {{Notes | default:"N/A"}}
+ */
+
+import { isStoredFile } from '@/lib/fileUploads';
+import { describeSignature, isSignatureValue, isValidSignatureImage } from '@/lib/signatures';
+import { escapeMarkup, imageMarkdown } from '@/lib/documentModel';
+import { formatAddress, isAddressValue, isBlankAddress } from '@/lib/contactFields';
+
+/**
+ * Locale used when a filter is not given one explicitly. Fixed rather than taken
+ * from the runtime so documents render the same in the browser and on the server.
+ */
+export const DEFAULT_LOCALE = 'en-US';
+
+/**
+ * Interface for a single filter in a placeholder, e.g. `date:"MMMM d, yyyy"`
+ */
+export interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+/**
+ * Interface for a parsed placeholder expression
+ */
+export interface PlaceholderExpression {
+  name: string;
+  filters: FilterCall[];
+}
+
+type FilterFunction = (value: any, args: string[]) => any;
+
+/**
+ * An image from the `image` filter. Answers are escaped when they are put into a
+ * document, so images are passed on as these rather than as document text.
+ */
+class FilterImage {
+  constructor(readonly src: string, readonly alt: string) {}
+}
+
+/**
+ * Converts a response value to display text
+ */
+export const formatValue = (value: any): string => {
+  if (value === undefined || value === null) return '';
+  // Filters after `image` see the image's alt text
+  if (value instanceof FilterImage) return value.alt;
+  // For checkbox or multi-select values, and the files of file fields
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  // Uploaded files are shown by name
+  if (isStoredFile(value)) return value.name;
+  // Signatures are described in text; the `image` filter shows the signature itself
+  if (isSignatureValue(value)) return describeSignature(value);
+  // Addresses are shown on one line; `{{Address.city}}` gives a single part
+  if (isAddressValue(value)) return formatAddress(value);
+  return String(value);
+};
+
+/**
+ * Checks whether a response value should be treated as empty
+ */
+export const isEmptyValue = (value: any): boolean => {
+  if (value === undefined || value === null) return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'boolean') return !value;
+  if (isAddressValue(value)) return isBlankAddress(value);
+  return String(value).trim() === '';
+};
+
+/**
+ * Strips matching single or double quotes from a literal
+ */
+export const unquote = (literal: string) => {
+  const trimmed = literal.trim();
+  const match = trimmed.match(/^"(.*)"$|^'(.*)'$/);
+  return match ? (match[1] ?? match[2]) : trimmed;
+};
+
+/**
+ * Splits text on a separator character, ignoring separators inside quotes
+ */
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  parts.push(current);
+  return parts;
+};
+
+/**
+ * Parses a date answer. Date-only values (YYYY-MM-DD, as produced by the date field)
+ * are read as local dates so they do not shift a day in negative UTC offsets.
+ */
+const toDate = (value: any): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const text = String(value).trim();
+  const dateOnly = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (dateOnly) {
+    return new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+  }
+
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats a date with a date-fns style pattern (yyyy, MMMM, MMM, MM, M, EEEE, EEE,
+ * dd, d, HH, H, hh, h, mm, ss, a). Text in single quotes is copied as-is.
+ */
+const formatDate = (date: Date, pattern: string, locale: string): string => {
+  const part = (options: Intl.DateTimeFormatOptions) => new Intl.DateTimeFormat(locale, options).format(date);
+
+  return pattern.replace(/yyyy|yy|MMMM|MMM|MM|M|EEEE|EEE|dd|d|HH|H|hh|h|mm|ss|a|'[^']*'/g, token => {
+    switch (token) {
+      case 'yyyy': return String(date.getFullYear());
+      case 'yy': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return part({ month: 'long' });
+      case 'MMM': return part({ month: 'short' });
+      case 'MM': return pad(date.getMonth() + 1);
+      case 'M': return String(date.getMonth() + 1);
+      case 'EEEE': return part({ weekday: 'long' });
+      case 'EEE': return part({ weekday: 'short' });
+      case 'dd': return pad(date.getDate());
+      case 'd': return String(date.getDate());
+      case 'HH': return pad(date.getHours());
+      case 'H': return String(date.getHours());
+      case 'hh': return pad(date.getHours() % 12 || 12);
+      case 'h': return String(date.getHours() % 12 || 12);
+      case 'mm': return pad(date.getMinutes());
+      case 'ss': return pad(date.getSeconds());
+      case 'a': return date.getHours() < 12 ? 'AM' : 'PM';
+      default: return token.slice(1, -1);
+    }
+  });
+};
+
+/** Most decimals the number filters show, as allowed by Intl.NumberFormat */
+export const MAX_DECIMALS = 20;
+
+/**
+ * Parses the decimals argument of a number filter, clamped to what Intl.NumberFormat
+ * accepts. Returns undefined when it is not given or not a number.
+ */
+const parseDecimals = (decimals?: string): number | undefined => {
+  if (decimals === undefined || decimals.trim() === '') return undefined;
+  const digits = Math.round(Number(decimals));
+  return isNaN(digits) ? undefined : Math.min(Math.max(digits, 0), MAX_DECIMALS);
+};
+
+/**
+ * Parses a numeric answer, returning null when it is not a number
+ */
+const toNumber = (value: any): number | null => {
+  if (typeof value === 'number') return isNaN(value) ? null : value;
+  if (isEmptyValue(value)) return null;
+  const number = Number(String(value).replace(/,/g, '').trim());
+  return isNaN(number) ? null : number;
+};
+
+/**
+ * The filters available in placeholders. Filters that cannot handle a value
+ * (e.g. `date` on text that is not a date) pass it through unchanged.
+ */
+const FILTERS: Record<string, FilterFunction> = {
+  upper: value => formatValue(value).toUpperCase(),
+  lower: value => formatValue(value).toLowerCase(),
+  capitalize: value => formatValue(value).replace(/(^|\s)(\S)/g, (_, space, char) => space + char.toUpperCase()),
+  trim: value => formatValue(value).trim(),
+  default: (value, [fallback = '']) => (isEmptyValue(value) ? fallback : value),
+  join: (value, [separator = ', ']) => (Array.isArray(value) ? value.join(separator) : value),
+  date: (value, [pattern, locale = DEFAULT_LOCALE]) => {
+    if (isEmptyValue(value)) return '';
+    const date = toDate(value);
+    if (!date) return value;
+    // Locales that Intl doesn't accept, e.g. while the author is still typing one, leave the value as is
+    try {
+      return pattern
+        ? formatDate(date, pattern, locale)
+        : new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(date);
+    } catch {
+      return value;
+    }
+  },
+  number: (value, [decimals, locale = DEFAULT_LOCALE]) => {
+    const number = toNumber(value);
+    if (number === null) return value;
+    const digits = parseDecimals(decimals);
+    try {
+      return new Intl.NumberFormat(locale, {
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+      }).format(number);
+    } catch {
+      return value;
+    }
+  },
+  currency: (value, [currency = 'USD', locale = DEFAULT_LOCALE]) => {
+    const number = toNumber(value);
+    if (number === null) return value;
+    try {
+      return new Intl.NumberFormat(locale, { style: 'currency', currency: currency.toUpperCase() }).format(number);
+    } catch {
+      return value;
+    }
+  },
+  // Writes a signature, or a PNG data URL, as an image in PDF, Word and HTML output
+  image: (value, [alt]) => {
+    if (isSignatureValue(value) && isValidSignatureImage(value.image)) {
+      const signer = value.method === 'typed' && value.name ? ` of ${value.name}` : '';
+      return new FilterImage(value.image, alt ?? `Signature${signer}`);
+    }
+    if (typeof value === 'string' && isValidSignatureImage(value)) {
+      return new FilterImage(value, alt ?? 'Image');
+    }
+    return value;
+  },
+  percent: (value, [decimals = '0', locale = DEFAULT_LOCALE]) => {
+    const number = toNumber(value);
+    if (number === null) return value;
+    const digits = parseDecimals(decimals) ?? 0;
+    try {
+      return new Intl.NumberFormat(locale, {
+        style: 'percent',
+        minimumFractionDigits: digits,
+        maximumFractionDigits: digits
+      }).format(number / 100);
+    } catch {
+      return value;
+    }
+  }
+};
+
+/**
+ * Checks whether a filter name is supported
+ */
+export function isKnownFilter(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(FILTERS, name);
+}
+
+const isValidLocale = (locale: string) => {
+  try {
+    return Intl.getCanonicalLocales(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const decimalsProblem = (decimals?: string) =>
+  decimals !== undefined && decimals !== '' && !(/^\d+$/.test(decimals.trim()) && Number(decimals) <= MAX_DECIMALS)
+    ? `decimals must be a whole number from 0 to ${MAX_DECIMALS}, not "${decimals}"`
+    : null;
+
+const localeProblem = (locale?: string) =>
+  locale !== undefined && !isValidLocale(locale) ? `"${locale}" is not a valid locale, e.g. "en-US" or "de-DE"` : null;
+
+/**
+ * Checks the arguments of a filter, so mistakes are reported while editing rather than
+ * silently ignored when rendering
+ * @param filter The filter with its arguments
+ * @returns A description of the problem, or null if the arguments are valid
+ */
+export function filterArgumentProblem(filter: FilterCall): string | null {
+  const [first, second] = filter.args;
+
+  switch (filter.name) {
+    case 'number':
+    case 'percent':
+      return decimalsProblem(first) || localeProblem(second);
+    case 'date':
+      return localeProblem(second);
+    case 'currency':
+      if (first !== undefined && !/^[A-Za-z]{3}$/.test(first.trim())) {
+        return `currency must be a 3-letter ISO code such as "USD" or "EUR", not "${first}"`;
+      }
+      return localeProblem(second);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parses the contents of a placeholder into a field name and its filters
+ * @param expression The text between the braces, e.g. `Salary | currency:"USD"`
+ * @returns The field name and the filters to apply, in order
+ */
+export function parsePlaceholder(expression: string): PlaceholderExpression {
+  const [name, ...filterParts] = splitOutsideQuotes(expression, '|');
+
+  return {
+    name: name.trim(),
+    filters: filterParts
+      .map(part => {
+        const [filterName, ...args] = splitOutsideQuotes(part, ':');
+        return { name: filterName.trim(), args: args.map(unquote) };
+      })
+      .filter(filter => filter.name.length > 0)
+  };
+}
+
+/**
+ * Applies a placeholder's filters to a response value and returns display text.
+ * Unknown filters are skipped. The text is escaped, so markup in answers is shown as
+ * written; only the `image` filter writes markup (see lib/documentModel.ts).
+ * @param value The raw response value
+ * @param filters The filters to apply, in order
+ * @returns The formatted value, as document text
+ */
+export function applyFilters(value: any, filters: FilterCall[]): string {
+  const result = filters.reduce(
+    (current, filter) => (isKnownFilter(filter.name) ? FILTERS[filter.name](current, filter.args) : current),
+    value
+  );
+
+  return result instanceof FilterImage ? imageMarkdown(result.src, result.alt) : escapeMarkup(formatValue(result));
+}
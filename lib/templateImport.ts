@@ -0,0 +1,92 @@
+/**
+ * Detection of placeholder-looking text in imported documents, e.g. `[Client Name]`,
+ * `<<Date>>`, `«Amount»` or `Signature: ________`, so it can be turned into
+ * `{{...}}` template fields.
+ */
+
+import { tokenize } from '@/lib/templateParser';
+
+export type PlaceholderCandidateKind = 'brackets' | 'angle_brackets' | 'blank';
+
+/**
+ * Interface for a piece of text that looks like a placeholder
+ */
+export interface PlaceholderCandidate {
+  kind: PlaceholderCandidateKind;
+  /** The text as it appears in the document */
+  raw: string;
+  /** The suggested field name */
+  name: string;
+  start: number;
+  end: number;
+}
+
+const BRACKETS_REGEX = /\[([A-Za-z][^\[\]\n]{0,60})\]/g;
+const ANGLE_BRACKETS_REGEX = /(?:<<|«)\s*([^<>«»\n]{1,60}?)\s*(?:>>|»)/g;
+const BLANK_REGEX = /_{3,}/g;
+
+/**
+ * Suggests a field name for a blank from the label in front of it on the same line,
+ * e.g. "Date" for `Date: ________`
+ */
+const nameForBlank = (content: string, start: number): string => {
+  const lineStart = content.lastIndexOf('\n', start - 1) + 1;
+  const before = content.substring(lineStart, start).replace(/[*_#|>-]/g, ' ');
+  const label = before.match(/([A-Za-z][A-Za-z0-9 '&/]{0,40}?)\s*:?\s*$/);
+  return label ? label[1].trim() : '';
+};
+
+/**
+ * Finds text in imported document content that looks like a placeholder
+ * @param content The imported content
+ * @returns The candidates, in document order. Blanks without a recognisable
+ * label get a numbered name ("Field 1", "Field 2", ...).
+ */
+export function detectPlaceholderCandidates(content: string): PlaceholderCandidate[] {
+  const candidates: PlaceholderCandidate[] = [];
+
+  const collect = (regex: RegExp, kind: PlaceholderCandidateKind) => {
+    const pattern = new RegExp(regex.source, 'g');
+    let match;
+    while ((match = pattern.exec(content)) !== null) {
+      candidates.push({
+        kind,
+        raw: match[0],
+        name: kind === 'blank' ? nameForBlank(content, match.index) : match[1].trim(),
+        start: match.index,
+        end: match.index + match[0].length
+      });
+    }
+  };
+
+  collect(BRACKETS_REGEX, 'brackets');
+  collect(ANGLE_BRACKETS_REGEX, 'angle_brackets');
+  collect(BLANK_REGEX, 'blank');
+
+  // Skip text that is already inside a {{...}} placeholder
+  const existingTags = tokenize(content)
+    .filter(token => token.type === 'tag')
+    .map(token => ({ start: token.loc.start.offset, end: token.loc.end.offset }));
+
+  let unnamedCount = 0;
+  return candidates
+    .filter(candidate => !existingTags.some(tag => candidate.start < tag.end && candidate.end > tag.start))
+    .sort((a, b) => a.start - b.start)
+    .map(candidate => (candidate.name ? candidate : { ...candidate, name: `Field ${++unnamedCount}` }));
+}
+
+/**
+ * Replaces placeholder candidates in the content with `{{...}}` fields
+ * @param content The imported content
+ * @param candidates The candidates to convert, with the field names to use
+ * @returns The content with the candidates converted
+ */
+export function convertPlaceholderCandidates(content: string, candidates: PlaceholderCandidate[]): string {
+  return [...candidates]
+    .sort((a, b) => b.start - a.start)
+    .reduce(
+      (result, candidate) =>
+        result.substring(0, candidate.start) + `{{${candidate.name.trim()}}}` + result.substring(candidate.end),
+      content
+    );
+}
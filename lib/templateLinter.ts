@@ -0,0 +1,236 @@
+/**
+ * Linter for template content. Reports syntax mistakes and mismatches between a
+ * template and the fields of the form it is linked to, each with its position
+ * in the source so editors can point at the offending text.
+ */
+
+import { filterArgumentProblem, isKnownFilter } from '@/lib/templateFilters';
+import { isLayoutField } from '@/lib/formLayout';
+import { ADDRESS_PARTS } from '@/lib/contactFields';
+import {
+  SourceLocation,
+  TemplateSyntaxErrorCode,
+  createPositionLookup,
+  isLoopVariable,
+  normalizeFieldKey,
+  parseTemplate,
+  splitFieldPath,
+  walkTemplate
+} from '@/lib/templateParser';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
+
+export type TemplateLintSeverity = 'error' | 'warning';
+
+export type TemplateLintCode =
+  | TemplateSyntaxErrorCode
+  | 'unbalanced_braces'
+  | 'nested_braces'
+  | 'unknown_filter'
+  | 'invalid_filter_argument'
+  | 'unknown_placeholder'
+  | 'unused_field';
+
+/**
+ * A problem found in a template. Errors prevent the template from being saved;
+ * warnings are shown but do not block saving.
+ */
+export interface TemplateLintIssue {
+  code: TemplateLintCode;
+  severity: TemplateLintSeverity;
+  message: string;
+  /** Where the problem is. Unused form fields have no location in the template. */
+  loc?: SourceLocation;
+}
+
+/**
+ * Interface for a field of the form a template is linked to
+ */
+export interface LintFormField {
+  id: string;
+  label: string;
+  type?: string;
+}
+
+/**
+ * Finds braces that do not pair up into `{{...}}` tags: a `{{` that is never
+ * closed, a `}}` that was never opened, or a `{{` opened inside another tag
+ */
+const checkBraces = (content: string): TemplateLintIssue[] => {
+  const issues: TemplateLintIssue[] = [];
+  const positionAt = createPositionLookup(content);
+  const locate = (offset: number): SourceLocation => ({ start: positionAt(offset), end: positionAt(offset + 2) });
+  const openOffsets: number[] = [];
+
+  for (let i = 0; i < content.length - 1; i++) {
+    const pair = content.substring(i, i + 2);
+
+    if (pair === '{{') {
+      if (openOffsets.length > 0) {
+        issues.push({
+          code: 'nested_braces',
+          severity: 'error',
+          message: '{{ opened inside another {{...}} tag; tags cannot be nested',
+          loc: locate(i)
+        });
+      }
+      openOffsets.push(i);
+      i++;
+    } else if (pair === '}}') {
+      if (openOffsets.length === 0) {
+        issues.push({
+          code: 'unbalanced_braces',
+          severity: 'error',
+          message: '}} has no matching {{',
+          loc: locate(i)
+        });
+      }
+      openOffsets.pop();
+      i++;
+    }
+  }
+
+  openOffsets.forEach(offset => {
+    issues.push({
+      code: 'unbalanced_braces',
+      severity: 'error',
+      message: '{{ is never closed with }}',
+      loc: locate(offset)
+    });
+  });
+
+  return issues;
+};
+
+/**
+ * Lints template content
+ * @param content The template content
+ * @param formFields The fields of the linked form. When given, placeholders that match
+ * no field and fields the template never uses are reported as well.
+ * @param fieldMapping The template's placeholder-to-field mapping. Bound placeholders
+ * match their field even when the field's label has changed.
+ * @returns The issues found, in source order (unused fields last)
+ */
+export function lintTemplate(
+  content: string,
+  formFields?: LintFormField[],
+  fieldMapping?: TemplateFieldMapping | null
+): TemplateLintIssue[] {
+  const { nodes, errors } = parseTemplate(content || '');
+  const issues: TemplateLintIssue[] = [
+    ...checkBraces(content || ''),
+    ...errors.map(error => ({ code: error.code, severity: 'error' as const, message: error.message, loc: error.loc }))
+  ];
+
+  const fieldKeys = new Map<string, LintFormField>();
+  (formFields || []).forEach(field => {
+    fieldKeys.set(field.id, field);
+    if (field.label) fieldKeys.set(normalizeFieldKey(field.label), field);
+  });
+  const usedFields = new Set<string>();
+  const reportedNames = new Set<string>();
+
+  const findField = (name: string) => {
+    const binding = fieldMapping?.[name];
+    return (
+      (binding && formFields?.find(candidate => candidate.id === binding.field_id)) ||
+      fieldKeys.get(name) ||
+      fieldKeys.get(normalizeFieldKey(name))
+    );
+  };
+
+  // A part of an address answer, e.g. `Address.city`
+  const findFieldOfPart = (name: string) => {
+    for (const { field: fieldName, path } of splitFieldPath(name)) {
+      const field = findField(fieldName);
+      if (field?.type === 'address' && path.length === 1 && ADDRESS_PARTS.some(part => part.key === normalizeFieldKey(path[0]))) {
+        return field;
+      }
+    }
+    return undefined;
+  };
+
+  const checkField = (name: string, loc: SourceLocation) => {
+    if (!formFields || isLoopVariable(name)) return;
+
+    const field = findField(name) || findFieldOfPart(name);
+    if (field) {
+      usedFields.add(field.id);
+    } else if (!reportedNames.has(name)) {
+      reportedNames.add(name);
+      issues.push({
+        code: 'unknown_placeholder',
+        severity: 'warning',
+        message: `"${name}" does not match any field of the linked form`,
+        loc
+      });
+    }
+  };
+
+  walkTemplate(nodes, node => {
+    if (node.type === 'placeholder') {
+      checkField(node.name, node.loc);
+      node.filters.forEach(filter => {
+        if (!isKnownFilter(filter.name)) {
+          issues.push({
+            code: 'unknown_filter',
+            severity: 'error',
+            message: `Unknown filter "${filter.name}" in ${node.raw}`,
+            loc: node.loc
+          });
+          return;
+        }
+
+        const problem = filterArgumentProblem(filter);
+        if (problem) {
+          issues.push({
+            code: 'invalid_filter_argument',
+            severity: 'error',
+            message: `Filter "${filter.name}" in ${node.raw}: ${problem}`,
+            loc: node.loc
+          });
+        }
+      });
+    } else if (node.type === 'if') {
+      checkField(node.condition.field, node.loc);
+    } else if (node.type === 'each') {
+      checkField(node.field, node.loc);
+    }
+  });
+
+  issues.sort((a, b) => (a.loc?.start.offset ?? Infinity) - (b.loc?.start.offset ?? Infinity));
+
+  (formFields || [])
+    .filter(field => !usedFields.has(field.id))
+    .forEach(field => {
+      issues.push({
+        code: 'unused_field',
+        severity: 'warning',
+        message: `Form field "${field.label}" is not used in the template`
+      });
+    });
+
+  return issues;
+}
+
+/**
+ * Checks whether any of the lint issues should block saving
+ */
+export const hasLintErrors = (issues: TemplateLintIssue[]) => issues.some(issue => issue.severity === 'error');
+
+/**
+ * Formats a lint issue as a single line of text, e.g. `Line 3, column 5: ...`
+ */
+export const formatLintIssue = (issue: TemplateLintIssue) =>
+  issue.loc ? `Line ${issue.loc.start.line}, column ${issue.loc.start.column}: ${issue.message}` : issue.message;
+
+/**
+ * Picks the id and label of each field of a form as stored in the database, leaving out
+ * sections and page breaks
+ * @param fields The `fields` column of a form
+ * @returns The fields to lint a template against
+ */
+export const toLintFormFields = (fields: any[] | null | undefined): LintFormField[] =>
+  (fields || [])
+    .filter(field => !isLayoutField(field))
+    .map(field => ({ id: field.id, label: field.label || field.metadata?.label || '', type: field.type || field.metadata?.type }))
+    .filter(field => field.id && field.label);
@@ -0,0 +1,266 @@
+/**
+ * Bindings between template placeholders and form fields.
+ *
+ * Templates refer to fields by name, but form field labels can be renamed at any time.
+ * A template stores which field each placeholder is bound to, by the field's stable id,
+ * so documents keep rendering after a rename. The label the field had when it was bound
+ * is kept as well, which lets the mapping editor notice renames and suggest fixes.
+ */
+
+import { TemplateNode, extractFieldNames, normalizeFieldKey, parseTemplate, splitFieldPath, walkTemplate } from '@/lib/templateParser';
+
+/**
+ * Interface for the binding of one placeholder to a form field
+ */
+export interface FieldBinding {
+  field_id: string;
+  /** The label of the field when it was bound */
+  label: string;
+}
+
+/**
+ * The field mapping stored with a template, keyed by placeholder name as written in the template
+ */
+export type TemplateFieldMapping = Record<string, FieldBinding>;
+
+/**
+ * Interface for a form field that placeholders can be bound to
+ */
+export interface MappableField {
+  id: string;
+  label: string;
+}
+
+export type MappingSuggestionKind = 'unmapped' | 'missing_field' | 'label_changed';
+
+/**
+ * A suggested change to a template's field mapping
+ */
+export interface MappingSuggestion {
+  kind: MappingSuggestionKind;
+  placeholder: string;
+  message: string;
+  /** The field the placeholder should be bound to, if a likely match was found */
+  field?: MappableField;
+}
+
+// Minimum similarity for a label to be suggested as a match for a placeholder
+const MATCH_THRESHOLD = 0.6;
+
+/**
+ * Reduces a name to lowercase letters and digits for comparison
+ */
+const simplify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Computes the edit distance between two strings
+ */
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+};
+
+/**
+ * Scores how alike a placeholder name and a field label are, from 0 (unrelated) to 1 (same name).
+ * Takes the better of character similarity and shared words, so both typos and
+ * reworded labels ("Full Name" vs "Name") are recognised.
+ */
+const similarity = (name: string, label: string): number => {
+  const a = simplify(name);
+  const b = simplify(label);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const characterScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const wordsA = new Set(name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+  const wordsB = new Set(label.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean));
+  const shared = Array.from(wordsA).filter(word => wordsB.has(word)).length;
+  const wordScore = (2 * shared) / (wordsA.size + wordsB.size || 1);
+
+  return Math.max(characterScore, wordScore);
+};
+
+/**
+ * Finds the form field whose label best matches a name
+ * @param name The placeholder name or former label to match
+ * @param fields The fields to choose from
+ * @returns The best matching field, or undefined when none is similar enough
+ */
+export function findMatchingField(name: string, fields: MappableField[]): MappableField | undefined {
+  let best: MappableField | undefined;
+  let bestScore = 0;
+
+  fields.forEach(field => {
+    const score = normalizeFieldKey(field.label) === normalizeFieldKey(name) ? 1 : similarity(name, field.label);
+    if (score >= MATCH_THRESHOLD && score > bestScore) {
+      best = field;
+      bestScore = score;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Checks whether a placeholder refers to a part of a field's answer, e.g. `Address.city`.
+ * Such placeholders are not mapped themselves; they are looked up through their field.
+ */
+const refersToFieldPart = (name: string, fields: MappableField[]) => {
+  const hasLabel = (label: string) => fields.some(field => normalizeFieldKey(field.label) === normalizeFieldKey(label));
+  return !hasLabel(name) && splitFieldPath(name).some(({ field }) => hasLabel(field));
+};
+
+/**
+ * Builds a mapping for the placeholders of a template. Existing bindings to fields that
+ * still exist are kept; other placeholders are only bound to a field with exactly their
+ * name. Similar fields are left to getMappingSuggestions, for the author to confirm.
+ * @param content The template content
+ * @param fields The fields of the linked form
+ * @param existing The mapping currently stored with the template
+ * @returns The new mapping
+ */
+export function buildFieldMapping(
+  content: string,
+  fields: MappableField[],
+  existing: TemplateFieldMapping = {}
+): TemplateFieldMapping {
+  const mapping: TemplateFieldMapping = {};
+
+  const names = extractFieldNames(content).filter(name => !refersToFieldPart(name, fields));
+
+  names.forEach(name => {
+    const binding = existing[name];
+    const field =
+      (binding && fields.find(candidate => candidate.id === binding.field_id)) ||
+      fields.find(candidate => candidate.id === name || normalizeFieldKey(candidate.label) === normalizeFieldKey(name));
+
+    if (field) {
+      mapping[name] = { field_id: field.id, label: field.label };
+    }
+  });
+
+  return mapping;
+}
+
+/**
+ * Compares a template's mapping with the current fields of its form and suggests
+ * re-bindings for placeholders that are unbound, bound to deleted fields, or bound
+ * to fields whose label has changed since
+ * @param content The template content
+ * @param fields The fields of the linked form
+ * @param mapping The mapping stored with the template
+ * @returns The suggestions, in order of the placeholders in the template
+ */
+export function getMappingSuggestions(
+  content: string,
+  fields: MappableField[],
+  mapping: TemplateFieldMapping = {}
+): MappingSuggestion[] {
+  const suggestions: MappingSuggestion[] = [];
+
+  const placeholders = extractFieldNames(content).filter(placeholder => !refersToFieldPart(placeholder, fields));
+
+  placeholders.forEach(placeholder => {
+    const binding = mapping[placeholder];
+
+    if (!binding) {
+      const field = findMatchingField(placeholder, fields);
+      suggestions.push({
+        kind: 'unmapped',
+        placeholder,
+        field,
+        message: field
+          ? `{{${placeholder}}} is not bound to a field. It looks like "${field.label}".`
+          : `{{${placeholder}}} is not bound to a field and no similar field was found.`
+      });
+      return;
+    }
+
+    const boundField = fields.find(field => field.id === binding.field_id);
+
+    if (!boundField) {
+      const field = findMatchingField(binding.label, fields) || findMatchingField(placeholder, fields);
+      suggestions.push({
+        kind: 'missing_field',
+        placeholder,
+        field,
+        message: field
+          ? `The field "${binding.label}" bound to {{${placeholder}}} no longer exists. Bind it to "${field.label}" instead?`
+          : `The field "${binding.label}" bound to {{${placeholder}}} no longer exists.`
+      });
+    } else if (boundField.label !== binding.label) {
+      suggestions.push({
+        kind: 'label_changed',
+        placeholder,
+        field: boundField,
+        message: `The field bound to {{${placeholder}}} was renamed from "${binding.label}" to "${boundField.label}".`
+      });
+    }
+  });
+
+  return suggestions;
+}
+
+/**
+ * Looks up the value of a bound placeholder in response data stored by field id
+ * @param values The response values
+ * @param name The placeholder name
+ * @param mapping The template's field mapping
+ * @returns The field id and value, or undefined when the placeholder is unbound or unanswered
+ */
+export function resolveMappedValue(
+  values: Record<string, any>,
+  name: string,
+  mapping?: TemplateFieldMapping
+): { key: string; value: any } | undefined {
+  const binding = mapping?.[name.trim()];
+  if (!binding || values[binding.field_id] === undefined) return undefined;
+  return { key: binding.field_id, value: values[binding.field_id] };
+}
+
+/**
+ * Renames a field reference throughout a template: placeholders, {{#if}} conditions and
+ * {{#each}} blocks. Filters and the rest of each tag are left as written.
+ * @param content The template content
+ * @param from The field name to replace
+ * @param to The new field name
+ * @returns The updated content
+ */
+export function renamePlaceholder(content: string, from: string, to: string): string {
+  const edits: { start: number; end: number; text: string }[] = [];
+
+  const rename = (node: TemplateNode, raw: string, start: number, end: number) => {
+    const index = raw.indexOf(from, node.type === 'placeholder' ? 0 : raw.indexOf(node.type) + node.type.length);
+    if (index !== -1) {
+      edits.push({ start, end, text: raw.substring(0, index) + to + raw.substring(index + from.length) });
+    }
+  };
+
+  walkTemplate(parseTemplate(content).nodes, node => {
+    if (node.type === 'placeholder' && node.name === from) {
+      rename(node, node.raw, node.loc.start.offset, node.loc.end.offset);
+    } else if ((node.type === 'if' && node.condition.field === from) || (node.type === 'each' && node.field === from)) {
+      // Block nodes span the whole block; only the opening tag is rewritten
+      const tagEnd = content.indexOf('}}', node.loc.start.offset) + 2;
+      rename(node, content.substring(node.loc.start.offset, tagEnd), node.loc.start.offset, tagEnd);
+    }
+  });
+
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.substring(0, edit.start) + edit.text + result.substring(edit.end), content);
+}
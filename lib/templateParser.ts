@@ -0,0 +1,405 @@
+/**
+ * Tokenizer and parser for the template language.
+ *
+ * Every part of the app that needs to know what a template contains (placeholder
+ * detection, highlighting, validation and rendering) goes through this module,
+ * so they can never disagree about it.
+ */
+
+import { FilterCall, parsePlaceholder, unquote } from '@/lib/templateFilters';
+
+/**
+ * A position in the template source. Lines and columns are 1-based.
+ */
+export interface SourcePosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * The span of source text a token or node was parsed from
+ */
+export interface SourceLocation {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+/**
+ * A token of template source: literal text or a `{{...}}` tag
+ */
+export interface TemplateToken {
+  type: 'text' | 'tag';
+  /** The text itself, or for tags the trimmed text between the braces */
+  value: string;
+  raw: string;
+  loc: SourceLocation;
+}
+
+export type ConditionOperator = 'empty' | 'not_empty' | 'equals' | 'not_equals' | 'contains' | 'not_contains';
+
+/**
+ * Interface for the parsed condition of an {{#if}} block
+ */
+export interface Condition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+  loc: SourceLocation;
+}
+
+export interface PlaceholderNode {
+  type: 'placeholder';
+  /** The text between the braces, e.g. `Salary | currency:"USD"` */
+  expression: string;
+  name: string;
+  filters: FilterCall[];
+  raw: string;
+  loc: SourceLocation;
+}
+
+export interface IfNode {
+  type: 'if';
+  condition: Condition;
+  consequent: TemplateNode[];
+  alternate: TemplateNode[];
+  loc: SourceLocation;
+}
+
+/**
+ * An {{#each}} block. The alternate branch is rendered when there is nothing to iterate over.
+ */
+export interface EachNode {
+  type: 'each';
+  field: string;
+  body: TemplateNode[];
+  alternate: TemplateNode[];
+  loc: SourceLocation;
+}
+
+export type TemplateNode = TextNode | PlaceholderNode | IfNode | EachNode;
+
+export type TemplateSyntaxErrorCode =
+  | 'empty_tag'
+  | 'unknown_block'
+  | 'invalid_block'
+  | 'unclosed_block'
+  | 'unexpected_close'
+  | 'unexpected_else';
+
+/**
+ * A syntax problem found while parsing. The parser always recovers, keeping
+ * the offending tag as literal text, so a template with errors still renders.
+ */
+export interface TemplateSyntaxError {
+  code: TemplateSyntaxErrorCode;
+  message: string;
+  loc: SourceLocation;
+}
+
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  errors: TemplateSyntaxError[];
+}
+
+// Matches a `{{...}}` tag; braces are not allowed inside a tag
+const TAG_REGEX = /{{([^{}]*)}}/g;
+
+// Names that refer to the current {{#each}} item rather than a form field
+const LOOP_VARIABLES = ['this', '@index', '@number', '@first', '@last'];
+
+/**
+ * Normalizes a field name or response key for loose matching
+ * (lowercase, whitespace replaced by underscores)
+ */
+export const normalizeFieldKey = (key: string) => key.trim().toLowerCase().replace(/\s+/g, '_');
+
+/**
+ * Checks whether a placeholder name refers to an {{#each}} loop variable
+ * (`this`, `this.Property`, `@index`, `@number`, `@first` or `@last`)
+ */
+export const isLoopVariable = (name: string) => LOOP_VARIABLES.includes(name) || name.startsWith('this.');
+
+/**
+ * Splits a dotted placeholder name such as `Address.city` into the field it names and
+ * the path to a part of that field's answer. Field labels may contain dots themselves,
+ * so every split is returned, longest field name first.
+ * @param name The placeholder name
+ * @returns The possible field names, each with the remaining path
+ */
+export function splitFieldPath(name: string): { field: string; path: string[] }[] {
+  const parts = name.trim().split('.');
+  const splits: { field: string; path: string[] }[] = [];
+  for (let index = parts.length - 1; index > 0; index--) {
+    const field = parts.slice(0, index).join('.').trim();
+    const path = parts.slice(index).map(part => part.trim());
+    if (field && path.every(part => part)) splits.push({ field, path });
+  }
+  return splits;
+}
+
+/**
+ * Creates a function mapping offsets in the source to line/column positions
+ */
+export const createPositionLookup = (content: string) => {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+};
+
+/**
+ * Splits template source into text and tag tokens
+ * @param content The template content
+ * @returns The tokens, in source order
+ */
+export function tokenize(content: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  if (!content) return tokens;
+
+  const positionAt = createPositionLookup(content);
+  const pushText = (start: number, end: number) => {
+    if (end > start) {
+      const value = content.substring(start, end);
+      tokens.push({ type: 'text', value, raw: value, loc: { start: positionAt(start), end: positionAt(end) } });
+    }
+  };
+
+  const regex = new RegExp(TAG_REGEX.source, 'g');
+  let lastIndex = 0;
+  let match;
+
+  while ((match = regex.exec(content)) !== null) {
+    pushText(lastIndex, match.index);
+    tokens.push({
+      type: 'tag',
+      value: match[1].trim(),
+      raw: match[0],
+      loc: { start: positionAt(match.index), end: positionAt(regex.lastIndex) }
+    });
+    lastIndex = regex.lastIndex;
+  }
+
+  pushText(lastIndex, content.length);
+  return tokens;
+}
+
+/**
+ * Parses the condition of an {{#if}} block.
+ *
+ * Supported conditions:
+ * - `Field` / `not Field` - the answer is filled in / left empty
+ * - `Field is empty` / `Field is not empty`
+ * - `Field == "value"` / `Field != "value"`
+ * - `Field contains "value"` / `Field not contains "value"` - option membership
+ *   for checkbox and multiselect answers, substring match for text answers
+ * @param text The condition as written after `#if`
+ * @returns The parsed condition, or null when no field is named
+ */
+export function parseCondition(text: string): Condition | null {
+  const expression = text.trim();
+
+  const emptinessMatch = expression.match(/^(.+?)\s+is\s+(not\s+)?empty$/i);
+  if (emptinessMatch) {
+    return { field: emptinessMatch[1].trim(), operator: emptinessMatch[2] ? 'not_empty' : 'empty' };
+  }
+
+  const comparisonMatch = expression.match(/^(.+?)\s*(==|!=|\s+not\s+contains\s+|\s+contains\s+)\s*(.+)$/i);
+  if (comparisonMatch) {
+    const operators: Record<string, ConditionOperator> = {
+      '==': 'equals',
+      '!=': 'not_equals',
+      'contains': 'contains',
+      'not contains': 'not_contains'
+    };
+    return {
+      field: comparisonMatch[1].trim(),
+      operator: operators[comparisonMatch[2].trim().toLowerCase().replace(/\s+/g, ' ')],
+      value: unquote(comparisonMatch[3])
+    };
+  }
+
+  const negationMatch = expression.match(/^not\s+(.+)$/i);
+  if (negationMatch) {
+    return { field: negationMatch[1].trim(), operator: 'empty' };
+  }
+
+  return expression ? { field: expression, operator: 'not_empty' } : null;
+}
+
+type BlockFrame = {
+  node: IfNode | EachNode;
+  token: TemplateToken;
+  elseToken?: TemplateToken;
+};
+
+/**
+ * Parses template content into an AST
+ * @param content The template content
+ * @returns The nodes of the template and any syntax errors found
+ */
+export function parseTemplate(content: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const errors: TemplateSyntaxError[] = [];
+  const stack: BlockFrame[] = [];
+
+  const target = (): TemplateNode[] => {
+    const frame = stack[stack.length - 1];
+    if (!frame) return root;
+    if (frame.elseToken) return frame.node.alternate;
+    return frame.node.type === 'if' ? frame.node.consequent : frame.node.body;
+  };
+  const asText = (token: TemplateToken): TextNode => ({ type: 'text', value: token.raw, loc: token.loc });
+  const fail = (code: TemplateSyntaxErrorCode, message: string, token: TemplateToken) => {
+    errors.push({ code, message, loc: token.loc });
+    target().push(asText(token));
+  };
+
+  for (const token of tokenize(content)) {
+    if (token.type === 'text') {
+      target().push({ type: 'text', value: token.value, loc: token.loc });
+      continue;
+    }
+
+    const tag = token.value;
+    const frame = stack[stack.length - 1];
+    const blockMatch = tag.match(/^#(\w+)\s*([\s\S]*)$/);
+
+    if (!tag) {
+      fail('empty_tag', 'Empty placeholder {{}}', token);
+    } else if (blockMatch) {
+      const [, keyword, argument] = blockMatch;
+
+      if (keyword === 'if') {
+        const condition = parseCondition(argument);
+        if (!condition) {
+          fail('invalid_block', '{{#if}} needs a condition', token);
+        } else {
+          stack.push({ node: { type: 'if', condition, consequent: [], alternate: [], loc: token.loc }, token });
+        }
+      } else if (keyword === 'each') {
+        if (!argument.trim()) {
+          fail('invalid_block', '{{#each}} needs a field to iterate over', token);
+        } else {
+          stack.push({ node: { type: 'each', field: argument.trim(), body: [], alternate: [], loc: token.loc }, token });
+        }
+      } else {
+        fail('unknown_block', `Unknown block {{#${keyword}}}`, token);
+      }
+    } else if (tag === 'else') {
+      if (!frame) {
+        fail('unexpected_else', '{{else}} outside of an {{#if}} or {{#each}} block', token);
+      } else if (frame.elseToken) {
+        fail('unexpected_else', `Duplicate {{else}} in {{#${frame.node.type}}} block`, token);
+      } else {
+        frame.elseToken = token;
+      }
+    } else if (tag.startsWith('/')) {
+      const keyword = tag.substring(1).trim();
+      if (frame && frame.node.type === keyword) {
+        stack.pop();
+        frame.node.loc = { start: frame.token.loc.start, end: token.loc.end };
+        target().push(frame.node);
+      } else if (frame) {
+        fail('unexpected_close', `{{/${keyword}}} does not match the open {{#${frame.node.type}}} block`, token);
+      } else {
+        fail('unexpected_close', `{{/${keyword}}} has no matching opening block`, token);
+      }
+    } else {
+      const { name, filters } = parsePlaceholder(tag);
+      if (!name) {
+        fail('empty_tag', `Placeholder ${token.raw} has no field name`, token);
+      } else {
+        target().push({ type: 'placeholder', expression: tag, name, filters, raw: token.raw, loc: token.loc });
+      }
+    }
+  }
+
+  // Unwind unclosed blocks back into literal text so the content is not lost
+  while (stack.length > 0) {
+    const frame = stack.pop()!;
+    errors.push({
+      code: 'unclosed_block',
+      message: `{{#${frame.node.type}}} block is never closed with {{/${frame.node.type}}}`,
+      loc: frame.token.loc
+    });
+
+    const parent = target();
+    parent.push(asText(frame.token), ...(frame.node.type === 'if' ? frame.node.consequent : frame.node.body));
+    if (frame.elseToken) {
+      parent.push(asText(frame.elseToken), ...frame.node.alternate);
+    }
+  }
+
+  errors.sort((a, b) => a.loc.start.offset - b.loc.start.offset);
+  return { nodes: root, errors };
+}
+
+/**
+ * Visits every node of a template AST, depth first in source order
+ * @param nodes The nodes to walk
+ * @param visit Called for each node
+ */
+export function walkTemplate(nodes: TemplateNode[], visit: (node: TemplateNode) => void): void {
+  nodes.forEach(node => {
+    visit(node);
+    if (node.type === 'if') {
+      walkTemplate(node.consequent, visit);
+      walkTemplate(node.alternate, visit);
+    } else if (node.type === 'each') {
+      walkTemplate(node.body, visit);
+      walkTemplate(node.alternate, visit);
+    }
+  });
+}
+
+/**
+ * Collects the names of the form fields a template refers to, in order of first use.
+ * Includes fields used in placeholders, conditions and loops; loop variables are skipped.
+ * @param content The template content
+ * @returns The unique field names
+ */
+export function extractFieldNames(content: string): string[] {
+  const names: string[] = [];
+  const add = (name: string) => {
+    if (!isLoopVariable(name) && !names.includes(name)) names.push(name);
+  };
+
+  walkTemplate(parseTemplate(content).nodes, node => {
+    if (node.type === 'placeholder') add(node.name);
+    else if (node.type === 'if') add(node.condition.field);
+    else if (node.type === 'each') add(node.field);
+  });
+
+  return names;
+}
+
+/**
+ * Extracts the field labels a template refers to, keyed by a field ID derived
+ * from the label (lowercase, no spaces)
+ * @param content The template content
+ * @returns A mapping of derived field IDs to labels
+ */
+export function extractFieldLabels(content: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  extractFieldNames(content).forEach(name => {
+    fields[normalizeFieldKey(name)] = name;
+  });
+  return fields;
+}
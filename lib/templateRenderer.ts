@@ -2,6 +2,19 @@
  * Utility functions for rendering templates with form response data
  */
 
+import { applyFilters, isEmptyValue } from '@/lib/templateFilters';
+import {
+  Condition,
+  PlaceholderNode,
+  TemplateNode,
+  isLoopVariable,
+  normalizeFieldKey,
+  parseTemplate,
+  splitFieldPath
+} from '@/lib/templateParser';
+import { TemplateFieldMapping, resolveMappedValue } from '@/lib/templateMapping';
+import { documentToHtml } from '@/lib/htmlDocument';
+
 /**
  * Interface for a template
  */
@@ -14,6 +27,7 @@ interface Template {
     id: string;
     label: string;
   }>;
+  field_mapping?: TemplateFieldMapping | null;
 }
 
 /**
@@ -27,6 +41,285 @@ interface FormResponse {
   created_at?: string;
 }
 
+/**
+ * A piece of rendered output: literal text, or the value substituted for a placeholder.
+ * Placeholder segments keep the raw value and the key it was found under so that
+ * previews can highlight and edit them.
+ */
+export type RenderedSegment =
+  | { type: 'text'; text: string }
+  | { type: 'placeholder'; text: string; node: PlaceholderNode; found: boolean; key?: string; value?: any };
+
+/**
+ * Looks up the value of a field by placeholder name in a set of response values.
+ * Placeholders bound to a field in the template's mapping are looked up by field ID;
+ * others fall back to matching the name against the response keys.
+ * @param values The response values, keyed by field label or field ID
+ * @param name The field name as written in the template
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @returns Whether a value was found, the key it was found under and the value itself
+ */
+export function resolveFieldValue(
+  values: Record<string, any>,
+  name: string,
+  fieldMapping?: TemplateFieldMapping | null
+): { found: boolean; key?: string; value?: any } {
+  const fieldName = name.trim();
+
+  const mapped = resolveMappedValue(values, fieldName, fieldMapping || undefined);
+  if (mapped) {
+    return { found: true, ...mapped };
+  }
+
+  if (values[fieldName] !== undefined) {
+    return { found: true, key: fieldName, value: values[fieldName] };
+  }
+
+  const normalizedName = normalizeFieldKey(fieldName);
+  const key = Object.keys(values).find(candidate => normalizeFieldKey(candidate) === normalizedName);
+
+  if (key !== undefined) {
+    return { found: true, key, value: values[key] };
+  }
+
+  return resolveFieldPath(values, fieldName, fieldMapping);
+}
+
+/**
+ * Looks up a part of a structured answer, e.g. `Address.city` for the city of an
+ * address field. Parts are matched like response keys, so `Address.Postal Code`
+ * finds `postal_code`. The key is the whole placeholder name, so edits made in the
+ * preview are kept apart from the rest of the answer.
+ */
+const resolveFieldPath = (
+  values: Record<string, any>,
+  name: string,
+  fieldMapping?: TemplateFieldMapping | null
+): { found: boolean; key?: string; value?: any } => {
+  for (const { field, path } of splitFieldPath(name)) {
+    const parent = resolveFieldValue(values, field, fieldMapping);
+    if (!parent.found) continue;
+
+    let value = parent.value;
+    for (const part of path) {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        value = undefined;
+        break;
+      }
+      const partKey = Object.keys(value).find(candidate => normalizeFieldKey(candidate) === normalizeFieldKey(part));
+      value = partKey === undefined ? undefined : value[partKey];
+    }
+
+    if (value !== undefined) return { found: true, key: name, value };
+  }
+
+  return { found: false };
+};
+
+/**
+ * Evaluates the condition of an {{#if}} block against response values
+ * @param condition The parsed condition
+ * @param values The response values to evaluate against
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @returns Whether the condition holds
+ */
+export function evaluateCondition(
+  condition: Condition,
+  values: Record<string, any>,
+  fieldMapping?: TemplateFieldMapping | null
+): boolean {
+  const value = resolveFieldValue(values, condition.field, fieldMapping).value;
+  const expected = condition.value ?? '';
+
+  switch (condition.operator) {
+    case 'empty':
+      return isEmptyValue(value);
+    case 'not_empty':
+      return !isEmptyValue(value);
+    case 'contains':
+    case 'not_contains': {
+      const contains = Array.isArray(value)
+        ? value.map(String).includes(expected)
+        : value !== undefined && value !== null && String(value).includes(expected);
+      return condition.operator === 'contains' ? contains : !contains;
+    }
+    default: {
+      const actual = Array.isArray(value) ? value.join(', ') : value === undefined || value === null ? '' : String(value);
+      return condition.operator === 'equals' ? actual.trim() === expected : actual.trim() !== expected;
+    }
+  }
+}
+
+/**
+ * Turns a response value into the list of items an {{#each}} block iterates over.
+ * Checkbox and multiselect answers edited as text are stored comma-separated,
+ * so strings are split back into their options.
+ */
+const toItems = (value: any): any[] => {
+  if (value === undefined || value === null) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+  }
+  return [value];
+};
+
+/**
+ * Builds the loop variables for one iteration of an {{#each}} block.
+ * Properties of object items (repeating-group entries) are exposed as `this.Property`.
+ */
+const loopVariables = (item: any, index: number, count: number): Record<string, any> => {
+  const variables: Record<string, any> = {
+    this: item,
+    '@index': index,
+    '@number': index + 1,
+    '@first': index === 0,
+    '@last': index === count - 1
+  };
+
+  if (item && typeof item === 'object' && !Array.isArray(item)) {
+    Object.entries(item).forEach(([key, value]) => {
+      variables[`this.${key}`] = value;
+    });
+  }
+
+  return variables;
+};
+
+/**
+ * Renders template nodes into segments, keeping only the branches whose
+ * conditions hold and repeating {{#each}} bodies once per item.
+ * @param nodes The parsed template nodes
+ * @param values The response values
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @param locals The loop variables of the enclosing {{#each}} blocks, if any. Inside a nested
+ * loop the inner item's variables shadow the outer ones, while properties of the outer item
+ * stay available as `this.Property` unless the inner item has the same property.
+ */
+const renderNodes = (
+  nodes: TemplateNode[],
+  values: Record<string, any>,
+  fieldMapping?: TemplateFieldMapping | null,
+  locals?: Record<string, any>
+): RenderedSegment[] => {
+  const scope = locals ? { ...values, ...locals } : values;
+
+  return nodes.flatMap((node): RenderedSegment[] => {
+    switch (node.type) {
+      case 'text':
+        return [{ type: 'text', text: node.value }];
+
+      case 'placeholder': {
+        // Loop variables render as plain text; they are not answers that can be edited
+        if (locals && isLoopVariable(node.name)) {
+          return [{ type: 'text', text: applyFilters(locals[node.name], node.filters) }];
+        }
+
+        const { found, key, value } = resolveFieldValue(values, node.name, fieldMapping);
+        const text = applyFilters(value, node.filters);
+        return [{ type: 'placeholder', text, node, found: found || text !== '', key, value }];
+      }
+
+      case 'if':
+        return renderNodes(
+          evaluateCondition(node.condition, scope, fieldMapping) ? node.consequent : node.alternate,
+          values,
+          fieldMapping,
+          locals
+        );
+
+      case 'each': {
+        const items = toItems(resolveFieldValue(scope, node.field, fieldMapping).value);
+        if (items.length === 0) {
+          return renderNodes(node.alternate, values, fieldMapping, locals);
+        }
+        return items.flatMap((item, index) =>
+          renderNodes(node.body, values, fieldMapping, { ...locals, ...loopVariables(item, index, items.length) })
+        );
+      }
+    }
+  });
+};
+
+/**
+ * Renders template content into segments of text and substituted values.
+ * This is the single rendering path used by text, PDF and preview output.
+ *
+ * Inside an {{#each Field}} block, `{{this}}` is the current item, `{{this.Property}}`
+ * a property of a repeating-group entry, `{{@index}}` / `{{@number}}` its zero- and
+ * one-based position, and `@first` / `@last` can be tested with {{#if}}.
+ * @param content The raw template content
+ * @param values The response values, keyed by field label or field ID
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @returns The rendered segments, in output order
+ */
+export function renderSegments(
+  content: string,
+  values: Record<string, any>,
+  fieldMapping?: TemplateFieldMapping | null
+): RenderedSegment[] {
+  if (!content) {
+    return [];
+  }
+
+  return renderNodes(parseTemplate(content).nodes, values, fieldMapping);
+}
+
+/**
+ * Renders template content to text. Placeholders that match no answer are kept as written.
+ * @param content The raw template content
+ * @param values The response values, keyed by field label or field ID
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @returns The rendered text
+ */
+export function renderTemplateContent(
+  content: string,
+  values: Record<string, any>,
+  fieldMapping?: TemplateFieldMapping | null
+): string {
+  return renderSegments(content, values, fieldMapping)
+    .map(segment => (segment.type === 'placeholder' && !segment.found ? segment.node.raw : segment.text))
+    .join('');
+}
+
+/**
+ * Renders template content to the text of a generated document. Like
+ * renderTemplateContent, but ends with a note listing the placeholders that
+ * could not be resolved, so a document generated in the browser and one
+ * generated by a server route are the same.
+ * @param content The raw template content
+ * @param values The response values, keyed by field label or field ID
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @returns The document text
+ */
+export function renderDocumentText(
+  content: string,
+  values: Record<string, any>,
+  fieldMapping?: TemplateFieldMapping | null
+): string {
+  const segments = renderSegments(content, values, fieldMapping);
+  const unresolved: string[] = [];
+  let text = '';
+
+  segments.forEach(segment => {
+    if (segment.type === 'placeholder' && !segment.found) {
+      if (!unresolved.includes(segment.node.expression)) unresolved.push(segment.node.expression);
+      text += segment.node.raw;
+    } else {
+      text += segment.text;
+    }
+  });
+
+  if (unresolved.length > 0) {
+    text += '\n\n---\nNote: The following placeholders could not be resolved:\n';
+    unresolved.forEach(expression => {
+      text += `- {{${expression}}}\n`;
+    });
+  }
+
+  return text;
+}
+
 /**
  * Renders a template with form response data
  * @param template The template to render
@@ -41,83 +334,32 @@ export function renderTemplate(template: Template, formResponse: FormResponse):
   // Log the form response data to help with debugging
   console.log('Rendering template with form response data:', formResponse);
 
-  // Extract field labels from template content
-  const extractFieldLabels = (content: string) => {
-    const regex = /{{([^}]+)}}/g;
-    let match;
-    const fields: Record<string, string> = {};
-    
-    while ((match = regex.exec(content)) !== null) {
-      const fieldName = match[1].trim();
-      // Convert field name to a valid ID (lowercase, no spaces)
-      const fieldId = fieldName.toLowerCase().replace(/\s+/g, '_');
-      fields[fieldId] = fieldName;
-    }
-    
-    return fields;
-  };
-
-  // Get the field labels from the template fields or extract from content
-  const fieldLabels: Record<string, string> = {};
-  
-  if (template.fields && template.fields.length > 0) {
-    // Create a mapping from field IDs to their labels
-    template.fields.forEach(field => {
-      fieldLabels[field.id] = field.label;
-    });
-  } else {
-    // Extract field labels from template content if fields are not provided
-    Object.assign(fieldLabels, extractFieldLabels(template.template_content));
-  }
-  
   // Create a mapping from field IDs to their values in the form response
   const fieldValues: Record<string, any> = {};
   
-  // Map field IDs to their values in the form response
   if (formResponse && formResponse.data) {
-    Object.entries(formResponse.data).forEach(([fieldId, value]) => {
-      fieldValues[fieldId] = value;
-    });
+    Object.assign(fieldValues, formResponse.data);
   } else {
     console.warn('Form response data is missing or invalid:', formResponse);
   }
-  
-  // Replace placeholders in the template content with form response values
-  let renderedContent = template.template_content;
-  
-  // For each field label, replace its placeholder with the corresponding value
-  Object.entries(fieldLabels).forEach(([fieldId, label]) => {
-    const placeholder = `{{${label}}}`;
-    const value = fieldValues[fieldId];
-    
-    // Handle different value types
-    let displayValue = '';
-    
-    if (value === undefined || value === null) {
-      displayValue = '';
-    } else if (Array.isArray(value)) {
-      // For checkbox or multi-select values
-      displayValue = value.join(', ');
-    } else {
-      displayValue = String(value);
+
+  // Templates refer to fields by label, so make the values reachable by label as well
+  (template.fields || []).forEach(field => {
+    if (formResponse?.data?.[field.id] !== undefined) {
+      fieldValues[field.label] = formResponse.data[field.id];
     }
-    
-    // Replace all occurrences of the placeholder with the value
-    renderedContent = renderedContent.replace(new RegExp(placeholder, 'g'), displayValue);
   });
-  
-  return renderedContent;
+
+  return renderTemplateContent(template.template_content, fieldValues, template.field_mapping);
 }
 
 /**
  * Renders a template with form response data and returns it as HTML
  * @param template The template to render
  * @param formResponse The form response data to use
- * @returns The rendered template content as HTML
+ * @returns The rendered template content as HTML, with all text escaped
  */
 export function renderTemplateAsHtml(template: Template, formResponse: FormResponse): string {
-  const renderedContent = renderTemplate(template, formResponse);
-  
-  // Convert line breaks to <br> tags for HTML display
-  return renderedContent.replace(/\n/g, '<br>');
+  // Headings, emphasis, lists and tables are converted the same way as for PDF and Word output
+  return documentToHtml(renderTemplate(template, formResponse));
 } 
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * Word (.docx) output for rendered templates
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Packer,
+  PageBreak,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType
+} from 'docx';
+import { DocumentBlock, imageSizeMm, parseDocument, parseInline } from '@/lib/documentModel';
+
+export const WORD_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const NUMBERED_LIST_REFERENCE = 'numbered-list';
+
+const HEADING_LEVELS = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3
+} as const;
+
+const CELL_BORDER = { style: BorderStyle.SINGLE, size: 4, color: '999999' };
+
+const MM_TO_PX = 96 / 25.4;
+
+/**
+ * Decodes the contents of a base64 data URL
+ */
+const dataUrlBytes = (src: string): Uint8Array =>
+  Uint8Array.from(atob(src.slice(src.indexOf(',') + 1)), char => char.charCodeAt(0));
+
+/**
+ * Creates the text runs of a paragraph, keeping its line breaks and emphasis
+ */
+const textRuns = (lines: string[], bold = false): TextRun[] =>
+  lines.flatMap((line, index) =>
+    parseInline(line).map((run, runIndex) =>
+      new TextRun({
+        text: run.text,
+        bold: bold || run.bold,
+        italics: run.italic,
+        break: index > 0 && runIndex === 0 ? 1 : undefined
+      })
+    )
+  );
+
+/**
+ * Converts document blocks into docx paragraphs and tables
+ */
+const toDocxChildren = (blocks: DocumentBlock[]): (Paragraph | Table)[] => {
+  let numberedListCount = 0;
+
+  return blocks.flatMap((block): (Paragraph | Table)[] => {
+    switch (block.type) {
+      case 'heading':
+        return [new Paragraph({ children: textRuns([block.text]), heading: HEADING_LEVELS[block.level] })];
+
+      case 'paragraph':
+        return [new Paragraph({ children: textRuns(block.lines), spacing: { after: 160 } })];
+
+      case 'list': {
+        // Each numbered list gets its own numbering instance so it starts again at 1
+        const instance = block.ordered ? ++numberedListCount : 0;
+        return block.items.map(item =>
+          block.ordered
+            ? new Paragraph({ children: textRuns([item]), numbering: { reference: NUMBERED_LIST_REFERENCE, level: 0, instance } })
+            : new Paragraph({ children: textRuns([item]), bullet: { level: 0 } })
+        );
+      }
+
+      case 'table': {
+        const columnCount = Math.max(...block.rows.map(row => row.length));
+        const table = new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: block.rows.map((row, rowIndex) => {
+            const isHeader = block.header && rowIndex === 0;
+            return new TableRow({
+              tableHeader: isHeader,
+              children: Array.from({ length: columnCount }, (_, column) =>
+                new TableCell({
+                  children: [new Paragraph({ children: textRuns([row[column] ?? ''], isHeader) })],
+                  borders: { top: CELL_BORDER, bottom: CELL_BORDER, left: CELL_BORDER, right: CELL_BORDER },
+                  shading: isHeader ? { fill: 'F2F2F2' } : undefined
+                })
+              )
+            });
+          })
+        });
+        // Word needs a paragraph between consecutive tables, and one after a table looks better anyway
+        return [table, new Paragraph({})];
+      }
+
+      case 'image': {
+        const size = imageSizeMm(block);
+        return [
+          new Paragraph({
+            children: [
+              new ImageRun({
+                type: 'png',
+                data: dataUrlBytes(block.src),
+                transformation: { width: Math.round(size.width * MM_TO_PX), height: Math.round(size.height * MM_TO_PX) },
+                altText: { name: block.alt || 'Image', description: block.alt }
+              })
+            ],
+            spacing: { after: 160 }
+          })
+        ];
+      }
+
+      case 'rule':
+        return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: '999999', space: 1 } } })];
+
+      case 'page_break':
+        return [new Paragraph({ children: [new PageBreak()] })];
+    }
+  });
+};
+
+/**
+ * Creates a Word document from rendered template text
+ * @param content The rendered template text
+ * @param title The document title, stored in the document properties
+ * @returns The Word document
+ */
+export function createWordDocument(content: string, title: string): Document {
+  return new Document({
+    title,
+    creator: 'Form Templater',
+    styles: {
+      default: {
+        document: { run: { font: 'Calibri', size: 22 } }
+      }
+    },
+    numbering: {
+      config: [
+        {
+          reference: NUMBERED_LIST_REFERENCE,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.DECIMAL,
+              text: '%1.',
+              alignment: AlignmentType.START,
+              style: { paragraph: { indent: { left: 720, hanging: 360 } } }
+            }
+          ]
+        }
+      ]
+    },
+    sections: [{ children: toDocxChildren(parseDocument(content)) }]
+  });
+}
+
+/**
+ * Generates a Word file from rendered template text, for download in the browser
+ * @param content The rendered template text
+ * @param title The document title
+ * @returns The .docx file contents
+ */
+export function generateWordBlob(content: string, title: string): Promise<Blob> {
+  return Packer.toBlob(createWordDocument(content, title));
+}
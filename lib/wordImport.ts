@@ -0,0 +1,130 @@
+/**
+ * Conversion of Word (.docx) documents into template content. Runs on the server.
+ *
+ * The document is converted to HTML with mammoth and then to the text conventions
+ * of the document model (`#` headings, `-` / `1.` lists, `|` tables), with bold and
+ * italic text marked as `**bold**` and `*italic*`.
+ */
+
+import mammoth from 'mammoth';
+import * as cheerio from 'cheerio';
+
+type CheerioSelection = ReturnType<cheerio.CheerioAPI>;
+
+/**
+ * Converts the inline content of an element to text with emphasis markers
+ */
+const inlineText = ($: cheerio.CheerioAPI, element: CheerioSelection): string => {
+  let text = '';
+
+  element.contents().each((_, node) => {
+    if (node.type === 'text') {
+      text += $(node).text().replace(/\s+/g, ' ');
+      return;
+    }
+
+    const child = $(node);
+    const tag = (child.prop('tagName') || '').toLowerCase();
+    const inner = inlineText($, child);
+
+    // Emphasis markers go around the words only, so surrounding spaces stay outside them
+    const emphasize = (marker: string) =>
+      inner.replace(/^(\s*)([\s\S]*?)(\s*)$/, (_, before, words, after) => `${before}${marker}${words}${marker}${after}`);
+
+    if (tag === 'br') {
+      text += '\n';
+    } else if ((tag === 'strong' || tag === 'b') && inner.trim()) {
+      text += emphasize('**');
+    } else if ((tag === 'em' || tag === 'i') && inner.trim()) {
+      text += emphasize('*');
+    } else {
+      text += inner;
+    }
+  });
+
+  return text;
+};
+
+/**
+ * Converts a list to `-` or `1.` items. Nested lists are indented by two spaces per level.
+ */
+const listText = ($: cheerio.CheerioAPI, list: CheerioSelection, depth = 0): string[] => {
+  const ordered = (list.prop('tagName') || '').toLowerCase() === 'ol';
+  const lines: string[] = [];
+
+  list.children('li').each((index, item) => {
+    const listItem = $(item);
+    const nested = listItem.children('ul, ol');
+    const text = inlineText($, listItem.clone().children('ul, ol').remove().end()).trim();
+
+    lines.push(`${'  '.repeat(depth)}${ordered ? `${index + 1}.` : '-'} ${text}`);
+    nested.each((_, nestedList) => {
+      lines.push(...listText($, $(nestedList), depth + 1));
+    });
+  });
+
+  return lines;
+};
+
+/**
+ * Converts a table to `| a | b |` rows. A separator line follows the first row when it is a header row.
+ */
+const tableText = ($: cheerio.CheerioAPI, table: CheerioSelection): string[] => {
+  const lines: string[] = [];
+
+  table.find('tr').each((index, row) => {
+    const cells = $(row).children('td, th');
+    const values = cells.map((_, cell) => inlineText($, $(cell)).replace(/\s*\n\s*/g, ' ').replace(/\|/g, '/').trim()).get();
+    lines.push(`| ${values.join(' | ')} |`);
+
+    if (index === 0 && $(row).children('th').length > 0) {
+      lines.push(`|${values.map(() => '---').join('|')}|`);
+    }
+  });
+
+  return lines;
+};
+
+/**
+ * Converts mammoth's HTML output to template content
+ * @param html The HTML of the document
+ * @returns The template content
+ */
+export function htmlToTemplateContent(html: string): string {
+  const $ = cheerio.load(html);
+  const blocks: string[] = [];
+
+  $('body').children().each((_, node) => {
+    const element = $(node);
+    const tag = (element.prop('tagName') || '').toLowerCase();
+    const heading = tag.match(/^h([1-6])$/);
+
+    if (heading) {
+      const text = inlineText($, element).replace(/\*+/g, '').trim();
+      if (text) blocks.push(`${'#'.repeat(Math.min(Number(heading[1]), 3))} ${text}`);
+    } else if (tag === 'ul' || tag === 'ol') {
+      blocks.push(listText($, element).join('\n'));
+    } else if (tag === 'table') {
+      blocks.push(tableText($, element).join('\n'));
+    } else {
+      const text = inlineText($, element).trim();
+      if (text) blocks.push(text);
+    }
+  });
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Imports a Word document as template content
+ * @param buffer The .docx file contents
+ * @returns The template content and any conversion warnings from mammoth
+ */
+export async function importWordDocument(buffer: Buffer): Promise<{ content: string; warnings: string[] }> {
+  const result = await mammoth.convertToHtml({ buffer });
+
+  return {
+    content: htmlToTemplateContent(result.value),
+    warnings: result.messages.filter(message => message.type === 'warning').map(message => message.message)
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Word (.docx) files used as templates. Placeholders are written in the document with
+ * the same `{{Field Name | filter}}` syntax as text templates and are filled in with
+ * the shared renderer, so filters and field mappings behave the same in both.
+ *
+ * The file is processed with docx-templates, whose own commands (IF, FOR, LINK, ...)
+ * take precedence over placeholder names starting with those words. Such placeholders
+ * can be written with a leading `=`, e.g. `{{= Link}}`.
+ *
+ * Images written by the `image` filter (e.g. signatures) are inserted in a second pass,
+ * since docx-templates only inserts images for its own IMAGE command.
+ */
+
+import { createReport, listCommands } from 'docx-templates';
+import { v4 as uuidv4 } from 'uuid';
+import { renderTemplateContent } from '@/lib/templateRenderer';
+import { ImageBlock, imageSizeMm, splitImages, unescapeMarkup } from '@/lib/documentModel';
+import { TemplateFieldMapping } from '@/lib/templateMapping';
+import { parsePlaceholder } from '@/lib/templateFilters';
+
+/**
+ * Storage bucket holding uploaded Word templates
+ */
+export const TEMPLATE_FILES_BUCKET = 'template-files';
+
+const DELIMITERS: [string, string] = ['{{', '}}'];
+
+/**
+ * Interface for a problem found in an uploaded Word template
+ */
+export interface WordTemplateProblem {
+  placeholder: string;
+  message: string;
+}
+
+/**
+ * Lists the placeholders of a Word template and the ones that cannot be filled in
+ * @param template The .docx file contents
+ * @returns The field names used in the document and any problems found
+ */
+export async function inspectWordTemplate(
+  template: ArrayBuffer
+): Promise<{ fields: string[]; problems: WordTemplateProblem[] }> {
+  const commands = await listCommands(template, DELIMITERS);
+  const fields: string[] = [];
+  const problems: WordTemplateProblem[] = [];
+
+  commands.forEach(command => {
+    const placeholder = `{{${command.raw.trim()}}}`;
+
+    if (command.type !== 'INS') {
+      problems.push({
+        placeholder,
+        message: `${placeholder} is read as a Word template command. Write it as {{= ${command.raw.trim()}}} to insert a field.`
+      });
+    } else if (/^[#/]|^else$/.test(command.code.trim())) {
+      problems.push({
+        placeholder,
+        message: `${placeholder}: {{#if}} and {{#each}} blocks are not supported in Word templates.`
+      });
+    } else {
+      const { name } = parsePlaceholder(command.code);
+      if (name && !fields.includes(name)) fields.push(name);
+    }
+  });
+
+  return { fields, problems };
+}
+
+/**
+ * Fills in the placeholders of a Word template with response values
+ * @param template The .docx file contents
+ * @param values The response values, keyed by field label or field ID
+ * @param fieldMapping The template's placeholder-to-field mapping, if any
+ * @returns The filled-in .docx file contents
+ */
+export async function fillWordTemplate(
+  template: ArrayBuffer,
+  values: Record<string, any>,
+  fieldMapping?: TemplateFieldMapping | null
+): Promise<Uint8Array> {
+  // Images are replaced by IMAGE commands with delimiters that respondents can't guess,
+  // so text in the answers is never read as a command in the second pass
+  const nonce = uuidv4();
+  const imageDelimiters: [string, string] = [`[[${nonce}:`, `:${nonce}]]`];
+  const images: ImageBlock[] = [];
+
+  const filled = await createReport({
+    template: new Uint8Array(template),
+    cmdDelimiter: DELIMITERS,
+    fixSmartQuotes: true,
+    // Placeholders are rendered by the template renderer instead of being run as JavaScript
+    runJs: ({ sandbox }) => {
+      const code = String(sandbox.__code__ ?? '').trim();
+      if (/^[#/]|^else$/.test(code)) {
+        throw new Error(`{{${code}}}: {{#if}} and {{#each}} blocks are not supported in Word templates`);
+      }
+      const text = splitImages(renderTemplateContent(`{{${code}}}`, values, fieldMapping))
+        .map(part => {
+          if (typeof part === 'string') return unescapeMarkup(part);
+          images.push(part);
+          return `${imageDelimiters[0]}IMAGE ${images.length - 1}${imageDelimiters[1]}`;
+        })
+        .join('');
+      return { modifiedSandbox: sandbox, result: text };
+    }
+  });
+
+  if (images.length === 0) return filled;
+
+  return createReport({
+    template: filled,
+    cmdDelimiter: imageDelimiters,
+    runJs: ({ sandbox }) => {
+      const image = images[Number(sandbox.__code__)];
+      const { width, height } = imageSizeMm(image);
+      return {
+        modifiedSandbox: sandbox,
+        result: {
+          width: width / 10,
+          height: height / 10,
+          data: image.src.slice(image.src.indexOf(',') + 1),
+          extension: '.png',
+          alt: image.alt
+        }
+      };
+    }
+  });
+}
@@ -58,10 +58,11 @@ const templates = [
     fields: [
       { id: 'name', label: 'Full Name', type: 'text', required: true },
       { id: 'email', label: 'Email Address', type: 'email', required: true },
-      { id: 'phone', label: 'Phone Number', type: 'tel', required: false },
+      { id: 'phone', label: 'Phone Number', type: 'phone', required: false },
       { id: 'event', label: 'Select Event', type: 'select', required: true },
       { id: 'date', label: 'Event Date', type: 'date', required: true },
       { id: 'tickets', label: 'Number of Tickets', type: 'number', required: true },
+      { id: 'total_price', label: 'Total Price', type: 'calculated', required: false, calculation: { formula: '{Number of Tickets} * 25', decimals: 2 } },
       { id: 'dietary', label: 'Dietary Requirements', type: 'textarea', required: false },
       { id: 'terms', label: 'I agree to the terms and conditions', type: 'checkbox', required: true }
     ]
@@ -76,7 +77,9 @@ const templates = [
     fields: [
       { id: 'name', label: 'Full Name', type: 'text', required: true },
       { id: 'email', label: 'Email Address', type: 'email', required: true },
-      { id: 'phone', label: 'Phone Number', type: 'tel', required: true },
+      { id: 'phone', label: 'Phone Number', type: 'phone', required: true },
+      { id: 'address', label: 'Home Address', type: 'address', required: true },
+      { id: 'portfolio', label: 'Portfolio or LinkedIn Profile', type: 'url', required: false },
       { id: 'position', label: 'Position Applied For', type: 'select', required: true },
       { id: 'resume', label: 'Resume/CV', type: 'file', required: true },
       { id: 'cover_letter', label: 'Cover Letter', type: 'file', required: false },
@@ -84,7 +87,19 @@ const templates = [
       { id: 'education', label: 'Highest Education Level', type: 'select', required: true },
       { id: 'experience', label: 'Years of Experience', type: 'number', required: true },
       { id: 'skills', label: 'Key Skills', type: 'textarea', required: true },
-      { id: 'references', label: 'References', type: 'textarea', required: false },
+      {
+        id: 'references',
+        label: 'References',
+        type: 'group',
+        required: false,
+        repeat: { min: 1, max: 3, entryLabel: 'Reference' },
+        fields: [
+          { id: 'name', label: 'Name', type: 'text', required: true },
+          { id: 'relationship', label: 'Relationship', type: 'text', required: false },
+          { id: 'email', label: 'Email', type: 'email', required: true },
+          { id: 'phone', label: 'Phone', type: 'phone', required: false }
+        ]
+      },
       { id: 'hear_about', label: 'How did you hear about this position?', type: 'select', required: false },
       { id: 'salary', label: 'Salary Expectations', type: 'text', required: false },
       { id: 'questions', label: 'Questions for the employer', type: 'textarea', required: false },
@@ -122,7 +137,7 @@ const templates = [
       { id: 'features_used', label: 'Which features do you use most?', type: 'checkbox', required: true },
       { id: 'missing_features', label: 'What features would you like to see added?', type: 'textarea', required: false },
       { id: 'improvement', label: 'What would you improve about our product?', type: 'textarea', required: true },
-      { id: 'recommend', label: 'How likely are you to recommend our product?', type: 'rating', required: true },
+      { id: 'recommend', label: 'How likely are you to recommend our product?', type: 'nps', required: true },
       { id: 'feedback', label: 'Additional feedback', type: 'textarea', required: false }
     ]
   }
@@ -176,6 +191,7 @@ async function preloadTemplates() {
             ? `Enter ${field.label.toLowerCase()}` 
             : undefined,
           options: field.options || [],
+          calculation: field.calculation,
         };
       });
       
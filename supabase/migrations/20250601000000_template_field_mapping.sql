@@ -0,0 +1,3 @@
+-- Placeholder-to-field mapping of templates (see lib/templateMapping.ts)
+alter table templates
+  add column if not exists field_mapping jsonb;
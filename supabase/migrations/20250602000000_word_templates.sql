@@ -0,0 +1,14 @@
+-- Word documents uploaded as templates (see lib/wordTemplate.ts). Files are kept in
+-- the `template-files` bucket under `<user id>/<template id>.docx`.
+alter table templates
+  add column if not exists docx_path text,
+  add column if not exists docx_filename text;
+
+insert into storage.buckets (id, name, public)
+values ('template-files', 'template-files', false)
+on conflict (id) do nothing;
+
+create policy "Users manage their own template files"
+  on storage.objects for all to authenticated
+  using (bucket_id = 'template-files' and (storage.foldername(name))[1] = auth.uid()::text)
+  with check (bucket_id = 'template-files' and (storage.foldername(name))[1] = auth.uid()::text);
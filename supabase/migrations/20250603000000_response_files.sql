@@ -0,0 +1,5 @@
+-- Files uploaded with responses (see lib/fileUploads.ts). They are kept under
+-- `<form id>/<field id>/...` and only accessed with the service role.
+insert into storage.buckets (id, name, public)
+values ('response-files', 'response-files', false)
+on conflict (id) do nothing;
@@ -0,0 +1,17 @@
+-- Saved progress of respondents (see lib/formDrafts.ts). Only accessed with the
+-- service role, so row-level security is on without policies.
+create table if not exists form_drafts (
+  id uuid primary key default gen_random_uuid(),
+  form_id uuid not null references forms (id) on delete cascade,
+  user_id uuid references auth.users (id) on delete cascade,
+  resume_token text not null unique,
+  data jsonb not null default '{}'::jsonb,
+  page integer not null default 0,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists form_drafts_form_id_idx on form_drafts (form_id);
+
+alter table form_drafts enable row level security;
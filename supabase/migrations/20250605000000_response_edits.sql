@@ -0,0 +1,32 @@
+-- Edit links for responses (see lib/responseEdits.ts)
+alter table forms
+  add column if not exists allow_response_edits boolean not null default false,
+  add column if not exists edit_link_days integer,
+  add column if not exists responses_locked boolean not null default false;
+
+alter table form_responses
+  add column if not exists edit_token text unique,
+  add column if not exists edit_expires_at timestamptz,
+  add column if not exists updated_at timestamptz,
+  -- Fields answered by the signed prefill link, which edits can't change
+  add column if not exists prefilled_field_ids text[] not null default '{}';
+
+-- The previous answers of edited responses. Written with the service role; owners
+-- read the revisions of their forms' responses.
+create table if not exists form_response_revisions (
+  id uuid primary key default gen_random_uuid(),
+  response_id uuid not null references form_responses (id) on delete cascade,
+  form_id uuid not null references forms (id) on delete cascade,
+  data jsonb not null,
+  respondent_email text,
+  submitted_at timestamptz not null,
+  revised_at timestamptz not null default now()
+);
+
+create index if not exists form_response_revisions_response_id_idx on form_response_revisions (response_id);
+
+alter table form_response_revisions enable row level security;
+
+create policy "Owners read revisions of their forms' responses"
+  on form_response_revisions for select to authenticated
+  using (exists (select 1 from forms where forms.id = form_response_revisions.form_id and forms.user_id = auth.uid()));
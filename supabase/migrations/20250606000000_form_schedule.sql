@@ -0,0 +1,27 @@
+-- When forms take responses (see lib/formSchedule.ts)
+alter table forms
+  add column if not exists opens_at timestamptz,
+  add column if not exists closes_at timestamptz,
+  add column if not exists max_responses integer check (max_responses is null or max_responses > 0),
+  add column if not exists closed_message text;
+
+-- Responses are counted against the maximum before they are stored, which lets
+-- responses submitted at the same moment go over it. This checks again while the
+-- form is locked, so they are counted one after another. The error code is
+-- FORM_FULL_ERROR_CODE in lib/formAccess.ts.
+create or replace function enforce_max_responses() returns trigger
+language plpgsql security definer set search_path = public as $$
+declare
+  maximum integer;
+begin
+  select max_responses into maximum from forms where id = new.form_id for update;
+  if maximum > 0 and (select count(*) from form_responses where form_id = new.form_id) >= maximum then
+    raise exception using errcode = 'FFULL', message = 'This form has reached its maximum number of responses.';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists enforce_max_responses on form_responses;
+create trigger enforce_max_responses before insert on form_responses
+  for each row execute function enforce_max_responses();
@@ -0,0 +1,20 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Creates a Supabase client with the service role key, which bypasses row-level security.
+ * Only for route handlers that do their own access checks, such as anonymous submissions
+ * to public forms. Returns null when SUPABASE_SERVICE_ROLE_KEY is not configured.
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    return null
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
@@ -0,0 +1,23 @@
+import { createServerClient } from '@supabase/ssr'
+import { type NextRequest } from 'next/server'
+
+/**
+ * Creates a Supabase client for a route handler, authenticated as the user whose
+ * session cookies came with the request. Session refreshes are handled by the middleware,
+ * so cookies are only read here.
+ */
+export function createRouteClient(request: NextRequest) {
+  return createServerClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        get(name: string) {
+          return request.cookies.get(name)?.value
+        },
+        set() {},
+        remove() {},
+      },
+    }
+  )
+}